@@ -0,0 +1,49 @@
+import express from 'express';
+import cors from 'cors';
+import cookieParser from 'cookie-parser';
+import { config } from './config';
+import { errorHandler, notFound } from './middleware/errorHandler';
+import { accessRouter } from './routes/access';
+import { accountRouter } from './routes/account';
+import { adminRouter } from './routes/admin';
+import { authRouter } from './routes/auth';
+import { filesRouter } from './routes/files';
+import { foldersRouter } from './routes/folders';
+import { playbackRouter } from './routes/playback';
+import { playlistsRouter } from './routes/playlists';
+import { publicSharesRouter } from './routes/publicShares';
+import { sharedRouter } from './routes/shared';
+import { sharesRouter } from './routes/shares';
+import { trashRouter } from './routes/trash';
+import { uploadsRouter } from './routes/uploads';
+
+export const createApp = () => {
+  const app = express();
+
+  app.use(cors({ origin: config.clientOrigin, credentials: true }));
+  app.use(express.json());
+  app.use(cookieParser());
+
+  app.get('/api/health', (_req, res) => {
+    res.json({ status: 'ok' });
+  });
+
+  app.use('/api/auth', authRouter);
+  app.use('/api/account', accountRouter);
+  app.use('/api/admin', adminRouter);
+  app.use('/api/files', filesRouter);
+  app.use('/api/folders', foldersRouter);
+  app.use('/api/trash', trashRouter);
+  app.use('/api/access', accessRouter);
+  app.use('/api/shared', sharedRouter);
+  app.use('/api/playback', playbackRouter);
+  app.use('/api/playlists', playlistsRouter);
+  app.use('/api/shares', sharesRouter);
+  app.use('/api/public/shares', publicSharesRouter);
+  app.use('/api/uploads', uploadsRouter);
+
+  app.use('/api', notFound);
+  app.use(errorHandler);
+
+  return app;
+};
@@ -0,0 +1,64 @@
+import 'dotenv/config';
+import { randomBytes } from 'node:crypto';
+import path from 'node:path';
+
+const seconds = (value: number) => value * 1000;
+const minutes = (value: number) => value * 60 * 1000;
+const days = (value: number) => value * 24 * 60 * 60 * 1000;
+const megabytes = (value: number) => value * 1024 * 1024;
+
+const isProduction = process.env.NODE_ENV === 'production';
+
+if (!process.env.JWT_SECRET && isProduction) {
+  throw new Error('JWT_SECRET must be set in production');
+}
+
+export const config = {
+  port: Number(process.env.PORT ?? 4000),
+  mongoUri: process.env.MONGODB_URI ?? 'mongodb://127.0.0.1:27017/cloudstream',
+  clientOrigin: process.env.CLIENT_ORIGIN ?? 'http://localhost:8080',
+  isProduction,
+  // Without a configured secret every restart signs tokens with a new key, logging everyone out
+  jwtSecret: process.env.JWT_SECRET ?? randomBytes(32).toString('hex'),
+  accessTokenTtl: minutes(Number(process.env.ACCESS_TOKEN_TTL_MINUTES ?? 15)),
+  refreshTokenTtl: days(Number(process.env.REFRESH_TOKEN_TTL_DAYS ?? 30)),
+  // Accounts created with these emails can manage other users' allowances
+  adminEmails: (process.env.ADMIN_EMAILS ?? '').split(',').map(email => email.trim().toLowerCase()).filter(Boolean),
+  defaultStorageQuota: megabytes(Number(process.env.DEFAULT_STORAGE_QUOTA_MB ?? 100)),
+  defaultMaxFileSize: megabytes(Number(process.env.DEFAULT_MAX_FILE_SIZE_MB ?? 50)),
+  // Chunks of in-progress uploads are kept here until they are assembled into storage
+  uploadDir: path.resolve(process.env.UPLOAD_DIR ?? 'uploads'),
+  uploadChunkSize: Number(process.env.UPLOAD_CHUNK_SIZE ?? 5 * 1024 * 1024),
+  // Unfinished uploads are discarded after this long without activity
+  uploadSessionTtl: days(Number(process.env.UPLOAD_SESSION_TTL_DAYS ?? 1)),
+  // Deleted files and folders stay restorable for this long before they are purged for good
+  trashRetention: days(Number(process.env.TRASH_RETENTION_DAYS ?? 30)),
+  storage: {
+    driver: (process.env.STORAGE_DRIVER ?? 'local') as 'local' | 's3',
+    local: {
+      root: path.resolve(process.env.LOCAL_STORAGE_DIR ?? 'uploads/files'),
+    },
+    s3: {
+      bucket: process.env.S3_BUCKET ?? 'cloudstream',
+      region: process.env.S3_REGION ?? 'us-east-1',
+      // Leave unset for AWS; point at e.g. http://localhost:9000 for MinIO
+      endpoint: process.env.S3_ENDPOINT,
+      accessKeyId: process.env.S3_ACCESS_KEY_ID,
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+      urlTtlSeconds: Number(process.env.S3_URL_TTL_SECONDS ?? 6 * 60 * 60),
+    },
+  },
+  processing: {
+    ffmpegPath: process.env.FFMPEG_PATH ?? 'ffmpeg',
+    ffprobePath: process.env.FFPROBE_PATH ?? 'ffprobe',
+    pdftoppmPath: process.env.PDFTOPPM_PATH ?? 'pdftoppm',
+    pdfinfoPath: process.env.PDFINFO_PATH ?? 'pdfinfo',
+    pdftotextPath: process.env.PDFTOTEXT_PATH ?? 'pdftotext',
+    // How many processing jobs run at once; each may keep a CPU core busy
+    concurrency: Number(process.env.PROCESSING_CONCURRENCY ?? 1),
+    maxAttempts: Number(process.env.PROCESSING_MAX_ATTEMPTS ?? 3),
+    // Doubles after every failed attempt
+    retryDelay: seconds(Number(process.env.PROCESSING_RETRY_DELAY_SECONDS ?? 30)),
+  },
+};
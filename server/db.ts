@@ -0,0 +1,13 @@
+import mongoose from 'mongoose';
+import { config } from './config';
+
+export const connectDatabase = async () => {
+  await mongoose.connect(config.mongoUri);
+  return mongoose.connection;
+};
+
+// A unique index rejected a write, e.g. because a concurrent request got there first
+export const isDuplicateKeyError = (err: unknown) =>
+  typeof err === 'object' && err !== null && (err as { code?: unknown }).code === 11000;
+
+export const disconnectDatabase = () => mongoose.disconnect();
@@ -0,0 +1,32 @@
+import { config } from './config';
+import { connectDatabase, disconnectDatabase } from './db';
+import { createApp } from './app';
+import { startTrashPurge, stopTrashPurge } from './lib/trash';
+import { startProcessing, stopProcessing } from './processing';
+
+const start = async () => {
+  await connectDatabase();
+  await startProcessing();
+  startTrashPurge();
+
+  const server = createApp().listen(config.port, () => {
+    console.log(`CloudStream API listening on http://localhost:${config.port}`);
+  });
+
+  const shutdown = () => {
+    stopProcessing();
+    stopTrashPurge();
+    server.close(async () => {
+      await disconnectDatabase();
+      process.exit(0);
+    });
+  };
+
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+};
+
+start().catch((err) => {
+  console.error('Failed to start server', err);
+  process.exit(1);
+});
@@ -0,0 +1,94 @@
+import { createHash } from 'node:crypto';
+import { Transform, type Readable } from 'node:stream';
+import { BlobModel } from '../models/Blob';
+import { storage } from '../storage';
+import { HttpError } from './httpError';
+
+interface StoreBlobOptions {
+  hash: string;
+  size: number;
+  mimeType: string;
+  // Called only when the contents are not stored yet
+  createStream: () => Readable;
+}
+
+const blobStorageKey = (hash: string) => `blobs/${hash.slice(0, 2)}/${hash}`;
+
+// Assets rendered from a blob's contents share its lifetime, so they are keyed by its hash too
+export const thumbnailStorageKey = (hash: string) => `thumbnails/${hash}.jpg`;
+export const hlsStorageDir = (hash: string) => `hls/${hash}`;
+
+export const isSha256 = (value: string) => /^[a-f0-9]{64}$/.test(value);
+
+export const hashStream = async (stream: Readable) => {
+  const hash = createHash('sha256');
+  let size = 0;
+
+  for await (const chunk of stream) {
+    hash.update(chunk);
+    size += chunk.length;
+  }
+
+  return { hash: hash.digest('hex'), size };
+};
+
+// Passes a stream through unchanged, failing with a 413 as soon as it goes past maxBytes
+export const limitSize = (maxBytes: number, message: string) => {
+  let size = 0;
+  return new Transform({
+    transform(chunk, _encoding, callback) {
+      size += chunk.length;
+      callback(size > maxBytes ? new HttpError(413, message) : null, chunk);
+    },
+  });
+};
+
+// Takes another reference to an already stored blob, or resolves to null if there is none
+export const claimBlob = (hash: string) =>
+  BlobModel.findOneAndUpdate({ hash, refCount: { $gt: 0 } }, { $inc: { refCount: 1 } }, { new: true });
+
+export const storeBlob = async ({ hash, size, mimeType, createStream }: StoreBlobOptions) => {
+  const existing = await claimBlob(hash);
+  if (existing) return existing;
+
+  const storageKey = blobStorageKey(hash);
+  await storage.put(storageKey, createStream(), mimeType);
+
+  const stored = await storage.stat(storageKey);
+  if (stored?.size !== size) {
+    await storage.delete(storageKey);
+    throw new HttpError(422, `Stored ${stored?.size ?? 0} bytes but ${size} were expected`);
+  }
+
+  // Upserting copes with another upload of the same contents finishing first
+  return BlobModel.findOneAndUpdate(
+    { hash },
+    { $inc: { refCount: 1 }, $setOnInsert: { size, storageKey } },
+    { new: true, upsert: true },
+  );
+};
+
+const deleteRenderedAssets = (hash: string) =>
+  Promise.all([storage.delete(thumbnailStorageKey(hash)), storage.deletePrefix(hlsStorageDir(hash))]);
+
+// Drops one reference and garbage-collects the contents once nothing points at them
+export const releaseBlob = async (hash: string) => {
+  const blob = await BlobModel.findOneAndUpdate({ hash }, { $inc: { refCount: -1 } }, { new: true });
+  if (!blob || blob.refCount > 0) return;
+
+  const { deletedCount } = await BlobModel.deleteOne({ _id: blob._id, refCount: { $lte: 0 } });
+  if (deletedCount > 0) {
+    await Promise.all([storage.delete(blob.storageKey), deleteRenderedAssets(hash)]);
+  }
+};
+
+/**
+ * For assets rendered after their contents were replaced or deleted. They are
+ * shared with any other copy or earlier version of the same contents, so they
+ * are only removed once nothing references the blob any more.
+ */
+export const discardRenderedAssets = async (hash: string) => {
+  if (!(await BlobModel.exists({ hash }))) {
+    await deleteRenderedAssets(hash);
+  }
+};
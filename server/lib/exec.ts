@@ -0,0 +1,34 @@
+import { spawn } from 'node:child_process';
+
+interface RunCommandOptions {
+  // Sees stdout as it arrives, for commands that report progress there
+  onStdout?: (chunk: Buffer) => void;
+}
+
+/**
+ * Runs a command to completion and resolves to its stdout. Rejects with the
+ * tail of stderr when it exits unsuccessfully or can't be started.
+ */
+export const runCommand = (command: string, args: string[], { onStdout }: RunCommandOptions = {}) =>
+  new Promise<Buffer>((resolve, reject) => {
+    const child = spawn(command, args, { stdio: ['ignore', 'pipe', 'pipe'] });
+    const stdout: Buffer[] = [];
+    let stderr = '';
+
+    child.stdout.on('data', (chunk: Buffer) => {
+      stdout.push(chunk);
+      onStdout?.(chunk);
+    });
+    child.stderr.on('data', (chunk: Buffer) => {
+      stderr = (stderr + chunk.toString()).slice(-2000);
+    });
+
+    child.on('error', reject);
+    child.on('close', (code) => {
+      if (code === 0) {
+        resolve(Buffer.concat(stdout));
+      } else {
+        reject(new Error(`${command} exited with code ${code}: ${stderr.trim()}`));
+      }
+    });
+  });
@@ -0,0 +1,26 @@
+import { CommentModel } from '../models/Comment';
+import type { FileDocument } from '../models/File';
+import { PermissionModel } from '../models/Permission';
+import { PlaybackPositionModel } from '../models/PlaybackPosition';
+import { PlaylistModel } from '../models/Playlist';
+import { ShareLinkModel } from '../models/ShareLink';
+import { SubtitleTrackModel } from '../models/SubtitleTrack';
+import { cancelProcessing } from '../processing';
+import { releaseBlob } from './blobs';
+import { removeVersions } from './fileVersions';
+
+// Deletes a file and everything that belongs to it for good
+export const removeStoredFile = async (file: FileDocument) => {
+  await file.deleteOne();
+  // Records that point at the file
+  await ShareLinkModel.deleteMany({ file: file._id });
+  await PermissionModel.deleteMany({ file: file._id });
+  await PlaybackPositionModel.deleteMany({ file: file._id });
+  await SubtitleTrackModel.deleteMany({ file: file._id });
+  await CommentModel.deleteMany({ file: file._id });
+  await PlaylistModel.updateMany({ files: file._id }, { $pull: { files: file._id } });
+  await cancelProcessing(file._id);
+  // The contents stay stored while another file or version shares them
+  await releaseBlob(file.contentHash);
+  await removeVersions(file._id);
+};
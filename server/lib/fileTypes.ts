@@ -0,0 +1,30 @@
+import type { Readable } from 'node:stream';
+import { SIGNATURE_LENGTH, validateSignature, type MediaType } from '../../shared/fileSignatures';
+import { HttpError } from './httpError';
+
+export { getMediaType, type MediaType } from '../../shared/fileSignatures';
+
+export const MEDIA_TYPES: MediaType[] = ['video', 'audio', 'pdf'];
+
+// Reads just enough of a stream to identify its format, then stops reading
+export const readSignature = async (stream: Readable) => {
+  const chunks: Buffer[] = [];
+  let length = 0;
+
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+    length += chunk.length;
+    if (length >= SIGNATURE_LENGTH) break;
+  }
+  stream.destroy();
+
+  return new Uint8Array(Buffer.concat(chunks).subarray(0, SIGNATURE_LENGTH));
+};
+
+// Rejects contents whose leading bytes don't match the declared MIME type
+export const assertSignature = async (stream: Readable, mimeType: string, fileName: string) => {
+  const error = validateSignature(await readSignature(stream), mimeType, fileName);
+  if (error) {
+    throw new HttpError(415, error);
+  }
+};
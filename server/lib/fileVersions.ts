@@ -0,0 +1,131 @@
+import type { Types } from 'mongoose';
+import type { BlobDocument } from '../models/Blob';
+import { FileModel, type FileDocument } from '../models/File';
+import { FileVersionModel, type FileVersionDocument } from '../models/FileVersion';
+import { cancelProcessing, processUploadedFile } from '../processing';
+import type { MediaType } from './fileTypes';
+import { claimBlob, releaseBlob } from './blobs';
+import { HttpError } from './httpError';
+
+interface UploadedFile {
+  owner: Types.ObjectId;
+  parent: Types.ObjectId | null;
+  name: string;
+  type: MediaType;
+  mimeType: string;
+  // A reference to the stored contents that the file takes over
+  blob: BlobDocument;
+}
+
+interface Contents {
+  type: MediaType;
+  mimeType: string;
+  size: number;
+  contentHash: string;
+  storageKey: string;
+}
+
+// Keeps the current contents in the history, then swaps in the new ones and reprocesses them
+const replaceContents = async (file: FileDocument, contents: Contents) => {
+  await FileVersionModel.create({
+    file: file._id,
+    owner: file.owner,
+    number: file.version,
+    type: file.type,
+    mimeType: file.mimeType,
+    size: file.size,
+    contentHash: file.contentHash,
+    storageKey: file.storageKey,
+    thumbnailKey: file.thumbnailKey,
+    metadata: file.metadata,
+    uploadDate: file.uploadDate,
+  });
+  await cancelProcessing(file._id);
+
+  file.set({
+    ...contents,
+    version: file.version + 1,
+    uploadDate: new Date(),
+    thumbnailKey: undefined,
+    hlsPlaylistKey: undefined,
+    metadata: undefined,
+  });
+  await file.save();
+  await processUploadedFile(file);
+};
+
+/**
+ * Adds a finished upload to the library. Uploading over a file with the same
+ * name in the same folder makes it that file's new version instead of a copy.
+ */
+export const saveUploadedFile = async ({ owner, parent, name, type, mimeType, blob }: UploadedFile) => {
+  const existing = await FileModel.findOne({ owner, parent, name, trashedAt: null }).sort({ uploadDate: -1 });
+
+  if (!existing) {
+    const file = await FileModel.create({
+      owner,
+      parent,
+      name,
+      type,
+      mimeType,
+      size: blob.size,
+      contentHash: blob.hash,
+      storageKey: blob.storageKey,
+    });
+    await processUploadedFile(file);
+    return file;
+  }
+
+  // Re-uploading the same contents changes nothing, so it isn't worth a version
+  if (existing.contentHash === blob.hash) {
+    await releaseBlob(blob.hash);
+    return existing;
+  }
+
+  await replaceContents(existing, {
+    type,
+    mimeType,
+    size: blob.size,
+    contentHash: blob.hash,
+    storageKey: blob.storageKey,
+  });
+  return existing;
+};
+
+// Makes an earlier version current again as a new version, so nothing drops out of the history
+export const promoteVersion = async (file: FileDocument, version: FileVersionDocument) => {
+  if (!(await claimBlob(version.contentHash))) {
+    throw new HttpError(410, `The contents of version ${version.number} are no longer stored`);
+  }
+
+  await replaceContents(file, {
+    type: version.type,
+    mimeType: version.mimeType,
+    size: version.size,
+    contentHash: version.contentHash,
+    storageKey: version.storageKey,
+  });
+};
+
+// The current version, in the same shape as FileVersion's JSON
+export const describeCurrentVersion = (file: FileDocument) => ({
+  id: file.id,
+  number: file.version,
+  type: file.type,
+  mimeType: file.mimeType,
+  size: file.size,
+  url: `/api/files/${file.id}/stream`,
+  downloadUrl: `/api/files/${file.id}/content`,
+  thumbnail: file.thumbnailKey ? `/api/files/${file.id}/thumbnail` : undefined,
+  metadata: file.metadata,
+  uploadDate: file.uploadDate,
+  current: true,
+});
+
+export const removeVersions = async (fileId: Types.ObjectId) => {
+  const versions = await FileVersionModel.find({ file: fileId });
+  await FileVersionModel.deleteMany({ file: fileId });
+  for (const version of versions) {
+    await releaseBlob(version.contentHash);
+  }
+};
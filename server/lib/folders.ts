@@ -0,0 +1,96 @@
+import { Types } from 'mongoose';
+import { FileModel } from '../models/File';
+import { FolderModel } from '../models/Folder';
+import { HttpError } from './httpError';
+
+// Folders in the trash can't be opened, renamed or used as a destination until they are restored
+export const findOwnedFolder = async (owner: Types.ObjectId, id: string) => {
+  const folder = Types.ObjectId.isValid(id) ? await FolderModel.findOne({ _id: id, owner, trashedAt: null }) : null;
+  if (!folder) {
+    throw new HttpError(404, 'Folder not found');
+  }
+  return folder;
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export const assertFolderNameAvailable = async (
+  owner: Types.ObjectId,
+  parent: Types.ObjectId | null,
+  name: string,
+  excludeId?: Types.ObjectId,
+) => {
+  const existing = await FolderModel.exists({
+    owner,
+    parent,
+    trashedAt: null,
+    name: { $regex: `^${escapeRegExp(name)}$`, $options: 'i' },
+    ...(excludeId && { _id: { $ne: excludeId } }),
+  });
+  if (existing) {
+    throw new HttpError(409, `A folder named "${name}" already exists here`);
+  }
+};
+
+/** The folder and every folder nested anywhere beneath it. */
+export const collectFolderTree = async (owner: Types.ObjectId, rootId: Types.ObjectId) => {
+  const folders = await FolderModel.find({ owner }, { parent: 1 });
+  const childrenOf = new Map<string, Types.ObjectId[]>();
+  for (const folder of folders) {
+    if (!folder.parent) continue;
+    const siblings = childrenOf.get(String(folder.parent)) ?? [];
+    siblings.push(folder._id);
+    childrenOf.set(String(folder.parent), siblings);
+  }
+
+  const ids = [rootId];
+  for (let i = 0; i < ids.length; i++) {
+    ids.push(...(childrenOf.get(String(ids[i])) ?? []));
+  }
+  return ids;
+};
+
+export interface FolderUsage {
+  // Null for files that aren't in any folder
+  id: string | null;
+  name: string;
+  size: number;
+  fileCount: number;
+}
+
+/**
+ * Storage used by each top-level folder, counting everything nested inside it.
+ * Sizes are summed per file, so copies of the same contents count every time.
+ * Files in the trash are left out.
+ */
+export const getFolderUsage = async (owner: Types.ObjectId): Promise<FolderUsage[]> => {
+  const [folders, totals] = await Promise.all([
+    FolderModel.find({ owner, trashedAt: null }, { name: 1, parent: 1 }),
+    FileModel.aggregate<{ _id: Types.ObjectId | null; size: number; fileCount: number }>([
+      { $match: { owner, trashedAt: null } },
+      { $group: { _id: '$parent', size: { $sum: '$size' }, fileCount: { $sum: 1 } } },
+    ]),
+  ]);
+
+  const parentOf = new Map(folders.map((folder) => [String(folder._id), folder.parent ? String(folder.parent) : null]));
+  const topLevelOf = (id: string) => {
+    let current = id;
+    for (let parent = parentOf.get(current); parent; parent = parentOf.get(current)) current = parent;
+    return current;
+  };
+
+  const usage = new Map<string | null, FolderUsage>([[null, { id: null, name: 'Not in a folder', size: 0, fileCount: 0 }]]);
+  for (const folder of folders) {
+    if (!folder.parent) {
+      usage.set(folder.id, { id: folder.id, name: folder.name, size: 0, fileCount: 0 });
+    }
+  }
+
+  for (const total of totals) {
+    const entry = usage.get(total._id ? topLevelOf(String(total._id)) : null) ?? usage.get(null)!;
+    entry.size += total.size;
+    entry.fileCount += total.fileCount;
+  }
+
+  return [...usage.values()].sort((a, b) => b.size - a.size);
+};
@@ -0,0 +1,55 @@
+// Reading and writing M3U playlists, including the extended #EXTM3U form
+
+export interface M3uEntry {
+  // A path or URL, exactly as written in the playlist
+  location: string;
+  title?: string;
+  // In seconds; -1 in the file means unknown
+  duration?: number;
+}
+
+const EXTINF = /^#EXTINF:\s*(-?\d+(?:\.\d+)?)[^,]*,(.*)$/;
+
+export const parseM3u = (content: string): M3uEntry[] => {
+  const entries: M3uEntry[] = [];
+  let info: Omit<M3uEntry, 'location'> = {};
+
+  for (const rawLine of content.replace(/^\uFEFF/, '').split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    const match = EXTINF.exec(line);
+    if (match) {
+      const duration = Number(match[1]);
+      info = { title: match[2].trim() || undefined, ...(duration >= 0 && { duration }) };
+      continue;
+    }
+    // Any other directive or comment
+    if (line.startsWith('#')) continue;
+
+    entries.push({ location: line, ...info });
+    info = {};
+  }
+  return entries;
+};
+
+export const buildM3u = (entries: M3uEntry[]) =>
+  [
+    '#EXTM3U',
+    ...entries.flatMap((entry) => [
+      `#EXTINF:${entry.duration !== undefined ? Math.round(entry.duration) : -1},${(entry.title ?? '').replace(/[\r\n]+/g, ' ')}`,
+      entry.location,
+    ]),
+    '',
+  ].join('\n');
+
+// The file name an entry points at, without any folders, query string or URL escaping
+export const entryFileName = (location: string) => {
+  const path = location.split(/[?#]/)[0];
+  const name = path.split(/[\\/]/).pop() ?? '';
+  try {
+    return decodeURIComponent(name);
+  } catch {
+    return name;
+  }
+};
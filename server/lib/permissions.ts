@@ -0,0 +1,117 @@
+import { Types } from 'mongoose';
+import { FileModel } from '../models/File';
+import { FolderModel } from '../models/Folder';
+import { ACCESS_ROLES, PermissionModel, type AccessRole, type PermissionDocument } from '../models/Permission';
+import { UserModel } from '../models/User';
+import { HttpError } from './httpError';
+
+interface LibraryItem {
+  _id: Types.ObjectId;
+  owner: Types.ObjectId;
+  parent: Types.ObjectId | null;
+}
+
+export const hasRole = (role: AccessRole | null, required: AccessRole) =>
+  role !== null && ACCESS_ROLES.indexOf(role) >= ACCESS_ROLES.indexOf(required);
+
+const highestRole = (roles: AccessRole[]) =>
+  roles.reduce<AccessRole | null>((best, role) => (hasRole(best, role) ? best : role), null);
+
+/** The folder and every folder above it, nearest first. */
+export const collectAncestors = async (folderId: Types.ObjectId | null) => {
+  const ids: Types.ObjectId[] = [];
+  let id = folderId;
+  // A cycle would mean corrupt data; stop rather than loop forever
+  while (id && !ids.some((seen) => seen.equals(id!))) {
+    ids.push(id);
+    id = (await FolderModel.findById(id, { parent: 1 }))?.parent ?? null;
+  }
+  return ids;
+};
+
+/**
+ * What the user may do with a file or folder: everything if it is in their own
+ * library, otherwise the highest role they were given on it or on any folder above it.
+ */
+export const getAccessRole = async (
+  userId: Types.ObjectId,
+  item: LibraryItem,
+  kind: 'file' | 'folder',
+): Promise<AccessRole | null> => {
+  if (item.owner.equals(userId)) return 'owner';
+  // Most items belong to people who haven't shared anything with this user
+  if (!(await PermissionModel.exists({ user: userId, owner: item.owner }))) return null;
+
+  const folders = await collectAncestors(kind === 'folder' ? item._id : item.parent);
+  const grants = await PermissionModel.find(
+    { user: userId, $or: [{ folder: { $in: folders } }, ...(kind === 'file' ? [{ file: item._id }] : [])] },
+    { role: 1 },
+  );
+  return highestRole(grants.map((grant) => grant.role));
+};
+
+// Items the user has no access to at all look the same as ones that don't exist
+const assertRole = (role: AccessRole | null, required: AccessRole, notFound: string) => {
+  if (!role) {
+    throw new HttpError(404, notFound);
+  }
+  if (!hasRole(role, required)) {
+    throw new HttpError(403, `You need ${required} access to do this`);
+  }
+};
+
+export interface FindOptions {
+  // Trashed files can still be viewed by their owner, but not changed until they are restored
+  includeTrashed?: boolean;
+}
+
+export const findAccessibleFile = async (
+  userId: Types.ObjectId,
+  id: string,
+  required: AccessRole,
+  { includeTrashed = false }: FindOptions = {},
+) => {
+  const file = Types.ObjectId.isValid(id) ? await FileModel.findById(id) : null;
+  if (!file || (file.trashedAt && !(includeTrashed && file.owner.equals(userId)))) {
+    throw new HttpError(404, 'File not found');
+  }
+
+  const role = await getAccessRole(userId, file, 'file');
+  assertRole(role, required, 'File not found');
+  return { file, role: role! };
+};
+
+// Folders in the trash can't be opened by anyone until they are restored
+export const findAccessibleFolder = async (userId: Types.ObjectId, id: string, required: AccessRole) => {
+  const folder = Types.ObjectId.isValid(id) ? await FolderModel.findOne({ _id: id, trashedAt: null }) : null;
+  if (!folder) {
+    throw new HttpError(404, 'Folder not found');
+  }
+
+  const role = await getAccessRole(userId, folder, 'folder');
+  assertRole(role, required, 'Folder not found');
+  return { folder, role: role! };
+};
+
+/**
+ * Turns a client-supplied destination folder id into a folder in `owner`'s library,
+ * with null meaning its top level. Items never move between libraries.
+ */
+export const resolveParentIn = async (userId: Types.ObjectId, owner: Types.ObjectId, parentId: string | null | undefined) => {
+  if (!parentId) return null;
+  const { folder } = await findAccessibleFolder(userId, parentId, 'editor');
+  if (!folder.owner.equals(owner)) {
+    throw new HttpError(400, 'Items can only be moved within the library they belong to');
+  }
+  return folder._id;
+};
+
+/** Grants along with the name and email of each user they were given to. */
+export const describeGrants = async (grants: PermissionDocument[]) => {
+  const users = await UserModel.find({ _id: { $in: grants.map((grant) => grant.user) } }, { name: 1, email: 1 });
+  const byId = new Map(users.map((user) => [String(user._id), user]));
+  return grants.flatMap((grant) => {
+    const user = byId.get(String(grant.user));
+    return user ? [{ ...grant.toJSON(), user: { id: user.id, name: user.name, email: user.email } }] : [];
+  });
+};
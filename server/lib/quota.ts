@@ -0,0 +1,88 @@
+import type { Types } from 'mongoose';
+import { FileModel } from '../models/File';
+import { FileVersionModel } from '../models/FileVersion';
+import { UploadSessionModel } from '../models/UploadSession';
+import { UserModel } from '../models/User';
+import { HttpError } from './httpError';
+
+interface CheckOptions {
+  // An in-progress upload that is already counted by `size`
+  excludeUploadId?: Types.ObjectId;
+  // Contents that take up no more space if the library already has them
+  contentHash?: string;
+}
+
+const formatMegabytes = (bytes: number) => `${Math.round((bytes / (1024 * 1024)) * 10) / 10}MB`;
+
+/**
+ * Bytes a user's library takes up, earlier versions of files included. Copies
+ * of the same contents within one library are counted once, since they share storage.
+ */
+export const getStorageUsed = async (userId: Types.ObjectId) => {
+  const [result] = await FileModel.aggregate<{ used: number }>([
+    { $match: { owner: userId } },
+    { $project: { contentHash: 1, size: 1 } },
+    {
+      $unionWith: {
+        coll: FileVersionModel.collection.name,
+        pipeline: [{ $match: { owner: userId } }, { $project: { contentHash: 1, size: 1 } }],
+      },
+    },
+    { $group: { _id: '$contentHash', size: { $first: '$size' } } },
+    { $group: { _id: null, used: { $sum: '$size' } } },
+  ]);
+  return result?.used ?? 0;
+};
+
+export const getStorageUsage = async (userId: Types.ObjectId) => {
+  const user = await UserModel.findById(userId);
+  if (!user) {
+    throw new HttpError(401, 'Authentication required');
+  }
+
+  return {
+    used: await getStorageUsed(userId),
+    quota: user.storageQuota,
+    maxFileSize: user.maxFileSize,
+  };
+};
+
+// Whether any of the user's files or their earlier versions already has these contents
+export const holdsContents = async (userId: Types.ObjectId, hash: string) =>
+  Boolean(
+    (await FileModel.exists({ owner: userId, contentHash: hash })) ||
+      (await FileVersionModel.exists({ owner: userId, contentHash: hash })),
+  );
+
+// Uploads still in progress count against the quota so parallel uploads can't overshoot it
+const getReservedBytes = async (userId: Types.ObjectId, excludeUploadId?: Types.ObjectId) => {
+  const sessions = await UploadSessionModel.find(
+    { library: userId, ...(excludeUploadId && { _id: { $ne: excludeUploadId } }) },
+    { size: 1 },
+  );
+  return sessions.reduce((total, session) => total + session.size, 0);
+};
+
+export const assertCanStore = async (
+  userId: Types.ObjectId,
+  size: number,
+  fileName: string,
+  { excludeUploadId, contentHash }: CheckOptions = {},
+) => {
+  const { used, quota, maxFileSize } = await getStorageUsage(userId);
+
+  if (size > maxFileSize) {
+    throw new HttpError(413, `${fileName} is too large. Maximum file size is ${formatMegabytes(maxFileSize)}.`);
+  }
+
+  if (contentHash && (await holdsContents(userId, contentHash))) return;
+
+  const reserved = await getReservedBytes(userId, excludeUploadId);
+  if (used + reserved + size > quota) {
+    throw new HttpError(
+      413,
+      `${fileName} would exceed your storage quota of ${formatMegabytes(quota)} ` +
+        `(${formatMegabytes(Math.max(quota - used - reserved, 0))} left).`,
+    );
+  }
+};
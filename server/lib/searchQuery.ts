@@ -0,0 +1,50 @@
+import type { FilterQuery } from 'mongoose';
+import {
+  parseSearchQuery,
+  resolveDateFilter,
+  SearchQueryError,
+  type Comparator,
+  type QueryTerm,
+} from '../../shared/searchQuery';
+import type { StoredFile } from '../models/File';
+import { HttpError } from './httpError';
+
+const COMPARISON_OPERATORS: Record<Comparator, string> = {
+  '>': '$gt',
+  '>=': '$gte',
+  '<': '$lt',
+  '<=': '$lte',
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const termFilter = (term: QueryTerm, now: Date): FilterQuery<StoredFile> => {
+  switch (term.field) {
+    case 'text':
+      return { name: { $regex: escapeRegExp(term.value), $options: 'i' } };
+    case 'type':
+      return { type: term.value };
+    case 'size':
+      return { size: { [COMPARISON_OPERATORS[term.comparator]]: term.bytes } };
+    case 'uploaded': {
+      const { from, to } = resolveDateFilter(term.filter, now);
+      return { uploadDate: { ...(from && { $gte: from }), ...(to && { $lt: to }) } };
+    }
+    case 'tag':
+      return { tags: term.value };
+  }
+};
+
+/** Turns a Files page search into a filter over the File collection, or a 400 if it doesn't parse. */
+export const searchQueryFilter = (input: string, now = new Date()): FilterQuery<StoredFile> => {
+  try {
+    const { terms } = parseSearchQuery(input);
+    const filters = terms.map((term) => (term.negated ? { $nor: [termFilter(term, now)] } : termFilter(term, now)));
+    return filters.length > 0 ? { $and: filters } : {};
+  } catch (err) {
+    if (err instanceof SearchQueryError) {
+      throw new HttpError(400, err.message);
+    }
+    throw err;
+  }
+};
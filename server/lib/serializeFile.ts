@@ -0,0 +1,14 @@
+import type { FileDocument } from '../models/File';
+import { storage } from '../storage';
+
+// The storage driver may hand out direct URLs; otherwise the API routes are used
+export const serializeFile = async (file: FileDocument) => {
+  const json = file.toJSON();
+  const [url, thumbnail] = await Promise.all([
+    storage.resolveUrl(file.storageKey, { mimeType: file.mimeType }),
+    file.thumbnailKey ? storage.resolveUrl(file.thumbnailKey, { mimeType: 'image/jpeg' }) : null,
+  ]);
+  return { ...json, ...(url && { url }), ...(thumbnail && { thumbnail }) };
+};
+
+export const serializeFiles = (files: FileDocument[]) => Promise.all(files.map(serializeFile));
@@ -0,0 +1,145 @@
+import { createHash, randomBytes } from 'node:crypto';
+import type { CookieOptions, Request, Response } from 'express';
+import jwt from 'jsonwebtoken';
+import { Types } from 'mongoose';
+import { config } from '../config';
+import { SessionModel, type SessionDocument } from '../models/Session';
+
+export const ACCESS_COOKIE = 'cloudstream_access';
+export const REFRESH_COOKIE = 'cloudstream_refresh';
+
+// The refresh token is only ever needed by the auth routes
+const REFRESH_COOKIE_PATH = '/api/auth';
+
+// Tabs refreshing at the same moment can present a just-rotated token without it being stolen
+const REUSE_GRACE_PERIOD = 30 * 1000;
+
+interface AccessTokenPayload {
+  sub: string;
+  sid: string;
+}
+
+export interface AccessTokenClaims {
+  userId: string;
+  sessionId: string;
+}
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+const cookieOptions = (expires: Date, path: string): CookieOptions => ({
+  httpOnly: true,
+  sameSite: 'lax',
+  secure: config.isProduction,
+  expires,
+  path,
+});
+
+// Returns when the new access token expires so the client can refresh ahead of time
+const setSessionCookies = (res: Response, session: SessionDocument, refreshToken: string) => {
+  const accessTokenExpiresAt = new Date(Date.now() + config.accessTokenTtl);
+  const accessToken = jwt.sign({ sid: session.id } satisfies Omit<AccessTokenPayload, 'sub'>, config.jwtSecret, {
+    subject: String(session.user),
+    expiresIn: Math.floor(config.accessTokenTtl / 1000),
+  });
+
+  res.cookie(ACCESS_COOKIE, accessToken, cookieOptions(accessTokenExpiresAt, '/'));
+  res.cookie(REFRESH_COOKIE, refreshToken, cookieOptions(session.expiresAt, REFRESH_COOKIE_PATH));
+
+  return accessTokenExpiresAt;
+};
+
+export const clearSessionCookies = (res: Response) => {
+  res.clearCookie(ACCESS_COOKIE, { path: '/' });
+  res.clearCookie(REFRESH_COOKIE, { path: REFRESH_COOKIE_PATH });
+};
+
+export const createSession = async (req: Request, res: Response, userId: Types.ObjectId) => {
+  const refreshToken = randomBytes(32).toString('base64url');
+  const session = await SessionModel.create({
+    user: userId,
+    refreshTokenHash: hashToken(refreshToken),
+    userAgent: req.get('user-agent'),
+    expiresAt: new Date(Date.now() + config.refreshTokenTtl),
+  });
+
+  return setSessionCookies(res, session, refreshToken);
+};
+
+export type RotationResult =
+  | { outcome: 'rotated'; session: SessionDocument; accessTokenExpiresAt: Date }
+  // Another tab rotated this token moments ago and already holds the new cookies
+  | { outcome: 'superseded' }
+  | { outcome: 'invalid' };
+
+/**
+ * Exchanges the refresh cookie for a new access token and a new refresh token.
+ * The result is invalid when the session is missing, expired or revoked.
+ */
+export const rotateSession = async (req: Request, res: Response): Promise<RotationResult> => {
+  const presented: string | undefined = req.cookies?.[REFRESH_COOKIE];
+  if (!presented) return { outcome: 'invalid' };
+
+  const presentedHash = hashToken(presented);
+  const refreshToken = randomBytes(32).toString('base64url');
+
+  // Rotating only if the token is still current means two concurrent refreshes can't both succeed
+  const session = await SessionModel.findOneAndUpdate(
+    { refreshTokenHash: presentedHash, revokedAt: null, expiresAt: { $gt: new Date() } },
+    { previousRefreshTokenHash: presentedHash, refreshTokenHash: hashToken(refreshToken), lastUsedAt: new Date() },
+    { new: true },
+  );
+
+  if (session) {
+    return { outcome: 'rotated', session, accessTokenExpiresAt: setSessionCookies(res, session, refreshToken) };
+  }
+
+  const rotatedFrom = await SessionModel.findOne({
+    previousRefreshTokenHash: presentedHash,
+    revokedAt: null,
+    expiresAt: { $gt: new Date() },
+  });
+  if (!rotatedFrom) return { outcome: 'invalid' };
+
+  if (rotatedFrom.lastUsedAt.getTime() > Date.now() - REUSE_GRACE_PERIOD) {
+    return { outcome: 'superseded' };
+  }
+
+  // A rotated-out token being replayed: revoke the session it belonged to
+  await SessionModel.updateOne({ _id: rotatedFrom._id, revokedAt: null }, { revokedAt: new Date() });
+  return { outcome: 'invalid' };
+};
+
+/**
+ * Checks only the access token's signature and expiry. requireAuth also checks
+ * that its session hasn't been revoked since the token was issued.
+ */
+export const readAccessToken = (req: Request): AccessTokenClaims | null => {
+  const token: string | undefined = req.cookies?.[ACCESS_COOKIE];
+  if (!token) return null;
+
+  try {
+    const payload = jwt.verify(token, config.jwtSecret) as AccessTokenPayload;
+    return { userId: payload.sub, sessionId: payload.sid };
+  } catch {
+    return null;
+  }
+};
+
+export const isSessionActive = async (sessionId: string) =>
+  Types.ObjectId.isValid(sessionId) &&
+  Boolean(await SessionModel.exists({ _id: sessionId, revokedAt: null, expiresAt: { $gt: new Date() } }));
+
+export const revokeSession = async (req: Request) => {
+  const claims = readAccessToken(req);
+  const refreshToken: string | undefined = req.cookies?.[REFRESH_COOKIE];
+
+  if (claims) {
+    await SessionModel.updateOne({ _id: claims.sessionId, revokedAt: null }, { revokedAt: new Date() });
+  } else if (refreshToken) {
+    await SessionModel.updateOne({ refreshTokenHash: hashToken(refreshToken), revokedAt: null }, { revokedAt: new Date() });
+  }
+};
+
+export const revokeAllSessions = async (userId: Types.ObjectId | string) => {
+  await SessionModel.updateMany({ user: userId, revokedAt: null }, { revokedAt: new Date() });
+};
@@ -0,0 +1,271 @@
+import { randomBytes } from 'node:crypto';
+import type { Request, Response } from 'express';
+import jwt from 'jsonwebtoken';
+import { Types } from 'mongoose';
+import { config } from '../config';
+import { FileModel, type FileDocument } from '../models/File';
+import { FolderModel } from '../models/Folder';
+import { ShareLinkModel, type ShareLinkDocument } from '../models/ShareLink';
+import { SubtitleTrackModel, type SubtitleTrackDocument } from '../models/SubtitleTrack';
+import { collectFolderTree } from './folders';
+import { HttpError } from './httpError';
+import { verifyPassword } from './password';
+
+const UNLOCK_COOKIE = 'cloudstream_share';
+const DOWNLOAD_COOKIE = 'cloudstream_share_download';
+// How long a visitor stays unlocked after entering a link's password, and how long one
+// counted download keeps working for them
+const UNLOCK_TTL = 12 * 60 * 60 * 1000;
+
+// Wrong passwords allowed per link from one address, and from everywhere, before unlocking is paused
+const UNLOCK_ATTEMPTS_PER_ADDRESS = 10;
+const UNLOCK_ATTEMPTS_PER_LINK = 100;
+const UNLOCK_ATTEMPT_WINDOW = 15 * 60 * 1000;
+
+export const generateShareToken = () => randomBytes(18).toString('base64url');
+
+const publicSharePath = (token: string) => `/api/public/shares/${token}`;
+
+// Kept in memory, so the counts start over when the server restarts
+const failedUnlocks = new Map<string, { count: number; resetAt: number }>();
+
+const countFailedUnlock = (key: string) => {
+  const now = Date.now();
+  const entry = failedUnlocks.get(key);
+  if (entry && entry.resetAt > now) {
+    entry.count += 1;
+  } else {
+    failedUnlocks.set(key, { count: 1, resetAt: now + UNLOCK_ATTEMPT_WINDOW });
+  }
+};
+
+const isUnlockThrottled = (key: string, limit: number) => {
+  const entry = failedUnlocks.get(key);
+  return Boolean(entry && entry.resetAt > Date.now() && entry.count >= limit);
+};
+
+const pruneFailedUnlocks = () => {
+  const now = Date.now();
+  for (const [key, entry] of failedUnlocks) {
+    if (entry.resetAt <= now) failedUnlocks.delete(key);
+  }
+};
+
+const cookieExpiry = (share: ShareLinkDocument) =>
+  new Date(Math.min(Date.now() + UNLOCK_TTL, share.expiresAt?.getTime() ?? Infinity));
+
+const signCookie = (subject: string, expires: Date) =>
+  jwt.sign({}, config.jwtSecret, {
+    subject,
+    expiresIn: Math.max(Math.floor((expires.getTime() - Date.now()) / 1000), 1),
+  });
+
+const readCookieSubject = (req: Request, name: string) => {
+  const token: string | undefined = req.cookies?.[name];
+  if (!token) return null;
+  try {
+    return (jwt.verify(token, config.jwtSecret) as jwt.JwtPayload).sub ?? null;
+  } catch {
+    return null;
+  }
+};
+
+// Finds a link that still works, or throws the error its visitor should see
+export const findActiveShare = async (token: string) => {
+  const share = await ShareLinkModel.findOne({ token });
+  if (!share) {
+    throw new HttpError(404, 'This link doesn\'t exist or has been revoked');
+  }
+  // MongoDB only sweeps expired links every minute or so
+  if (share.expiresAt && share.expiresAt.getTime() <= Date.now()) {
+    throw new HttpError(410, 'This link has expired');
+  }
+  return share;
+};
+
+export const isUnlocked = (req: Request, share: ShareLinkDocument) =>
+  !share.passwordHash || readCookieSubject(req, UNLOCK_COOKIE) === share.id;
+
+export const assertUnlocked = (req: Request, share: ShareLinkDocument) => {
+  if (!isUnlocked(req, share)) {
+    throw new HttpError(403, 'This link is password protected');
+  }
+};
+
+/**
+ * Checks a visitor's password and remembers it in a cookie scoped to the link,
+ * which media elements and downloads send along without any script involved.
+ * Repeated wrong guesses pause unlocking, from one address and for the link as a whole.
+ */
+export const unlockShare = async (req: Request, res: Response, share: ShareLinkDocument, password: string) => {
+  if (!share.passwordHash) return;
+
+  const addressKey = `${share.id}:${req.ip}`;
+  if (isUnlockThrottled(addressKey, UNLOCK_ATTEMPTS_PER_ADDRESS) || isUnlockThrottled(share.id, UNLOCK_ATTEMPTS_PER_LINK)) {
+    throw new HttpError(429, 'Too many incorrect passwords. Please try again later.');
+  }
+  if (!(await verifyPassword(password, share.passwordHash))) {
+    pruneFailedUnlocks();
+    countFailedUnlock(addressKey);
+    countFailedUnlock(share.id);
+    throw new HttpError(403, 'Incorrect password');
+  }
+  failedUnlocks.delete(addressKey);
+
+  const expires = cookieExpiry(share);
+  res.cookie(UNLOCK_COOKIE, signCookie(share.id, expires), {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: config.isProduction,
+    expires,
+    path: publicSharePath(share.token),
+  });
+};
+
+const unavailable = () => new HttpError(404, 'This link is no longer available');
+
+/**
+ * Everything a link gives access to: the file itself, or every file anywhere
+ * inside the folder with its path relative to that folder. Trashed items are left out.
+ */
+export const listSharedFiles = async (share: ShareLinkDocument) => {
+  if (share.file) {
+    const file = await FileModel.findOne({ _id: share.file, owner: share.owner, trashedAt: null });
+    if (!file) throw unavailable();
+    return { name: file.name, files: [{ file, path: '' }] };
+  }
+
+  const root = await FolderModel.findOne({ _id: share.folder, owner: share.owner, trashedAt: null });
+  if (!root) throw unavailable();
+
+  const folders = await FolderModel.find({ owner: share.owner, trashedAt: null }, { name: 1, parent: 1 });
+  const paths = new Map([[root.id as string, '']]);
+  const pending = [root.id as string];
+  while (pending.length > 0) {
+    const parentId = pending.shift()!;
+    for (const folder of folders.filter((candidate) => String(candidate.parent) === parentId)) {
+      const parentPath = paths.get(parentId)!;
+      paths.set(folder.id, parentPath ? `${parentPath}/${folder.name}` : folder.name);
+      pending.push(folder.id);
+    }
+  }
+
+  const files = await FileModel.find({
+    owner: share.owner,
+    parent: { $in: [...paths.keys()].map((id) => new Types.ObjectId(id)) },
+    trashedAt: null,
+  }).sort({ name: 1 });
+  return { name: root.name, files: files.map((file) => ({ file, path: paths.get(String(file.parent)) ?? '' })) };
+};
+
+// Looks up one file for streaming, without listing the whole folder on every range request
+export const findSharedFile = async (share: ShareLinkDocument, fileId: string) => {
+  const file = Types.ObjectId.isValid(fileId)
+    ? await FileModel.findOne({ _id: fileId, owner: share.owner, trashedAt: null })
+    : null;
+  if (!file) throw new HttpError(404, 'File not found');
+
+  if (share.file) {
+    if (!share.file.equals(file._id)) throw new HttpError(404, 'File not found');
+    return file;
+  }
+
+  const root = await FolderModel.findOne({ _id: share.folder, owner: share.owner, trashedAt: null });
+  if (!root) throw unavailable();
+  const subtree = await collectFolderTree(share.owner, root._id);
+  if (!file.parent || !subtree.some((id) => id.equals(file.parent!))) {
+    throw new HttpError(404, 'File not found');
+  }
+  return file;
+};
+
+const downloadLimitReached = () => new HttpError(410, 'This link has reached its download limit');
+
+const hasDownloaded = (req: Request, share: ShareLinkDocument, file: FileDocument) =>
+  readCookieSubject(req, DOWNLOAD_COOKIE) === `${share.id}:${file.id}`;
+
+/**
+ * Counts a download against the link's limit, refusing it once the limit is used
+ * up. A visitor who already downloaded the file gets a cookie for it, so their
+ * resumed or repeated requests aren't counted again.
+ */
+export const claimDownload = async (req: Request, res: Response, share: ShareLinkDocument, file: FileDocument) => {
+  if (hasDownloaded(req, share, file)) return;
+
+  const claimed = await ShareLinkModel.findOneAndUpdate(
+    {
+      _id: share._id,
+      $or: [{ maxDownloads: null }, { $expr: { $lt: ['$downloadCount', '$maxDownloads'] } }],
+    },
+    { $inc: { downloadCount: 1 } },
+  );
+  if (!claimed) {
+    throw downloadLimitReached();
+  }
+
+  const expires = cookieExpiry(share);
+  res.cookie(DOWNLOAD_COOKIE, signCookie(`${share.id}:${file.id}`, expires), {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: config.isProduction,
+    expires,
+    path: `${publicSharePath(share.token)}/files/${file.id}`,
+  });
+};
+
+// Playing serves the whole file too, so it stops with downloads, except for visitors who already have it
+export const assertCanStream = (req: Request, share: ShareLinkDocument, file: FileDocument) => {
+  if (share.maxDownloads !== null && share.downloadCount >= share.maxDownloads && !hasDownloaded(req, share, file)) {
+    throw downloadLimitReached();
+  }
+};
+
+// Caption tracks for the videos among the files, by file id
+export const listSharedSubtitles = async (files: FileDocument[]) => {
+  const videos = files.filter((file) => file.type === 'video').map((file) => file._id);
+  const tracks = videos.length > 0
+    ? await SubtitleTrackModel.find({ file: { $in: videos } }, { content: 0 }).sort({ label: 1 })
+    : [];
+
+  const byFile = new Map<string, SubtitleTrackDocument[]>();
+  for (const track of tracks) {
+    byFile.set(String(track.file), [...(byFile.get(String(track.file)) ?? []), track]);
+  }
+  return byFile;
+};
+
+export const findSharedSubtitleTrack = async (file: FileDocument, trackId: string) => {
+  const track = Types.ObjectId.isValid(trackId) ? await SubtitleTrackModel.findOne({ _id: trackId, file: file._id }) : null;
+  if (!track) throw new HttpError(404, 'Subtitles not found');
+  return track;
+};
+
+// What a visitor sees of a file: nothing that reveals the owner or the rest of their library
+export const serializeSharedFile = (
+  share: ShareLinkDocument,
+  file: FileDocument,
+  path: string,
+  subtitles: SubtitleTrackDocument[] = [],
+) => {
+  const base = `${publicSharePath(share.token)}/files/${file.id}`;
+  return {
+    id: file.id,
+    name: file.name,
+    path,
+    type: file.type,
+    mimeType: file.mimeType,
+    size: file.size,
+    metadata: file.metadata,
+    url: `${base}/stream`,
+    downloadUrl: share.previewOnly ? undefined : `${base}/content`,
+    thumbnail: file.thumbnailKey ? `${base}/thumbnail` : undefined,
+    subtitles: subtitles.map((track) => ({
+      id: track.id,
+      fileId: file.id,
+      language: track.language,
+      label: track.label,
+      url: `${base}/subtitles/${track.id}`,
+      createdAt: track.createdAt,
+    })),
+  };
+};
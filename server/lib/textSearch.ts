@@ -0,0 +1,80 @@
+import type { Types } from 'mongoose';
+import { DocumentPageModel } from '../models/DocumentPage';
+import { FileModel } from '../models/File';
+
+export interface TextMatch {
+  fileId: string;
+  page: number;
+  snippet: string;
+  // Character ranges within `snippet` to highlight, end exclusive
+  highlights: { start: number; end: number }[];
+}
+
+const MAX_RESULTS = 20;
+const SNIPPET_BEFORE = 60;
+const SNIPPET_AFTER = 140;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// MongoDB stems the words it matches, so "exams" finds "exam"; matching on the
+// word without its common English endings lets the snippet highlight those forms too
+const stem = (word: string) => {
+  const stripped = word.replace(/(ing|ed|es|s)$/, '');
+  return stripped.length >= 3 ? stripped : word;
+};
+
+const termPattern = (query: string) => {
+  const stems = query
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((word) => word.length > 1)
+    .map((word) => escapeRegExp(stem(word)));
+
+  return stems.length > 0 ? new RegExp(`(?<![\\p{L}\\p{N}])(?:${stems.join('|')})[\\p{L}\\p{N}]*`, 'giu') : null;
+};
+
+const buildSnippet = (text: string, pattern: RegExp | null): Pick<TextMatch, 'snippet' | 'highlights'> => {
+  const first = pattern ? [...text.matchAll(pattern)][0] : undefined;
+  const anchor = first?.index ?? 0;
+
+  let start = Math.max(0, anchor - SNIPPET_BEFORE);
+  let end = Math.min(text.length, anchor + SNIPPET_AFTER);
+  // Widen to whole words so the snippet doesn't begin or end mid-word
+  while (start > 0 && /\S/.test(text[start - 1])) start -= 1;
+  while (end < text.length && /\S/.test(text[end])) end += 1;
+
+  const prefix = start > 0 ? '… ' : '';
+  const suffix = end < text.length ? ' …' : '';
+  const body = text.slice(start, end);
+
+  const highlights = pattern
+    ? [...body.matchAll(pattern)].map((match) => ({
+        start: prefix.length + (match.index ?? 0),
+        end: prefix.length + (match.index ?? 0) + match[0].length,
+      }))
+    : [];
+
+  return { snippet: `${prefix}${body}${suffix}`, highlights };
+};
+
+/**
+ * Finds PDF pages containing the query among one user's documents, best
+ * matches first, each with a snippet around the first matching word.
+ */
+export const searchDocumentText = async (owner: Types.ObjectId, query: string): Promise<TextMatch[]> => {
+  // Trashed documents keep their text so restoring them needs no re-indexing
+  const trashed = await FileModel.distinct('_id', { owner, trashedAt: { $ne: null } });
+  const pages = await DocumentPageModel.find(
+    { owner, file: { $nin: trashed }, $text: { $search: query } },
+    { score: { $meta: 'textScore' } },
+  )
+    .sort({ score: { $meta: 'textScore' } })
+    .limit(MAX_RESULTS);
+
+  const pattern = termPattern(query);
+  return pages.map((page) => ({
+    fileId: String(page.file),
+    page: page.page,
+    ...buildSnippet(page.text, pattern),
+  }));
+};
@@ -0,0 +1,102 @@
+import type { Types } from 'mongoose';
+import { config } from '../config';
+import { FileModel, type FileDocument } from '../models/File';
+import { FolderModel, type FolderDocument } from '../models/Folder';
+import { PermissionModel } from '../models/Permission';
+import { ShareLinkModel } from '../models/ShareLink';
+import { removeStoredFile } from './fileRemoval';
+import { assertFolderNameAvailable, collectFolderTree } from './folders';
+
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+let purgeTimer: NodeJS.Timeout | undefined;
+
+export const trashFile = (file: FileDocument) =>
+  file.updateOne({ trashedAt: new Date(), trashedWith: null });
+
+/**
+ * Moves a folder to the trash along with everything still inside it. Anything
+ * beneath it that was already in the trash stays there as its own entry.
+ */
+export const trashFolder = async (folder: FolderDocument) => {
+  const trashedAt = new Date();
+  const subtree = await collectFolderTree(folder.owner, folder._id);
+
+  await FolderModel.updateMany(
+    { owner: folder.owner, _id: { $in: subtree.slice(1) }, trashedAt: null },
+    { trashedAt, trashedWith: folder._id },
+  );
+  await FileModel.updateMany(
+    { owner: folder.owner, parent: { $in: subtree }, trashedAt: null },
+    { trashedAt, trashedWith: folder._id },
+  );
+  await folder.updateOne({ trashedAt, trashedWith: null });
+};
+
+// Restored items whose folder has since gone land at the top level instead
+const restorableParent = async (owner: Types.ObjectId, parent: Types.ObjectId | null) =>
+  parent && (await FolderModel.exists({ _id: parent, owner, trashedAt: null })) ? parent : null;
+
+export const restoreFile = async (file: FileDocument) => {
+  file.parent = await restorableParent(file.owner, file.parent);
+  file.trashedAt = null;
+  file.trashedWith = null;
+  await file.save();
+};
+
+export const restoreFolder = async (folder: FolderDocument) => {
+  folder.parent = await restorableParent(folder.owner, folder.parent);
+  await assertFolderNameAvailable(folder.owner, folder.parent, folder.name, folder._id);
+
+  const restored = { trashedAt: null, trashedWith: null };
+  await FolderModel.updateMany({ owner: folder.owner, trashedWith: folder._id }, restored);
+  await FileModel.updateMany({ owner: folder.owner, trashedWith: folder._id }, restored);
+
+  folder.set(restored);
+  await folder.save();
+};
+
+const removeFiles = async (filter: Record<string, unknown>) => {
+  for (const file of await FileModel.find(filter)) {
+    await removeStoredFile(file);
+  }
+};
+
+const removeFolders = async (filter: Record<string, unknown>) => {
+  const ids = await FolderModel.distinct('_id', filter);
+  await FolderModel.deleteMany({ _id: { $in: ids } });
+  await ShareLinkModel.deleteMany({ folder: { $in: ids } });
+  await PermissionModel.deleteMany({ folder: { $in: ids } });
+};
+
+// Permanently deletes a trashed folder and whatever went to the trash with it
+export const deleteTrashedFolder = async (folder: FolderDocument) => {
+  await removeFiles({ owner: folder.owner, trashedWith: folder._id });
+  await removeFolders({ owner: folder.owner, $or: [{ _id: folder._id }, { trashedWith: folder._id }] });
+};
+
+export const emptyTrash = async (owner: Types.ObjectId) => {
+  await removeFiles({ owner, trashedAt: { $ne: null } });
+  await removeFolders({ owner, trashedAt: { $ne: null } });
+};
+
+// Anything trashed together shares one timestamp, so a folder and its contents expire at once
+export const purgeExpiredTrash = async () => {
+  const cutoff = new Date(Date.now() - config.trashRetention);
+  await removeFiles({ trashedAt: { $lt: cutoff } });
+  await removeFolders({ trashedAt: { $lt: cutoff } });
+};
+
+const runPurge = () => {
+  purgeExpiredTrash().catch((err) => console.error('Failed to purge expired trash', err));
+};
+
+export const startTrashPurge = () => {
+  purgeTimer = setInterval(runPurge, PURGE_INTERVAL_MS);
+  runPurge();
+};
+
+export const stopTrashPurge = () => {
+  clearInterval(purgeTimer);
+  purgeTimer = undefined;
+};
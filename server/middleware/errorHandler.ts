@@ -0,0 +1,28 @@
+import type { ErrorRequestHandler, RequestHandler } from 'express';
+import { ZodError } from 'zod';
+import { HttpError } from '../lib/httpError';
+
+export const notFound: RequestHandler = (_req, _res, next) => {
+  next(new HttpError(404, 'Not found'));
+};
+
+export const errorHandler: ErrorRequestHandler = (err, _req, res, _next) => {
+  if (err instanceof HttpError) {
+    res.status(err.status).json({ error: err.message });
+    return;
+  }
+
+  if (err instanceof ZodError) {
+    res.status(400).json({ error: err.issues[0]?.message ?? 'Invalid request' });
+    return;
+  }
+
+  // Errors from Express's own body parsers, such as a body over the size limit
+  if (err?.expose && typeof err.status === 'number') {
+    res.status(err.status).json({ error: err.message });
+    return;
+  }
+
+  console.error(err);
+  res.status(500).json({ error: 'Internal server error' });
+};
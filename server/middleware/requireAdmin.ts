@@ -0,0 +1,12 @@
+import type { RequestHandler } from 'express';
+import { HttpError } from '../lib/httpError';
+import { UserModel } from '../models/User';
+
+// Must run after requireAuth. Roles are read fresh so a demotion applies immediately.
+export const requireAdmin: RequestHandler = async (req, _res, next) => {
+  const user = await UserModel.findById(req.userId, { role: 1 });
+  if (user?.role !== 'admin') {
+    throw new HttpError(403, 'Admin access required');
+  }
+  next();
+};
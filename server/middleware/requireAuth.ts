@@ -0,0 +1,26 @@
+import type { RequestHandler } from 'express';
+import { Types } from 'mongoose';
+import { HttpError } from '../lib/httpError';
+import { isSessionActive, readAccessToken } from '../lib/session';
+
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace Express {
+    interface Request {
+      userId?: Types.ObjectId;
+      sessionId?: string;
+    }
+  }
+}
+
+// Looks the session up on every request so logging out elsewhere takes effect straight away
+export const requireAuth: RequestHandler = async (req, _res, next) => {
+  const claims = readAccessToken(req);
+  if (!claims || !(await isSessionActive(claims.sessionId))) {
+    throw new HttpError(401, 'Authentication required');
+  }
+
+  req.userId = new Types.ObjectId(claims.userId);
+  req.sessionId = claims.sessionId;
+  next();
+};
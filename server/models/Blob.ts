@@ -0,0 +1,28 @@
+import { Schema, model, type HydratedDocument } from 'mongoose';
+
+/**
+ * Stored file contents, addressed by their SHA-256 hash. Every File with the
+ * same contents shares one Blob; it is removed when the last of them goes.
+ */
+export interface Blob {
+  hash: string;
+  size: number;
+  storageKey: string;
+  refCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type BlobDocument = HydratedDocument<Blob>;
+
+const blobSchema = new Schema<Blob>(
+  {
+    hash: { type: String, required: true, unique: true },
+    size: { type: Number, required: true, min: 0 },
+    storageKey: { type: String, required: true },
+    refCount: { type: Number, required: true, default: 0 },
+  },
+  { timestamps: true },
+);
+
+export const BlobModel = model<Blob>('Blob', blobSchema);
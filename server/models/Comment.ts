@@ -0,0 +1,38 @@
+import { Schema, model, type HydratedDocument, type Types } from 'mongoose';
+
+export const MAX_COMMENT_LENGTH = 2000;
+
+/** A note left on a file by someone with at least commenter access to it. */
+export interface Comment {
+  file: Types.ObjectId;
+  author: Types.ObjectId;
+  body: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type CommentDocument = HydratedDocument<Comment>;
+
+const commentSchema = new Schema<Comment>(
+  {
+    file: { type: Schema.Types.ObjectId, ref: 'File', required: true },
+    author: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    body: { type: String, required: true, trim: true, maxlength: MAX_COMMENT_LENGTH },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: (_doc, ret) => ({
+        id: String(ret._id),
+        fileId: String(ret.file),
+        authorId: String(ret.author),
+        body: ret.body,
+        createdAt: ret.createdAt,
+      }),
+    },
+  },
+);
+
+commentSchema.index({ file: 1, createdAt: 1 });
+
+export const CommentModel = model<Comment>('Comment', commentSchema);
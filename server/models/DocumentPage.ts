@@ -0,0 +1,27 @@
+import { Schema, model, type HydratedDocument, type Types } from 'mongoose';
+
+// The extracted text of one PDF page, kept separately so it can be text-indexed per page
+export interface DocumentPage {
+  file: Types.ObjectId;
+  // Copied from the file so searches can be confined to one user's documents
+  owner: Types.ObjectId;
+  // The contents the text was extracted from, so text from replaced contents can be told apart
+  contentHash?: string;
+  // 1-based, as PDF viewers number pages
+  page: number;
+  text: string;
+}
+
+export type DocumentPageDocument = HydratedDocument<DocumentPage>;
+
+const documentPageSchema = new Schema<DocumentPage>({
+  file: { type: Schema.Types.ObjectId, ref: 'File', required: true, index: true },
+  owner: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  contentHash: { type: String },
+  page: { type: Number, required: true, min: 1 },
+  text: { type: String, required: true },
+});
+
+documentPageSchema.index({ owner: 1, text: 'text' });
+
+export const DocumentPageModel = model<DocumentPage>('DocumentPage', documentPageSchema);
@@ -0,0 +1,86 @@
+import { Schema, model, type HydratedDocument, type Types } from 'mongoose';
+import type { MediaMetadata } from '../../shared/mediaMetadata';
+import { MEDIA_TYPES, type MediaType } from '../lib/fileTypes';
+
+export type ProcessingStatus = 'pending' | 'processing' | 'ready' | 'failed';
+
+export interface StoredFile {
+  owner: Types.ObjectId;
+  // Containing folder, or null at the top level
+  parent: Types.ObjectId | null;
+  name: string;
+  type: MediaType;
+  mimeType: string;
+  size: number;
+  // SHA-256 of the contents; identical files share one stored Blob
+  contentHash: string;
+  storageKey: string;
+  // Goes up each time a same-named upload or a restored version replaces the contents
+  version: number;
+  thumbnailKey?: string;
+  hlsPlaylistKey?: string;
+  processingStatus: ProcessingStatus;
+  // 0-100 across all of the file's processing jobs
+  processingProgress: number;
+  // Read from the contents in the background; absent until then
+  metadata?: MediaMetadata;
+  // Lower-case labels the owner adds, searchable with tag:
+  tags: string[];
+  // Set while the file is in the trash; it is purged once this is older than the retention period
+  trashedAt: Date | null;
+  // The trashed folder this went to the trash along with, so restoring that folder brings it back
+  trashedWith: Types.ObjectId | null;
+  uploadDate: Date;
+}
+
+export type FileDocument = HydratedDocument<StoredFile>;
+
+const fileSchema = new Schema<StoredFile>(
+  {
+    owner: { type: Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+    parent: { type: Schema.Types.ObjectId, ref: 'Folder', default: null, index: true },
+    name: { type: String, required: true, trim: true },
+    type: { type: String, enum: MEDIA_TYPES, required: true },
+    mimeType: { type: String, required: true },
+    size: { type: Number, required: true, min: 0 },
+    contentHash: { type: String, required: true, index: true },
+    storageKey: { type: String, required: true },
+    version: { type: Number, default: 1, min: 1 },
+    thumbnailKey: { type: String },
+    hlsPlaylistKey: { type: String },
+    // Files stored before background processing existed have nothing left to do
+    processingStatus: { type: String, enum: ['pending', 'processing', 'ready', 'failed'], default: 'ready' },
+    processingProgress: { type: Number, default: 100, min: 0, max: 100 },
+    metadata: { type: Schema.Types.Mixed },
+    tags: { type: [String], default: [] },
+    trashedAt: { type: Date, default: null, index: true },
+    trashedWith: { type: Schema.Types.ObjectId, ref: 'Folder', default: null },
+    uploadDate: { type: Date, default: Date.now },
+  },
+  {
+    toJSON: {
+      transform: (_doc, ret) => ({
+        id: String(ret._id),
+        name: ret.name,
+        parentId: ret.parent ? String(ret.parent) : null,
+        type: ret.type,
+        mimeType: ret.mimeType,
+        size: ret.size,
+        contentHash: ret.contentHash,
+        version: ret.version ?? 1,
+        url: `/api/files/${ret._id}/stream`,
+        downloadUrl: `/api/files/${ret._id}/content`,
+        thumbnail: ret.thumbnailKey ? `/api/files/${ret._id}/thumbnail` : undefined,
+        hlsUrl: ret.hlsPlaylistKey ? `/api/files/${ret._id}/hls/master.m3u8` : undefined,
+        processingStatus: ret.processingStatus,
+        processingProgress: ret.processingProgress,
+        metadata: ret.metadata,
+        tags: ret.tags ?? [],
+        trashedAt: ret.trashedAt ?? undefined,
+        uploadDate: ret.uploadDate,
+      }),
+    },
+  },
+);
+
+export const FileModel = model<StoredFile>('File', fileSchema);
@@ -0,0 +1,65 @@
+import { Schema, model, type HydratedDocument, type Types } from 'mongoose';
+import type { MediaMetadata } from '../../shared/mediaMetadata';
+import { MEDIA_TYPES, type MediaType } from '../lib/fileTypes';
+
+/**
+ * An earlier version of a file, kept when a newer upload replaced it. The
+ * current version lives on the File itself; each of these holds its own
+ * reference to the Blob with its contents.
+ */
+export interface FileVersion {
+  file: Types.ObjectId;
+  // Copied from the file so storage can be totalled per user
+  owner: Types.ObjectId;
+  // Counts up from 1 with every upload or restore
+  number: number;
+  type: MediaType;
+  mimeType: string;
+  size: number;
+  contentHash: string;
+  storageKey: string;
+  thumbnailKey?: string;
+  metadata?: MediaMetadata;
+  // When this version was uploaded, not when it was replaced
+  uploadDate: Date;
+}
+
+export type FileVersionDocument = HydratedDocument<FileVersion>;
+
+const fileVersionSchema = new Schema<FileVersion>(
+  {
+    file: { type: Schema.Types.ObjectId, ref: 'File', required: true, index: true },
+    owner: { type: Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+    number: { type: Number, required: true, min: 1 },
+    type: { type: String, enum: MEDIA_TYPES, required: true },
+    mimeType: { type: String, required: true },
+    size: { type: Number, required: true, min: 0 },
+    contentHash: { type: String, required: true },
+    storageKey: { type: String, required: true },
+    thumbnailKey: { type: String },
+    metadata: { type: Schema.Types.Mixed },
+    uploadDate: { type: Date, required: true },
+  },
+  {
+    toJSON: {
+      transform: (_doc, ret) => {
+        const base = `/api/files/${ret.file}/versions/${ret._id}`;
+        return {
+          id: String(ret._id),
+          number: ret.number,
+          type: ret.type,
+          mimeType: ret.mimeType,
+          size: ret.size,
+          url: `${base}/stream`,
+          downloadUrl: `${base}/content`,
+          thumbnail: ret.thumbnailKey ? `${base}/thumbnail` : undefined,
+          metadata: ret.metadata,
+          uploadDate: ret.uploadDate,
+          current: false,
+        };
+      },
+    },
+  },
+);
+
+export const FileVersionModel = model<FileVersion>('FileVersion', fileVersionSchema);
@@ -0,0 +1,42 @@
+import { Schema, model, type HydratedDocument, type Types } from 'mongoose';
+
+export interface Folder {
+  owner: Types.ObjectId;
+  name: string;
+  // Null for folders at the top level of the library
+  parent: Types.ObjectId | null;
+  trashedAt: Date | null;
+  // The trashed ancestor this went to the trash along with, if it wasn't trashed on its own
+  trashedWith: Types.ObjectId | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type FolderDocument = HydratedDocument<Folder>;
+
+const folderSchema = new Schema<Folder>(
+  {
+    owner: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    name: { type: String, required: true, trim: true },
+    parent: { type: Schema.Types.ObjectId, ref: 'Folder', default: null },
+    trashedAt: { type: Date, default: null, index: true },
+    trashedWith: { type: Schema.Types.ObjectId, ref: 'Folder', default: null },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: (_doc, ret) => ({
+        id: String(ret._id),
+        name: ret.name,
+        parentId: ret.parent ? String(ret.parent) : null,
+        trashedAt: ret.trashedAt ?? undefined,
+        createdAt: ret.createdAt,
+        updatedAt: ret.updatedAt,
+      }),
+    },
+  },
+);
+
+folderSchema.index({ owner: 1, parent: 1, name: 1 });
+
+export const FolderModel = model<Folder>('Folder', folderSchema);
@@ -0,0 +1,46 @@
+import { Schema, model, type HydratedDocument, type Types } from 'mongoose';
+
+export type JobKind = 'thumbnail' | 'transcode' | 'metadata' | 'textIndex';
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export const JOB_KINDS: JobKind[] = ['thumbnail', 'transcode', 'metadata', 'textIndex'];
+
+export interface Job {
+  file: Types.ObjectId;
+  kind: JobKind;
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  // Earliest time the job may run; pushed back after each failed attempt
+  runAt: Date;
+  lockedAt?: Date;
+  // 0-100, as last reported by the running handler
+  progress: number;
+  lastError?: string;
+  // Set once the job finishes, so finished jobs are eventually cleaned up
+  expiresAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type JobDocument = HydratedDocument<Job>;
+
+const jobSchema = new Schema<Job>(
+  {
+    file: { type: Schema.Types.ObjectId, ref: 'File', required: true, index: true },
+    kind: { type: String, enum: JOB_KINDS, required: true },
+    status: { type: String, enum: ['queued', 'running', 'completed', 'failed'], default: 'queued' },
+    attempts: { type: Number, default: 0 },
+    maxAttempts: { type: Number, required: true, min: 1 },
+    runAt: { type: Date, default: Date.now },
+    lockedAt: { type: Date },
+    progress: { type: Number, default: 0, min: 0, max: 100 },
+    lastError: { type: String },
+    expiresAt: { type: Date, expires: 0 },
+  },
+  { timestamps: true },
+);
+
+jobSchema.index({ status: 1, runAt: 1 });
+
+export const JobModel = model<Job>('Job', jobSchema);
@@ -0,0 +1,55 @@
+import { Schema, model, type HydratedDocument, type Types } from 'mongoose';
+
+// Each role can do everything the ones before it can
+export const ACCESS_ROLES = ['viewer', 'commenter', 'editor', 'owner'] as const;
+
+export type AccessRole = (typeof ACCESS_ROLES)[number];
+
+/**
+ * Another user's access to a file or folder in someone's library. Access to a
+ * folder carries down to everything nested inside it.
+ */
+export interface Permission {
+  // Whose library the file or folder is in
+  owner: Types.ObjectId;
+  user: Types.ObjectId;
+  // Exactly one of these is set
+  file: Types.ObjectId | null;
+  folder: Types.ObjectId | null;
+  role: AccessRole;
+  grantedBy: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type PermissionDocument = HydratedDocument<Permission>;
+
+const permissionSchema = new Schema<Permission>(
+  {
+    owner: { type: Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+    user: { type: Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+    file: { type: Schema.Types.ObjectId, ref: 'File', default: null, index: true },
+    folder: { type: Schema.Types.ObjectId, ref: 'Folder', default: null, index: true },
+    role: { type: String, enum: ACCESS_ROLES, required: true },
+    grantedBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: (_doc, ret) => ({
+        id: String(ret._id),
+        kind: ret.file ? 'file' : 'folder',
+        targetId: String(ret.file ?? ret.folder),
+        userId: String(ret.user),
+        role: ret.role,
+        createdAt: ret.createdAt,
+      }),
+    },
+  },
+);
+
+// One grant per user and item; changing someone's role updates it
+permissionSchema.index({ user: 1, file: 1 }, { unique: true, partialFilterExpression: { file: { $type: 'objectId' } } });
+permissionSchema.index({ user: 1, folder: 1 }, { unique: true, partialFilterExpression: { folder: { $type: 'objectId' } } });
+
+export const PermissionModel = model<Permission>('Permission', permissionSchema);
@@ -0,0 +1,39 @@
+import { Schema, model, type HydratedDocument, type Types } from 'mongoose';
+
+/** How far into a video or audio file a user got, so they can carry on from there. */
+export interface PlaybackPosition {
+  user: Types.ObjectId;
+  file: Types.ObjectId;
+  // Both in seconds
+  position: number;
+  duration: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type PlaybackPositionDocument = HydratedDocument<PlaybackPosition>;
+
+const playbackPositionSchema = new Schema<PlaybackPosition>(
+  {
+    user: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    file: { type: Schema.Types.ObjectId, ref: 'File', required: true, index: true },
+    position: { type: Number, required: true, min: 0 },
+    duration: { type: Number, required: true, min: 0 },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: (_doc, ret) => ({
+        fileId: String(ret.file),
+        position: ret.position,
+        duration: ret.duration,
+        updatedAt: ret.updatedAt,
+      }),
+    },
+  },
+);
+
+playbackPositionSchema.index({ user: 1, file: 1 }, { unique: true });
+playbackPositionSchema.index({ user: 1, updatedAt: -1 });
+
+export const PlaybackPositionModel = model<PlaybackPosition>('PlaybackPosition', playbackPositionSchema);
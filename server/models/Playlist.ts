@@ -0,0 +1,35 @@
+import { Schema, model, type HydratedDocument, type Types } from 'mongoose';
+
+/** A named, ordered list of audio and video files that plays through in order. */
+export interface Playlist {
+  owner: Types.ObjectId;
+  name: string;
+  // In play order
+  files: Types.ObjectId[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type PlaylistDocument = HydratedDocument<Playlist>;
+
+const playlistSchema = new Schema<Playlist>(
+  {
+    owner: { type: Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+    name: { type: String, required: true, trim: true },
+    files: { type: [{ type: Schema.Types.ObjectId, ref: 'File' }], default: [], index: true },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: (_doc, ret) => ({
+        id: String(ret._id),
+        name: ret.name,
+        fileIds: (ret.files ?? []).map(String),
+        createdAt: ret.createdAt,
+        updatedAt: ret.updatedAt,
+      }),
+    },
+  },
+);
+
+export const PlaylistModel = model<Playlist>('Playlist', playlistSchema);
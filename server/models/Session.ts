@@ -0,0 +1,35 @@
+import { Schema, model, type HydratedDocument, type Types } from 'mongoose';
+
+/**
+ * One signed-in device. The refresh token is rotated on every use; presenting
+ * the previous one again means it was stolen, so the whole session is revoked.
+ */
+export interface Session {
+  user: Types.ObjectId;
+  refreshTokenHash: string;
+  previousRefreshTokenHash?: string;
+  userAgent?: string;
+  revokedAt?: Date;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type SessionDocument = HydratedDocument<Session>;
+
+const sessionSchema = new Schema<Session>(
+  {
+    user: { type: Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+    refreshTokenHash: { type: String, required: true, unique: true },
+    previousRefreshTokenHash: { type: String, index: true },
+    userAgent: { type: String },
+    revokedAt: { type: Date },
+    lastUsedAt: { type: Date, default: Date.now },
+    // MongoDB removes the document once this date passes
+    expiresAt: { type: Date, required: true, expires: 0 },
+  },
+  { timestamps: true },
+);
+
+export const SessionModel = model<Session>('Session', sessionSchema);
@@ -0,0 +1,59 @@
+import { Schema, model, type HydratedDocument, type Types } from 'mongoose';
+
+/**
+ * A public link to one file or folder that works without signing in. Whoever
+ * has the token can view the target, within the limits set on the link.
+ */
+export interface ShareLink {
+  owner: Types.ObjectId;
+  token: string;
+  // Exactly one of these is set
+  file: Types.ObjectId | null;
+  folder: Types.ObjectId | null;
+  passwordHash?: string;
+  // Null for links that never expire
+  expiresAt: Date | null;
+  // Null for unlimited downloads. Viewing doesn't count, but stops once the downloads are used up
+  maxDownloads: number | null;
+  downloadCount: number;
+  // Viewing only: the contents can be played or read but not downloaded
+  previewOnly: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type ShareLinkDocument = HydratedDocument<ShareLink>;
+
+const shareLinkSchema = new Schema<ShareLink>(
+  {
+    owner: { type: Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+    token: { type: String, required: true, unique: true },
+    file: { type: Schema.Types.ObjectId, ref: 'File', default: null, index: true },
+    folder: { type: Schema.Types.ObjectId, ref: 'Folder', default: null, index: true },
+    passwordHash: { type: String },
+    // MongoDB removes the link once this date passes
+    expiresAt: { type: Date, default: null, expires: 0 },
+    maxDownloads: { type: Number, default: null, min: 1 },
+    downloadCount: { type: Number, default: 0, min: 0 },
+    previewOnly: { type: Boolean, default: false },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: (_doc, ret) => ({
+        id: String(ret._id),
+        token: ret.token,
+        kind: ret.file ? 'file' : 'folder',
+        targetId: String(ret.file ?? ret.folder),
+        hasPassword: Boolean(ret.passwordHash),
+        expiresAt: ret.expiresAt,
+        maxDownloads: ret.maxDownloads,
+        downloadCount: ret.downloadCount,
+        previewOnly: ret.previewOnly,
+        createdAt: ret.createdAt,
+      }),
+    },
+  },
+);
+
+export const ShareLinkModel = model<ShareLink>('ShareLink', shareLinkSchema);
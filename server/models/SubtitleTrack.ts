@@ -0,0 +1,42 @@
+import { Schema, model, type HydratedDocument, type Types } from 'mongoose';
+
+/** A subtitle or caption track for a video, kept as WebVTT whatever format it was attached in. */
+export interface SubtitleTrack {
+  file: Types.ObjectId;
+  // A BCP 47 code such as "en" or "pt-BR"; a video has at most one track per language
+  language: string;
+  label: string;
+  content: string;
+  addedBy: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type SubtitleTrackDocument = HydratedDocument<SubtitleTrack>;
+
+const subtitleTrackSchema = new Schema<SubtitleTrack>(
+  {
+    file: { type: Schema.Types.ObjectId, ref: 'File', required: true },
+    language: { type: String, required: true, trim: true },
+    label: { type: String, required: true, trim: true },
+    content: { type: String, required: true },
+    addedBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: (_doc, ret) => ({
+        id: String(ret._id),
+        fileId: String(ret.file),
+        language: ret.language,
+        label: ret.label,
+        url: `/api/files/${ret.file}/subtitles/${ret._id}`,
+        createdAt: ret.createdAt,
+      }),
+    },
+  },
+);
+
+subtitleTrackSchema.index({ file: 1, language: 1 }, { unique: true });
+
+export const SubtitleTrackModel = model<SubtitleTrack>('SubtitleTrack', subtitleTrackSchema);
@@ -0,0 +1,72 @@
+import { Schema, model, type HydratedDocument, type Types } from 'mongoose';
+import { MEDIA_TYPES, type MediaType } from '../lib/fileTypes';
+
+export type UploadStatus = 'uploading' | 'assembling';
+
+export interface UploadSession {
+  owner: Types.ObjectId;
+  // Whose library the finished file goes into and whose quota it counts against, which is
+  // someone else's when uploading into a folder they shared with the uploader
+  library: Types.ObjectId;
+  // Folder the finished file goes into
+  parent: Types.ObjectId | null;
+  name: string;
+  type: MediaType;
+  mimeType: string;
+  size: number;
+  // Identifies the same local file across page reloads so an upload can be resumed
+  fingerprint: string;
+  // Hash the client computed up front; the assembled contents must match it
+  sha256?: string;
+  chunkSize: number;
+  totalChunks: number;
+  receivedChunks: number[];
+  status: UploadStatus;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type UploadSessionDocument = HydratedDocument<UploadSession>;
+
+const uploadSessionSchema = new Schema<UploadSession>(
+  {
+    owner: { type: Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+    library: { type: Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+    parent: { type: Schema.Types.ObjectId, ref: 'Folder', default: null },
+    name: { type: String, required: true, trim: true },
+    type: { type: String, enum: MEDIA_TYPES, required: true },
+    mimeType: { type: String, required: true },
+    size: { type: Number, required: true, min: 0 },
+    fingerprint: { type: String, required: true },
+    sha256: { type: String },
+    chunkSize: { type: Number, required: true, min: 1 },
+    totalChunks: { type: Number, required: true, min: 0 },
+    receivedChunks: { type: [Number], default: [] },
+    status: { type: String, enum: ['uploading', 'assembling'], default: 'uploading' },
+    expiresAt: { type: Date, required: true, expires: 0 },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: (_doc, ret) => ({
+        id: String(ret._id),
+        name: ret.name,
+        parentId: ret.parent ? String(ret.parent) : null,
+        type: ret.type,
+        mimeType: ret.mimeType,
+        size: ret.size,
+        fingerprint: ret.fingerprint,
+        chunkSize: ret.chunkSize,
+        totalChunks: ret.totalChunks,
+        receivedChunks: [...ret.receivedChunks].sort((a: number, b: number) => a - b),
+        status: ret.status,
+        createdAt: ret.createdAt,
+      }),
+    },
+  },
+);
+
+uploadSessionSchema.index({ owner: 1, fingerprint: 1 });
+
+export const UploadSessionModel = model<UploadSession>('UploadSession', uploadSessionSchema);
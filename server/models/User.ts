@@ -0,0 +1,52 @@
+import { Schema, model, type HydratedDocument } from 'mongoose';
+import {
+  CAPTION_BACKGROUNDS,
+  CAPTION_COLORS,
+  CAPTION_FONTS,
+  CAPTION_SIZES,
+  DEFAULT_CAPTION_STYLE,
+  type CaptionStyle,
+} from '../../shared/captionStyle';
+import { config } from '../config';
+
+export type UserRole = 'user' | 'admin';
+
+export interface User {
+  email: string;
+  name: string;
+  passwordHash: string;
+  role: UserRole;
+  // Both in bytes
+  storageQuota: number;
+  maxFileSize: number;
+  captionStyle: CaptionStyle;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type UserDocument = HydratedDocument<User>;
+
+const userSchema = new Schema<User>(
+  {
+    email: { type: String, required: true, unique: true, lowercase: true, trim: true },
+    name: { type: String, required: true, trim: true },
+    passwordHash: { type: String, required: true },
+    role: { type: String, enum: ['user', 'admin'], default: 'user' },
+    storageQuota: { type: Number, min: 0, default: () => config.defaultStorageQuota },
+    maxFileSize: { type: Number, min: 0, default: () => config.defaultMaxFileSize },
+    captionStyle: {
+      size: { type: String, enum: CAPTION_SIZES, default: DEFAULT_CAPTION_STYLE.size },
+      color: { type: String, enum: CAPTION_COLORS, default: DEFAULT_CAPTION_STYLE.color },
+      background: { type: String, enum: CAPTION_BACKGROUNDS, default: DEFAULT_CAPTION_STYLE.background },
+      font: { type: String, enum: CAPTION_FONTS, default: DEFAULT_CAPTION_STYLE.font },
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: (_doc, ret) => ({ id: String(ret._id), email: ret.email, name: ret.name, role: ret.role }),
+    },
+  },
+);
+
+export const UserModel = model<User>('User', userSchema);
@@ -0,0 +1,125 @@
+import { createReadStream } from 'node:fs';
+import { mkdir, readdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { config } from '../config';
+import { discardRenderedAssets, hlsStorageDir } from '../lib/blobs';
+import { runCommand } from '../lib/exec';
+import type { FileDocument } from '../models/File';
+import { storage } from '../storage';
+import { findVideoStream, probeMedia } from './probe';
+import { recordResult, type JobContext } from './queue';
+import { withLocalCopy } from './workspace';
+
+interface Rendition {
+  name: string;
+  height: number;
+  videoBitrate: number;
+}
+
+const LADDER: Rendition[] = [
+  { name: '1080p', height: 1080, videoBitrate: 5_000_000 },
+  { name: '720p', height: 720, videoBitrate: 2_800_000 },
+  { name: '480p', height: 480, videoBitrate: 1_400_000 },
+  { name: '360p', height: 360, videoBitrate: 800_000 },
+];
+
+const AUDIO_BITRATE = 128_000;
+const SEGMENT_SECONDS = 6;
+const HLS_MASTER_PLAYLIST = 'master.m3u8';
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.m3u8': 'application/vnd.apple.mpegurl',
+  '.ts': 'video/mp2t',
+};
+
+// Never upscale; a source smaller than every rung still gets the smallest one
+const selectRenditions = (sourceHeight: number) => {
+  const fitting = LADDER.filter((rendition) => rendition.height <= sourceHeight);
+  return fitting.length > 0 ? fitting : LADDER.slice(-1);
+};
+
+const evenWidth = (sourceWidth: number, sourceHeight: number, height: number) =>
+  Math.round((sourceWidth * height) / sourceHeight / 2) * 2;
+
+// `onProgress` receives the number of seconds of output encoded so far
+const encodeRendition = (input: string, outputDir: string, rendition: Rendition, onProgress: (seconds: number) => void) =>
+  runCommand(config.processing.ffmpegPath, [
+    '-hide_banner', '-loglevel', 'error', '-y',
+    '-progress', 'pipe:1', '-nostats',
+    '-i', input,
+    '-map', '0:v:0', '-map', '0:a:0?',
+    '-vf', `scale=-2:${rendition.height}`,
+    '-c:v', 'libx264', '-preset', 'veryfast', '-profile:v', 'main', '-pix_fmt', 'yuv420p',
+    '-b:v', String(rendition.videoBitrate),
+    '-maxrate', String(Math.round(rendition.videoBitrate * 1.07)),
+    '-bufsize', String(rendition.videoBitrate * 2),
+    // Keyframes on segment boundaries so every rendition can be switched between at any segment
+    '-force_key_frames', `expr:gte(t,n_forced*${SEGMENT_SECONDS})`,
+    '-c:a', 'aac', '-b:a', String(AUDIO_BITRATE), '-ac', '2',
+    '-f', 'hls',
+    '-hls_time', String(SEGMENT_SECONDS),
+    '-hls_playlist_type', 'vod',
+    '-hls_segment_filename', path.join(outputDir, `${rendition.name}_%05d.ts`),
+    path.join(outputDir, `${rendition.name}.m3u8`),
+  ], {
+    onStdout: (chunk) => {
+      const times = [...chunk.toString().matchAll(/^out_time_us=(\d+)$/gm)];
+      if (times.length > 0) onProgress(Number(times[times.length - 1][1]) / 1_000_000);
+    },
+  });
+
+const buildMasterPlaylist = (renditions: Rendition[], width: number, height: number) => [
+  '#EXTM3U',
+  '#EXT-X-VERSION:3',
+  ...renditions.flatMap((rendition) => [
+    `#EXT-X-STREAM-INF:BANDWIDTH=${rendition.videoBitrate + AUDIO_BITRATE},` +
+      `RESOLUTION=${evenWidth(width, height, rendition.height)}x${rendition.height}`,
+    `${rendition.name}.m3u8`,
+  ]),
+  '',
+].join('\n');
+
+/**
+ * Transcodes a video into an HLS ladder and records where its master playlist
+ * is stored. Copies of the same contents reuse an earlier transcode.
+ */
+export const transcodeToHls = async (file: FileDocument, { reportProgress }: JobContext) => {
+  const storageDir = hlsStorageDir(file.contentHash);
+  const masterKey = `${storageDir}/${HLS_MASTER_PLAYLIST}`;
+
+  if (!(await storage.stat(masterKey))) {
+    await withLocalCopy(file.storageKey, async (input, workDir) => {
+      const probe = await probeMedia(input);
+      const source = findVideoStream(probe);
+      if (!source?.width || !source.height) {
+        throw new Error(`No video stream found in file ${file.id}`);
+      }
+
+      const outputDir = path.join(workDir, 'hls');
+      const renditions = selectRenditions(source.height);
+      await mkdir(outputDir);
+      const duration = Number(probe.format.duration) || 0;
+      for (const [index, rendition] of renditions.entries()) {
+        await encodeRendition(input, outputDir, rendition, (seconds) => {
+          const fraction = duration > 0 ? Math.min(seconds / duration, 1) : 0;
+          reportProgress((index + fraction) / renditions.length);
+        });
+      }
+      await writeFile(
+        path.join(outputDir, HLS_MASTER_PLAYLIST),
+        buildMasterPlaylist(renditions, source.width, source.height),
+      );
+
+      // The master playlist goes last, so its presence means the whole ladder is in place
+      const outputs = (await readdir(outputDir)).filter((name) => name !== HLS_MASTER_PLAYLIST);
+      for (const name of [...outputs, HLS_MASTER_PLAYLIST]) {
+        const body = createReadStream(path.join(outputDir, name));
+        await storage.put(`${storageDir}/${name}`, body, CONTENT_TYPES[path.extname(name)]);
+      }
+    });
+  }
+
+  if (!(await recordResult(file, { hlsPlaylistKey: masterKey }))) {
+    await discardRenderedAssets(file.contentHash);
+  }
+};
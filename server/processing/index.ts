@@ -0,0 +1,30 @@
+import type { Types } from 'mongoose';
+import type { FileDocument } from '../models/File';
+import type { JobKind } from '../models/Job';
+import { transcodeToHls } from './hls';
+import { extractMetadata } from './metadata';
+import { cancelJobs, enqueueJobs, registerJobHandler } from './queue';
+import { indexDocumentText, removeDocumentText } from './textIndex';
+import { generateThumbnail } from './thumbnails';
+
+export { startWorker as startProcessing, stopWorker as stopProcessing } from './queue';
+
+registerJobHandler('thumbnail', generateThumbnail);
+registerJobHandler('transcode', transcodeToHls);
+registerJobHandler('metadata', extractMetadata);
+registerJobHandler('textIndex', indexDocumentText);
+
+// Queued once an upload completes; failures only cost the file its extras, never the upload
+export const processUploadedFile = (file: FileDocument) => {
+  const kinds: JobKind[] = ['metadata', 'thumbnail'];
+  if (file.type === 'video') kinds.push('transcode');
+  if (file.type === 'pdf') kinds.push('textIndex');
+  return enqueueJobs(file, kinds);
+};
+
+// Drops outstanding jobs and anything derived from the file that isn't shared with its blob.
+// Jobs already running still finish, but their results no longer match the file and are thrown away.
+export const cancelProcessing = async (fileId: Types.ObjectId) => {
+  await cancelJobs(fileId);
+  await removeDocumentText(fileId);
+};
@@ -0,0 +1,110 @@
+import type { AudioMetadata, DocumentMetadata, MediaMetadata, VideoMetadata } from '../../shared/mediaMetadata';
+import { config } from '../config';
+import { runCommand } from '../lib/exec';
+import type { FileDocument } from '../models/File';
+import { findVideoStream, probeMedia, type ProbeResult } from './probe';
+import { recordResult } from './queue';
+import { withLocalCopy } from './workspace';
+
+const toNumber = (value: string | number | undefined) => {
+  const number = Number(value);
+  return value !== undefined && value !== '' && Number.isFinite(number) && number > 0 ? number : undefined;
+};
+
+const parseFrameRate = (value: string | undefined) => {
+  const [numerator, denominator] = (value ?? '').split('/').map(Number);
+  if (!numerator || !denominator) return undefined;
+  return Math.round((numerator / denominator) * 100) / 100;
+};
+
+// ID3, Vorbis comments and MP4 atoms disagree on case, so tags are matched case-insensitively
+const readTags = (probe: ProbeResult) => {
+  const tags = new Map<string, string>();
+  const sources = [probe.format.tags, ...probe.streams.map((stream) => stream.tags)];
+  for (const source of sources) {
+    for (const [key, value] of Object.entries(source ?? {})) {
+      const name = key.toLowerCase();
+      if (!tags.has(name) && value.trim()) tags.set(name, value.trim());
+    }
+  }
+  return tags;
+};
+
+// Track numbers come as "3" or "3/12"
+const parseTrack = (value: string | undefined) => {
+  const [number, total] = (value ?? '').split('/');
+  return { trackNumber: toNumber(number), trackTotal: toNumber(total) };
+};
+
+const readVideoMetadata = (probe: ProbeResult): VideoMetadata => {
+  const video = findVideoStream(probe);
+  if (!video?.width || !video.height) {
+    throw new Error('No video stream found');
+  }
+  const audio = probe.streams.find((stream) => stream.codec_type === 'audio');
+
+  return {
+    kind: 'video',
+    duration: toNumber(probe.format.duration),
+    width: video.width,
+    height: video.height,
+    frameRate: parseFrameRate(video.avg_frame_rate),
+    videoCodec: video.codec_name,
+    audioCodec: audio?.codec_name,
+    bitrate: toNumber(probe.format.bit_rate),
+  };
+};
+
+const readAudioMetadata = (probe: ProbeResult): AudioMetadata => {
+  const audio = probe.streams.find((stream) => stream.codec_type === 'audio');
+  if (!audio) {
+    throw new Error('No audio stream found');
+  }
+  const tags = readTags(probe);
+
+  return {
+    kind: 'audio',
+    duration: toNumber(probe.format.duration),
+    codec: audio.codec_name,
+    bitrate: toNumber(audio.bit_rate) ?? toNumber(probe.format.bit_rate),
+    sampleRate: toNumber(audio.sample_rate),
+    channels: toNumber(audio.channels),
+    title: tags.get('title'),
+    artist: tags.get('artist') ?? tags.get('album_artist'),
+    album: tags.get('album'),
+    ...parseTrack(tags.get('track') ?? tags.get('tracknumber')),
+  };
+};
+
+// pdfinfo prints one "Key: value" pair per line
+const readDocumentMetadata = async (input: string): Promise<DocumentMetadata> => {
+  const output = await runCommand(config.processing.pdfinfoPath, ['-enc', 'UTF-8', input]);
+  const fields = new Map<string, string>();
+  for (const line of output.toString().split('\n')) {
+    const match = /^([^:]+):\s*(.*)$/.exec(line);
+    if (match && match[2].trim()) fields.set(match[1].trim(), match[2].trim());
+  }
+
+  return {
+    kind: 'pdf',
+    pageCount: toNumber(fields.get('Pages')),
+    title: fields.get('Title'),
+    author: fields.get('Author'),
+  };
+};
+
+// Mongo keeps explicit undefined values as nulls, so they are left out instead
+const compact = <T extends object>(value: T) =>
+  Object.fromEntries(Object.entries(value).filter(([, field]) => field !== undefined)) as T;
+
+export const extractMetadata = async (file: FileDocument) => {
+  const metadata = await withLocalCopy(file.storageKey, async (input): Promise<MediaMetadata> => {
+    switch (file.type) {
+      case 'video': return readVideoMetadata(await probeMedia(input));
+      case 'audio': return readAudioMetadata(await probeMedia(input));
+      case 'pdf': return readDocumentMetadata(input);
+    }
+  });
+
+  await recordResult(file, { metadata: compact(metadata) });
+};
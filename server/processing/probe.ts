@@ -0,0 +1,40 @@
+import { config } from '../config';
+import { runCommand } from '../lib/exec';
+
+export interface ProbeStream {
+  index: number;
+  codec_type: 'video' | 'audio' | 'subtitle' | 'data' | 'attachment';
+  codec_name?: string;
+  width?: number;
+  height?: number;
+  // A fraction such as "30000/1001"
+  avg_frame_rate?: string;
+  bit_rate?: string;
+  sample_rate?: string;
+  channels?: number;
+  disposition?: Record<string, number>;
+  tags?: Record<string, string>;
+}
+
+export interface ProbeResult {
+  streams: ProbeStream[];
+  format: {
+    duration?: string;
+    bit_rate?: string;
+    tags?: Record<string, string>;
+  };
+}
+
+export const probeMedia = async (input: string) => {
+  const output = await runCommand(config.processing.ffprobePath, [
+    '-v', 'error',
+    '-print_format', 'json',
+    '-show_format', '-show_streams',
+    input,
+  ]);
+  return JSON.parse(output.toString()) as ProbeResult;
+};
+
+// Cover art is reported as a video stream too, so it is skipped when looking for real video
+export const findVideoStream = (probe: ProbeResult) =>
+  probe.streams.find((stream) => stream.codec_type === 'video' && !stream.disposition?.attached_pic);
@@ -0,0 +1,154 @@
+import type { Types, UpdateQuery } from 'mongoose';
+import { config } from '../config';
+import { FileModel, type FileDocument, type ProcessingStatus, type StoredFile } from '../models/File';
+import { JobModel, type JobDocument, type JobKind } from '../models/Job';
+
+export interface JobContext {
+  // Fraction of the work done, from 0 to 1
+  reportProgress: (fraction: number) => void;
+}
+
+export type JobHandler = (file: FileDocument, context: JobContext) => Promise<void>;
+
+const POLL_INTERVAL_MS = 2000;
+const PROGRESS_WRITE_INTERVAL_MS = 1000;
+const FINISHED_JOB_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+const handlers = new Map<JobKind, JobHandler>();
+let activeJobs = 0;
+let pollTimer: NodeJS.Timeout | undefined;
+
+export const registerJobHandler = (kind: JobKind, handler: JobHandler) => {
+  handlers.set(kind, handler);
+};
+
+const summarize = (jobs: JobDocument[]): { status: ProcessingStatus; progress: number } => {
+  if (jobs.length === 0) return { status: 'ready', progress: 100 };
+
+  const progress = Math.round(
+    jobs.reduce((sum, job) => sum + (job.status === 'completed' ? 100 : job.progress), 0) / jobs.length,
+  );
+  const unfinished = jobs.some((job) => job.status === 'queued' || job.status === 'running');
+
+  if (!unfinished) {
+    return jobs.some((job) => job.status === 'failed') ? { status: 'failed', progress } : { status: 'ready', progress: 100 };
+  }
+  const started = jobs.some((job) => job.status !== 'queued' || job.attempts > 0);
+  return { status: started ? 'processing' : 'pending', progress };
+};
+
+// The file's status is derived from its jobs so it can never drift from them
+const syncFileStatus = async (fileId: Types.ObjectId) => {
+  const { status, progress } = summarize(await JobModel.find({ file: fileId }));
+  await FileModel.updateOne({ _id: fileId }, { processingStatus: status, processingProgress: progress });
+};
+
+const claimNextJob = () =>
+  JobModel.findOneAndUpdate(
+    { status: 'queued', runAt: { $lte: new Date() } },
+    { $set: { status: 'running', lockedAt: new Date() }, $inc: { attempts: 1 } },
+    { sort: { runAt: 1 }, new: true },
+  );
+
+const runJob = async (job: JobDocument) => {
+  const file = await FileModel.findById(job.file);
+  const handler = handlers.get(job.kind);
+  if (!file || !handler) {
+    await job.deleteOne();
+    return;
+  }
+  await syncFileStatus(file._id);
+
+  let lastProgressWrite = 0;
+  const reportProgress = (fraction: number) => {
+    const now = Date.now();
+    if (now - lastProgressWrite < PROGRESS_WRITE_INTERVAL_MS) return;
+    lastProgressWrite = now;
+
+    const progress = Math.min(99, Math.max(0, Math.round(fraction * 100)));
+    JobModel.updateOne({ _id: job._id, status: 'running' }, { progress })
+      .then(() => syncFileStatus(file._id))
+      .catch((err) => console.error(`Failed to record progress for job ${job.id}`, err));
+  };
+
+  try {
+    await handler(file, { reportProgress });
+    await job.updateOne({
+      status: 'completed',
+      progress: 100,
+      $unset: { lastError: 1, lockedAt: 1 },
+      expiresAt: new Date(Date.now() + FINISHED_JOB_TTL_MS),
+    });
+  } catch (err) {
+    const lastError = err instanceof Error ? err.message : String(err);
+    console.error(`Job ${job.kind} failed for file ${file.id} (attempt ${job.attempts} of ${job.maxAttempts})`, err);
+
+    if (job.attempts < job.maxAttempts) {
+      const delay = config.processing.retryDelay * 2 ** (job.attempts - 1);
+      await job.updateOne({ status: 'queued', progress: 0, lastError, runAt: new Date(Date.now() + delay), $unset: { lockedAt: 1 } });
+    } else {
+      await job.updateOne({
+        status: 'failed',
+        lastError,
+        $unset: { lockedAt: 1 },
+        expiresAt: new Date(Date.now() + FINISHED_JOB_TTL_MS),
+      });
+    }
+  }
+
+  await syncFileStatus(file._id);
+};
+
+// Claims jobs until every worker slot is busy or nothing is due
+const fillSlots = async () => {
+  while (pollTimer && activeJobs < config.processing.concurrency) {
+    const job = await claimNextJob();
+    if (!job) return;
+
+    activeJobs += 1;
+    runJob(job)
+      .catch((err) => console.error(`Job ${job.id} could not be run`, err))
+      .finally(() => {
+        activeJobs -= 1;
+        wakeWorker();
+      });
+  }
+};
+
+const wakeWorker = () => {
+  fillSlots().catch((err) => console.error('Failed to claim processing jobs', err));
+};
+
+export const enqueueJobs = async (file: FileDocument, kinds: JobKind[]) => {
+  await JobModel.insertMany(kinds.map((kind) => ({ file: file._id, kind, maxAttempts: config.processing.maxAttempts })));
+
+  file.processingStatus = kinds.length > 0 ? 'pending' : 'ready';
+  file.processingProgress = kinds.length > 0 ? 0 : 100;
+  await file.updateOne({ processingStatus: file.processingStatus, processingProgress: file.processingProgress });
+
+  wakeWorker();
+};
+
+/**
+ * Writes a job's result onto its file, unless a new version replaced the contents
+ * the job was working on while it ran. Resolves to whether it was written.
+ */
+export const recordResult = async (file: FileDocument, update: UpdateQuery<StoredFile>) => {
+  const { matchedCount } = await FileModel.updateOne({ _id: file._id, contentHash: file.contentHash }, update);
+  return matchedCount > 0;
+};
+
+export const cancelJobs = (fileId: Types.ObjectId) => JobModel.deleteMany({ file: fileId });
+
+export const startWorker = async () => {
+  // Jobs that were running when the server last stopped will never finish on their own
+  await JobModel.updateMany({ status: 'running' }, { status: 'queued', runAt: new Date(), $unset: { lockedAt: 1 } });
+
+  pollTimer = setInterval(wakeWorker, POLL_INTERVAL_MS);
+  wakeWorker();
+};
+
+export const stopWorker = () => {
+  clearInterval(pollTimer);
+  pollTimer = undefined;
+};
@@ -0,0 +1,44 @@
+import type { Types } from 'mongoose';
+import { config } from '../config';
+import { runCommand } from '../lib/exec';
+import { DocumentPageModel } from '../models/DocumentPage';
+import { FileModel, type FileDocument } from '../models/File';
+import { withLocalCopy } from './workspace';
+
+// pdftotext ends every page with a form feed
+const splitPages = (text: string) =>
+  text.split('\f').map((page) => page.replace(/\s+/g, ' ').trim());
+
+export const indexDocumentText = async (file: FileDocument) => {
+  const text = await withLocalCopy(file.storageKey, async (input) =>
+    (await runCommand(config.processing.pdftotextPath, ['-enc', 'UTF-8', input, '-'])).toString(),
+  );
+
+  const pages = splitPages(text)
+    .map((pageText, index) => ({
+      file: file._id,
+      owner: file.owner,
+      contentHash: file.contentHash,
+      page: index + 1,
+      text: pageText,
+    }))
+    .filter((page) => page.text.length > 0);
+
+  // Replaced wholesale, so a retried job never leaves duplicate pages behind. Only pages from
+  // the same contents (or indexed before pages recorded theirs) are touched, never a newer version's
+  const ownPages = {
+    file: file._id,
+    $or: [{ contentHash: file.contentHash }, { contentHash: { $exists: false } }],
+  };
+  await DocumentPageModel.deleteMany(ownPages);
+  if (pages.length > 0) {
+    await DocumentPageModel.insertMany(pages);
+  }
+
+  // A new version may have replaced the contents while they were being read
+  if (!(await FileModel.exists({ _id: file._id, contentHash: file.contentHash }))) {
+    await DocumentPageModel.deleteMany({ file: file._id, contentHash: file.contentHash });
+  }
+};
+
+export const removeDocumentText = (fileId: Types.ObjectId) => DocumentPageModel.deleteMany({ file: fileId });
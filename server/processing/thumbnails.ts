@@ -0,0 +1,71 @@
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { Readable } from 'node:stream';
+import { config } from '../config';
+import { discardRenderedAssets, thumbnailStorageKey } from '../lib/blobs';
+import { runCommand } from '../lib/exec';
+import type { FileDocument } from '../models/File';
+import { storage } from '../storage';
+import { recordResult } from './queue';
+import { withLocalCopy } from './workspace';
+
+const THUMBNAIL_WIDTH = 640;
+
+const ffmpegFrame = (input: string, filters: string, extraArgs: string[] = []) =>
+  runCommand(config.processing.ffmpegPath, [
+    '-hide_banner', '-loglevel', 'error',
+    '-i', input,
+    ...extraArgs,
+    '-vf', filters,
+    '-frames:v', '1',
+    '-f', 'image2', '-c:v', 'mjpeg',
+    'pipe:1',
+  ]);
+
+// Picks a representative frame from the opening seconds rather than a likely black first frame
+const renderVideoPoster = (input: string) => ffmpegFrame(input, `thumbnail=50,scale=${THUMBNAIL_WIDTH}:-2`);
+
+// Embedded cover art is exposed by ffmpeg as a video stream; files without one have nothing to render
+const extractCoverArt = async (input: string) => {
+  try {
+    return await ffmpegFrame(input, `scale=${THUMBNAIL_WIDTH}:-2`, ['-map', '0:v:0']);
+  } catch {
+    return null;
+  }
+};
+
+const renderPdfPage = async (input: string, workDir: string) => {
+  const outputPrefix = path.join(workDir, 'page');
+  await runCommand(config.processing.pdftoppmPath, [
+    '-f', '1', '-l', '1', '-singlefile',
+    '-jpeg', '-scale-to', String(THUMBNAIL_WIDTH),
+    input, outputPrefix,
+  ]);
+  return readFile(`${outputPrefix}.jpg`);
+};
+
+/**
+ * Renders a poster frame, cover art or first page for a file and records where
+ * it is stored. Leaves the file without a thumbnail if there is nothing to show.
+ */
+export const generateThumbnail = async (file: FileDocument) => {
+  const key = thumbnailStorageKey(file.contentHash);
+
+  if (!(await storage.stat(key))) {
+    const image = await withLocalCopy(file.storageKey, async (input, workDir) => {
+      switch (file.type) {
+        case 'video': return renderVideoPoster(input);
+        case 'audio': return extractCoverArt(input);
+        case 'pdf': return renderPdfPage(input, workDir);
+      }
+    });
+
+    if (!image || image.length === 0) return;
+    await storage.put(key, Readable.from(image), 'image/jpeg');
+  }
+
+  // Not `save()`, which would race the other processing steps writing to the same document
+  if (!(await recordResult(file, { thumbnailKey: key }))) {
+    await discardRenderedAssets(file.contentHash);
+  }
+};
@@ -0,0 +1,24 @@
+import { randomBytes } from 'node:crypto';
+import { createWriteStream } from 'node:fs';
+import { mkdir, rm } from 'node:fs/promises';
+import path from 'node:path';
+import { pipeline } from 'node:stream/promises';
+import { config } from '../config';
+import { storage } from '../storage';
+
+/**
+ * Copies a stored object into a scratch directory for tools such as ffmpeg that
+ * need a seekable local file, and removes the directory once `task` settles.
+ */
+export const withLocalCopy = async <T>(key: string, task: (filePath: string, workDir: string) => Promise<T>) => {
+  const workDir = path.join(config.uploadDir, '.processing', randomBytes(8).toString('hex'));
+  const filePath = path.join(workDir, 'source');
+
+  await mkdir(workDir, { recursive: true });
+  try {
+    await pipeline(await storage.createReadStream(key), createWriteStream(filePath));
+    return await task(filePath, workDir);
+  } finally {
+    await rm(workDir, { recursive: true, force: true });
+  }
+};
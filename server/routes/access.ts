@@ -0,0 +1,110 @@
+import { Router } from 'express';
+import { Types } from 'mongoose';
+import { z } from 'zod';
+import { HttpError } from '../lib/httpError';
+import { describeGrants, findAccessibleFile, findAccessibleFolder, getAccessRole, hasRole } from '../lib/permissions';
+import { requireAuth } from '../middleware/requireAuth';
+import { FileModel } from '../models/File';
+import { FolderModel } from '../models/Folder';
+import { ACCESS_ROLES, PermissionModel, type PermissionDocument } from '../models/Permission';
+import { UserModel } from '../models/User';
+
+const targetSchema = z.object({
+  fileId: z.string().optional(),
+  folderId: z.string().optional(),
+});
+
+const grantAccessSchema = targetSchema
+  .extend({
+    email: z.string().trim().toLowerCase().email('Enter a valid email address'),
+    role: z.enum(ACCESS_ROLES),
+  })
+  .refine((body) => Boolean(body.fileId) !== Boolean(body.folderId), 'Share either a file or a folder');
+
+const updateAccessSchema = z.object({
+  role: z.enum(ACCESS_ROLES),
+});
+
+export const accessRouter = Router();
+
+accessRouter.use(requireAuth);
+
+// Managing who has access takes the owner role on the item
+const findManagedTarget = async (userId: Types.ObjectId, { fileId, folderId }: z.infer<typeof targetSchema>) => {
+  if (fileId) {
+    const { file } = await findAccessibleFile(userId, fileId, 'owner');
+    return { owner: file.owner, file: file._id, folder: null };
+  }
+  const { folder } = await findAccessibleFolder(userId, folderId!, 'owner');
+  return { owner: folder.owner, file: null, folder: folder._id };
+};
+
+const findGrant = async (id: string) => {
+  const grant = Types.ObjectId.isValid(id) ? await PermissionModel.findById(id) : null;
+  if (!grant) {
+    throw new HttpError(404, 'Access not found');
+  }
+  return grant;
+};
+
+const canManage = async (userId: Types.ObjectId, grant: PermissionDocument) => {
+  const target = grant.file ? await FileModel.findById(grant.file) : await FolderModel.findById(grant.folder);
+  return Boolean(target) && hasRole(await getAccessRole(userId, target!, grant.file ? 'file' : 'folder'), 'owner');
+};
+
+// Everyone given access to one file or folder, or without one, to anything in the user's own library
+accessRouter.get('/', async (req, res) => {
+  const target = targetSchema.parse(req.query);
+  const filter = target.fileId || target.folderId
+    ? await findManagedTarget(req.userId!, target)
+    : { owner: req.userId };
+  const grants = await PermissionModel.find(filter).sort({ createdAt: 1 });
+  res.json({ grants: await describeGrants(grants) });
+});
+
+// Gives someone access, or changes the role they already have
+accessRouter.post('/', async (req, res) => {
+  const { email, role, ...target } = grantAccessSchema.parse(req.body);
+  const { owner, file, folder } = await findManagedTarget(req.userId!, target);
+
+  const user = await UserModel.findOne({ email });
+  if (!user) {
+    throw new HttpError(404, `No one has signed up with ${email}`);
+  }
+  if (user._id.equals(owner)) {
+    throw new HttpError(400, `${user.name} already owns this`);
+  }
+
+  const grant = await PermissionModel.findOneAndUpdate(
+    { user: user._id, file, folder },
+    { $set: { role, grantedBy: req.userId }, $setOnInsert: { owner } },
+    { upsert: true, new: true },
+  );
+  const [granted] = await describeGrants([grant]);
+  res.status(201).json({ grant: granted });
+});
+
+accessRouter.patch('/:id', async (req, res) => {
+  const { role } = updateAccessSchema.parse(req.body);
+  const grant = await findGrant(String(req.params.id));
+  if (!(await canManage(req.userId!, grant))) {
+    throw new HttpError(404, 'Access not found');
+  }
+
+  grant.role = role;
+  grant.grantedBy = req.userId!;
+  await grant.save();
+  const [updated] = await describeGrants([grant]);
+  res.json({ grant: updated });
+});
+
+// Owners can take access away, and anyone can give up access they were given
+accessRouter.delete('/:id', async (req, res) => {
+  const grant = await findGrant(String(req.params.id));
+  if (!grant.user.equals(req.userId!) && !(await canManage(req.userId!, grant))) {
+    throw new HttpError(404, 'Access not found');
+  }
+
+  await grant.deleteOne();
+  res.status(204).end();
+});
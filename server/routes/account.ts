@@ -0,0 +1,65 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import {
+  CAPTION_BACKGROUNDS,
+  CAPTION_COLORS,
+  CAPTION_FONTS,
+  CAPTION_SIZES,
+  DEFAULT_CAPTION_STYLE,
+} from '../../shared/captionStyle';
+import { getFolderUsage } from '../lib/folders';
+import { HttpError } from '../lib/httpError';
+import { getStorageUsage } from '../lib/quota';
+import { requireAuth } from '../middleware/requireAuth';
+import { UserModel, type UserDocument } from '../models/User';
+
+const updatePreferencesSchema = z.object({
+  captionStyle: z
+    .object({
+      size: z.enum(CAPTION_SIZES),
+      color: z.enum(CAPTION_COLORS),
+      background: z.enum(CAPTION_BACKGROUNDS),
+      font: z.enum(CAPTION_FONTS),
+    })
+    .partial()
+    .optional(),
+});
+
+export const accountRouter = Router();
+
+accountRouter.use(requireAuth);
+
+accountRouter.get('/usage', async (req, res) => {
+  res.json({ usage: await getStorageUsage(req.userId!) });
+});
+
+accountRouter.get('/usage/folders', async (req, res) => {
+  res.json({ folders: await getFolderUsage(req.userId!) });
+});
+
+const findUser = async (id: UserDocument['_id']) => {
+  const user = await UserModel.findById(id);
+  if (!user) {
+    throw new HttpError(404, 'Account not found');
+  }
+  return user;
+};
+
+// Accounts from before a preference existed get its default
+const describePreferences = (user: UserDocument) => ({
+  captionStyle: { ...DEFAULT_CAPTION_STYLE, ...user.toObject().captionStyle },
+});
+
+accountRouter.get('/preferences', async (req, res) => {
+  res.json({ preferences: describePreferences(await findUser(req.userId!)) });
+});
+
+accountRouter.patch('/preferences', async (req, res) => {
+  const { captionStyle } = updatePreferencesSchema.parse(req.body);
+  const user = await findUser(req.userId!);
+  if (captionStyle) {
+    user.captionStyle = { ...describePreferences(user).captionStyle, ...captionStyle };
+  }
+  await user.save();
+  res.json({ preferences: describePreferences(user) });
+});
@@ -0,0 +1,48 @@
+import { Router } from 'express';
+import { Types } from 'mongoose';
+import { z } from 'zod';
+import { HttpError } from '../lib/httpError';
+import { getStorageUsed } from '../lib/quota';
+import { requireAdmin } from '../middleware/requireAdmin';
+import { requireAuth } from '../middleware/requireAuth';
+import { UserModel, type UserDocument } from '../models/User';
+
+const updateUserSchema = z.object({
+  role: z.enum(['user', 'admin']).optional(),
+  storageQuota: z.number().int().min(0).optional(),
+  maxFileSize: z.number().int().min(0).optional(),
+});
+
+const serializeUser = async (user: UserDocument) => ({
+  ...user.toJSON(),
+  usage: {
+    used: await getStorageUsed(user._id),
+    quota: user.storageQuota,
+    maxFileSize: user.maxFileSize,
+  },
+});
+
+export const adminRouter = Router();
+
+adminRouter.use(requireAuth, requireAdmin);
+
+adminRouter.get('/users', async (_req, res) => {
+  const users = await UserModel.find().sort({ createdAt: 1 });
+  res.json({ users: await Promise.all(users.map(serializeUser)) });
+});
+
+// Sizes are in bytes
+adminRouter.patch('/users/:id', async (req, res) => {
+  const changes = updateUserSchema.parse(req.body);
+  const id = String(req.params.id);
+
+  const user = Types.ObjectId.isValid(id) ? await UserModel.findById(id) : null;
+  if (!user) {
+    throw new HttpError(404, 'User not found');
+  }
+
+  user.set(changes);
+  await user.save();
+
+  res.json({ user: await serializeUser(user) });
+});
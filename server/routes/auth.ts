@@ -0,0 +1,94 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { config } from '../config';
+import { isDuplicateKeyError } from '../db';
+import { HttpError } from '../lib/httpError';
+import { hashPassword, verifyPassword } from '../lib/password';
+import { clearSessionCookies, createSession, revokeAllSessions, revokeSession, rotateSession } from '../lib/session';
+import { requireAuth } from '../middleware/requireAuth';
+import { UserModel } from '../models/User';
+
+const signupSchema = z.object({
+  email: z.string().trim().email('Please enter a valid email address'),
+  password: z.string().min(6, 'Password must be at least 6 characters long'),
+  name: z.string().trim().min(1, 'Name is required'),
+});
+
+const loginSchema = z.object({
+  email: z.string().trim().email('Please enter a valid email address'),
+  password: z.string().min(1, 'Password is required'),
+});
+
+export const authRouter = Router();
+
+authRouter.post('/signup', async (req, res) => {
+  const { email, password, name } = signupSchema.parse(req.body);
+
+  const emailTaken = () => new HttpError(409, 'An account with this email already exists');
+  if (await UserModel.exists({ email: email.toLowerCase() })) {
+    throw emailTaken();
+  }
+
+  // Two signups racing past the check above are caught by the unique index
+  const user = await UserModel.create({
+    email,
+    name,
+    passwordHash: await hashPassword(password),
+    role: config.adminEmails.includes(email.toLowerCase()) ? 'admin' : 'user',
+  }).catch(err => {
+    throw isDuplicateKeyError(err) ? emailTaken() : err;
+  });
+  const accessTokenExpiresAt = await createSession(req, res, user._id);
+
+  res.status(201).json({ user, accessTokenExpiresAt });
+});
+
+authRouter.post('/login', async (req, res) => {
+  const { email, password } = loginSchema.parse(req.body);
+
+  const user = await UserModel.findOne({ email: email.toLowerCase() });
+  if (!user || !(await verifyPassword(password, user.passwordHash))) {
+    throw new HttpError(401, 'Invalid email or password');
+  }
+
+  const accessTokenExpiresAt = await createSession(req, res, user._id);
+  res.json({ user, accessTokenExpiresAt });
+});
+
+authRouter.post('/refresh', async (req, res) => {
+  const rotated = await rotateSession(req, res);
+
+  // Leaves the cookies alone, since they are the ones the other tab was just given
+  if (rotated.outcome === 'superseded') {
+    throw new HttpError(409, 'Your session was just refreshed in another tab');
+  }
+
+  const user = rotated.outcome === 'rotated' && await UserModel.findById(rotated.session.user);
+
+  if (rotated.outcome !== 'rotated' || !user) {
+    clearSessionCookies(res);
+    throw new HttpError(401, 'Your session has expired. Please log in again.');
+  }
+
+  res.json({ user, accessTokenExpiresAt: rotated.accessTokenExpiresAt });
+});
+
+authRouter.get('/session', requireAuth, async (req, res) => {
+  const user = await UserModel.findById(req.userId);
+  if (!user) {
+    throw new HttpError(401, 'Authentication required');
+  }
+  res.json({ user });
+});
+
+authRouter.post('/logout', async (req, res) => {
+  await revokeSession(req);
+  clearSessionCookies(res);
+  res.status(204).end();
+});
+
+authRouter.post('/logout-all', requireAuth, async (req, res) => {
+  await revokeAllSessions(req.userId!);
+  clearSessionCookies(res);
+  res.status(204).end();
+});
@@ -0,0 +1,251 @@
+import path from 'node:path';
+import express, { Router, type Request } from 'express';
+import { Types } from 'mongoose';
+import { z } from 'zod';
+import { normalizeTag } from '../../shared/searchQuery';
+import { convertToWebVtt, describeLanguage, MAX_SUBTITLE_SIZE } from '../../shared/subtitles';
+import { describeCurrentVersion, promoteVersion } from '../lib/fileVersions';
+import { HttpError } from '../lib/httpError';
+import { findAccessibleFile, hasRole, resolveParentIn, type FindOptions } from '../lib/permissions';
+import { serializeFile, serializeFiles } from '../lib/serializeFile';
+import { streamFile } from '../lib/streaming';
+import { searchQueryFilter } from '../lib/searchQuery';
+import { searchDocumentText } from '../lib/textSearch';
+import { trashFile } from '../lib/trash';
+import { requireAuth } from '../middleware/requireAuth';
+import { CommentModel, MAX_COMMENT_LENGTH, type CommentDocument } from '../models/Comment';
+import { FileModel, type FileDocument } from '../models/File';
+import { FileVersionModel } from '../models/FileVersion';
+import type { AccessRole } from '../models/Permission';
+import { SubtitleTrackModel } from '../models/SubtitleTrack';
+import { UserModel } from '../models/User';
+
+export const filesRouter = Router();
+
+const searchQuerySchema = z.object({
+  q: z.string().trim().min(1).max(200),
+});
+
+const listQuerySchema = z.object({
+  q: z.string().max(500).optional(),
+});
+
+const updateFileSchema = z.object({
+  tags: z.array(z.string().trim().min(1).max(40).transform(normalizeTag)).max(20).optional(),
+  // null moves the file to the top level
+  parentId: z.string().nullable().optional(),
+});
+
+const addSubtitlesSchema = z.object({
+  language: z.string().trim().regex(/^[a-z]{2,3}(?:-[a-z0-9]{2,8})*$/i, 'Pick a language for the subtitles'),
+  label: z.string().trim().max(100).optional(),
+});
+
+const addCommentSchema = z.object({
+  body: z.string().trim().min(1, 'Write a comment first').max(MAX_COMMENT_LENGTH),
+});
+
+filesRouter.use(requireAuth);
+
+// Anyone the file is shared with can view it; changing it needs a higher role
+const findFile = async (req: Request, required: AccessRole, options?: FindOptions) =>
+  (await findAccessibleFile(req.userId!, String(req.params.id), required, options)).file;
+
+// `q` takes the same query language as the Files page search box
+filesRouter.get('/', async (req, res) => {
+  const { q } = listQuerySchema.parse(req.query);
+  const filter = q ? searchQueryFilter(q) : {};
+  const files = await FileModel.find({ ...filter, owner: req.userId, trashedAt: null }).sort({ uploadDate: -1 });
+  res.json({ files: await serializeFiles(files) });
+});
+
+// Searches inside the text of the user's PDFs; file names are filtered on the client
+filesRouter.get('/search', async (req, res) => {
+  const { q } = searchQuerySchema.parse(req.query);
+  res.json({ results: await searchDocumentText(req.userId!, q) });
+});
+
+filesRouter.get('/:id', async (req, res) => {
+  res.json({ file: await serializeFile(await findFile(req, 'viewer', { includeTrashed: true })) });
+});
+
+filesRouter.get('/:id/stream', async (req, res) => {
+  const file = await findFile(req, 'viewer', { includeTrashed: true });
+  await streamFile(req, res, { key: file.storageKey, mimeType: file.mimeType, id: file.id });
+});
+
+filesRouter.get('/:id/content', async (req, res) => {
+  const file = await findFile(req, 'viewer', { includeTrashed: true });
+  res.attachment(file.name);
+  await streamFile(req, res, { key: file.storageKey, mimeType: file.mimeType, id: file.id });
+});
+
+filesRouter.get('/:id/thumbnail', async (req, res) => {
+  const file = await findFile(req, 'viewer', { includeTrashed: true });
+  if (!file.thumbnailKey) {
+    throw new HttpError(404, 'Thumbnail not available');
+  }
+  await streamFile(req, res, { key: file.thumbnailKey, mimeType: 'image/jpeg', id: `${file.id}-thumbnail` });
+});
+
+// Playlists reference their renditions and segments by bare name, so they all resolve under this route
+filesRouter.get('/:id/hls/:name', async (req, res) => {
+  const file = await findFile(req, 'viewer', { includeTrashed: true });
+  const name = String(req.params.name);
+  if (!file.hlsPlaylistKey || !/^[\w-]+\.(m3u8|ts)$/.test(name)) {
+    throw new HttpError(404, 'Stream not available');
+  }
+
+  const key = `${path.posix.dirname(file.hlsPlaylistKey)}/${name}`;
+  const mimeType = name.endsWith('.m3u8') ? 'application/vnd.apple.mpegurl' : 'video/mp2t';
+  await streamFile(req, res, { key, mimeType, id: `${file.id}-${name}` });
+});
+
+const findVersion = async (req: Request, file: FileDocument) => {
+  const id = String(req.params.versionId);
+  const version = Types.ObjectId.isValid(id) ? await FileVersionModel.findOne({ _id: id, file: file._id }) : null;
+  if (!version) {
+    throw new HttpError(404, 'Version not found');
+  }
+  return version;
+};
+
+// Newest first, starting with the current version
+filesRouter.get('/:id/versions', async (req, res) => {
+  const file = await findFile(req, 'viewer', { includeTrashed: true });
+  const versions = await FileVersionModel.find({ file: file._id }).sort({ number: -1 });
+  res.json({ versions: [describeCurrentVersion(file), ...versions] });
+});
+
+filesRouter.get('/:id/versions/:versionId/stream', async (req, res) => {
+  const version = await findVersion(req, await findFile(req, 'viewer', { includeTrashed: true }));
+  await streamFile(req, res, { key: version.storageKey, mimeType: version.mimeType, id: version.id });
+});
+
+filesRouter.get('/:id/versions/:versionId/content', async (req, res) => {
+  const file = await findFile(req, 'viewer', { includeTrashed: true });
+  const version = await findVersion(req, file);
+  res.attachment(file.name);
+  await streamFile(req, res, { key: version.storageKey, mimeType: version.mimeType, id: version.id });
+});
+
+filesRouter.get('/:id/versions/:versionId/thumbnail', async (req, res) => {
+  const version = await findVersion(req, await findFile(req, 'viewer', { includeTrashed: true }));
+  if (!version.thumbnailKey) {
+    throw new HttpError(404, 'Thumbnail not available');
+  }
+  await streamFile(req, res, { key: version.thumbnailKey, mimeType: 'image/jpeg', id: `${version.id}-thumbnail` });
+});
+
+filesRouter.post('/:id/versions/:versionId/promote', async (req, res) => {
+  const file = await findFile(req, 'editor');
+  await promoteVersion(file, await findVersion(req, file));
+  res.json({ file: await serializeFile(file) });
+});
+
+const findSubtitleTrack = async (req: Request, file: FileDocument) => {
+  const id = String(req.params.trackId);
+  const track = Types.ObjectId.isValid(id) ? await SubtitleTrackModel.findOne({ _id: id, file: file._id }) : null;
+  if (!track) {
+    throw new HttpError(404, 'Subtitles not found');
+  }
+  return track;
+};
+
+filesRouter.get('/:id/subtitles', async (req, res) => {
+  const file = await findFile(req, 'viewer', { includeTrashed: true });
+  const subtitles = await SubtitleTrackModel.find({ file: file._id }, { content: 0 }).sort({ label: 1 });
+  res.json({ subtitles });
+});
+
+filesRouter.get('/:id/subtitles/:trackId', async (req, res) => {
+  const track = await findSubtitleTrack(req, await findFile(req, 'viewer', { includeTrashed: true }));
+  res.type('text/vtt; charset=utf-8').send(track.content);
+});
+
+// The request body is the raw .vtt or .srt file. Attaching a language the video
+// already has subtitles in replaces them.
+filesRouter.post('/:id/subtitles', express.text({ type: () => true, limit: MAX_SUBTITLE_SIZE }), async (req, res) => {
+  const { language, label } = addSubtitlesSchema.parse(req.query);
+  const file = await findFile(req, 'editor');
+  if (file.type !== 'video') {
+    throw new HttpError(400, 'Subtitles can only be added to videos');
+  }
+
+  const content = convertToWebVtt(typeof req.body === 'string' ? req.body : '');
+  if (!content) {
+    throw new HttpError(415, 'Subtitles must be WebVTT (.vtt) or SubRip (.srt) files');
+  }
+
+  const track = await SubtitleTrackModel.findOneAndUpdate(
+    { file: file._id, language },
+    { $set: { label: label || describeLanguage(language), content, addedBy: req.userId } },
+    { upsert: true, new: true, projection: { content: 0 } },
+  );
+  res.status(201).json({ subtitle: track });
+});
+
+filesRouter.delete('/:id/subtitles/:trackId', async (req, res) => {
+  const track = await findSubtitleTrack(req, await findFile(req, 'editor'));
+  await track.deleteOne();
+  res.status(204).end();
+});
+
+// Authors are named so comments on shared files show who left them
+const serializeComments = async (comments: CommentDocument[]) => {
+  const authors = await UserModel.find({ _id: { $in: comments.map((comment) => comment.author) } }, { name: 1 });
+  const names = new Map(authors.map((author) => [author.id as string, author.name]));
+  return comments.map((comment) => ({
+    ...comment.toJSON(),
+    authorName: names.get(String(comment.author)) ?? 'Deleted user',
+  }));
+};
+
+filesRouter.get('/:id/comments', async (req, res) => {
+  const file = await findFile(req, 'viewer', { includeTrashed: true });
+  const comments = await CommentModel.find({ file: file._id }).sort({ createdAt: 1 });
+  res.json({ comments: await serializeComments(comments) });
+});
+
+filesRouter.post('/:id/comments', async (req, res) => {
+  const { body } = addCommentSchema.parse(req.body);
+  const file = await findFile(req, 'commenter');
+  const comment = await CommentModel.create({ file: file._id, author: req.userId, body });
+  const [serialized] = await serializeComments([comment]);
+  res.status(201).json({ comment: serialized });
+});
+
+// Authors can remove their own comments; owners can remove anyone's
+filesRouter.delete('/:id/comments/:commentId', async (req, res) => {
+  const { file, role } = await findAccessibleFile(req.userId!, String(req.params.id), 'commenter');
+  const id = String(req.params.commentId);
+  const comment = Types.ObjectId.isValid(id) ? await CommentModel.findOne({ _id: id, file: file._id }) : null;
+  if (!comment) {
+    throw new HttpError(404, 'Comment not found');
+  }
+  if (!comment.author.equals(req.userId!) && !hasRole(role, 'owner')) {
+    throw new HttpError(403, 'Only the author or the owner can remove this comment');
+  }
+  await comment.deleteOne();
+  res.status(204).end();
+});
+
+filesRouter.patch('/:id', async (req, res) => {
+  const { tags, parentId } = updateFileSchema.parse(req.body);
+  // Editors can label files, but only owners can move them
+  const file = await findFile(req, parentId !== undefined ? 'owner' : 'editor');
+  if (tags !== undefined) {
+    file.tags = [...new Set(tags)];
+  }
+  if (parentId !== undefined) {
+    file.parent = await resolveParentIn(req.userId!, file.owner, parentId);
+  }
+  await file.save();
+  res.json({ file: await serializeFile(file) });
+});
+
+// Moves the file to the trash; /api/trash restores or permanently deletes it
+filesRouter.delete('/:id', async (req, res) => {
+  await trashFile(await findFile(req, 'owner'));
+  res.status(204).end();
+});
@@ -0,0 +1,77 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { assertFolderNameAvailable, collectFolderTree } from '../lib/folders';
+import { HttpError } from '../lib/httpError';
+import { findAccessibleFolder, resolveParentIn } from '../lib/permissions';
+import { trashFolder } from '../lib/trash';
+import { requireAuth } from '../middleware/requireAuth';
+import { FolderModel } from '../models/Folder';
+
+const folderNameSchema = z.string().trim().min(1, 'Folder name is required').max(255);
+
+const createFolderSchema = z.object({
+  name: folderNameSchema,
+  parentId: z.string().nullable().optional(),
+});
+
+const updateFolderSchema = z.object({
+  name: folderNameSchema.optional(),
+  // null moves the folder to the top level
+  parentId: z.string().nullable().optional(),
+});
+
+export const foldersRouter = Router();
+
+foldersRouter.use(requireAuth);
+
+// Every folder the user has, flat; clients assemble the tree from parentId
+foldersRouter.get('/', async (req, res) => {
+  const folders = await FolderModel.find({ owner: req.userId, trashedAt: null }).sort({ name: 1 });
+  res.json({ folders });
+});
+
+// Editors of a shared folder can add subfolders to it, which belong to the folder's owner
+foldersRouter.post('/', async (req, res) => {
+  const { name, parentId } = createFolderSchema.parse(req.body);
+  const parent = parentId ? (await findAccessibleFolder(req.userId!, parentId, 'editor')).folder : null;
+  const owner = parent?.owner ?? req.userId!;
+  await assertFolderNameAvailable(owner, parent?._id ?? null, name);
+
+  const folder = await FolderModel.create({ owner, name, parent: parent?._id ?? null });
+  res.status(201).json({ folder });
+});
+
+// Renames and/or moves a folder, taking everything inside it along. Editors can
+// rename shared folders, but only owners can move them.
+foldersRouter.patch('/:id', async (req, res) => {
+  const changes = updateFolderSchema.parse(req.body);
+  const { folder } = await findAccessibleFolder(
+    req.userId!,
+    String(req.params.id),
+    changes.parentId !== undefined ? 'owner' : 'editor',
+  );
+
+  if (changes.parentId !== undefined) {
+    const parent = await resolveParentIn(req.userId!, folder.owner, changes.parentId);
+    if (parent) {
+      const subtree = await collectFolderTree(folder.owner, folder._id);
+      if (subtree.some((id) => id.equals(parent))) {
+        throw new HttpError(400, 'A folder can\'t be moved into itself or one of its subfolders');
+      }
+    }
+    folder.parent = parent;
+  }
+  if (changes.name !== undefined) {
+    folder.name = changes.name;
+  }
+
+  await assertFolderNameAvailable(folder.owner, folder.parent, folder.name, folder._id);
+  await folder.save();
+  res.json({ folder });
+});
+
+// Moves the folder and everything in it to the trash
+foldersRouter.delete('/:id', async (req, res) => {
+  await trashFolder((await findAccessibleFolder(req.userId!, String(req.params.id), 'owner')).folder);
+  res.status(204).end();
+});
@@ -0,0 +1,94 @@
+import { Router } from 'express';
+import { Types } from 'mongoose';
+import { z } from 'zod';
+import { findAccessibleFile, getAccessRole } from '../lib/permissions';
+import { serializeFile } from '../lib/serializeFile';
+import { requireAuth } from '../middleware/requireAuth';
+import { FileModel } from '../models/File';
+import { PlaybackPositionModel } from '../models/PlaybackPosition';
+
+// Positions this close to either end aren't worth resuming from
+const MIN_RESUME_SECONDS = 5;
+const FINISHED_WITHIN_SECONDS = 15;
+const FINISHED_FRACTION = 0.95;
+const CONTINUE_WATCHING_LIMIT = 12;
+const MAX_POSITIONS_PER_REQUEST = 100;
+
+const savePositionSchema = z.object({
+  position: z.number().min(0),
+  duration: z.number().positive(),
+});
+
+const positionsQuerySchema = z.object({
+  // Comma-separated
+  fileIds: z
+    .string()
+    .transform((value) => value.split(',').filter((id) => Types.ObjectId.isValid(id)))
+    .pipe(z.array(z.string()).max(MAX_POSITIONS_PER_REQUEST, `Up to ${MAX_POSITIONS_PER_REQUEST} files can be looked up at once`)),
+});
+
+const isWorthResuming = (position: number, duration: number) =>
+  position >= MIN_RESUME_SECONDS &&
+  position < duration - FINISHED_WITHIN_SECONDS &&
+  position < duration * FINISHED_FRACTION;
+
+export const playbackRouter = Router();
+
+playbackRouter.use(requireAuth);
+
+// Recently played files the user stopped partway through, most recent first
+playbackRouter.get('/', async (req, res) => {
+  const positions = await PlaybackPositionModel.find({ user: req.userId })
+    .sort({ updatedAt: -1 })
+    .limit(CONTINUE_WATCHING_LIMIT);
+  const files = await FileModel.find({ _id: { $in: positions.map((entry) => entry.file) }, trashedAt: null });
+
+  const items = await Promise.all(
+    positions.map(async (entry) => {
+      const file = files.find((candidate) => candidate._id.equals(entry.file));
+      // Files shared with the user may have been unshared since
+      if (!file || !(await getAccessRole(req.userId!, file, 'file'))) return null;
+      return { ...(await serializeFile(file)), playback: entry };
+    }),
+  );
+  res.json({ files: items.filter(Boolean) });
+});
+
+// The user's saved positions in any of the given files, for showing progress on each one.
+// They are the user's own data, so no access check is needed to hand them back.
+playbackRouter.get('/positions', async (req, res) => {
+  const { fileIds } = positionsQuerySchema.parse(req.query);
+  const positions = await PlaybackPositionModel.find({ user: req.userId, file: { $in: fileIds } });
+  res.json({ positions });
+});
+
+playbackRouter.get('/:fileId', async (req, res) => {
+  const { file } = await findAccessibleFile(req.userId!, String(req.params.fileId), 'viewer');
+  const position = await PlaybackPositionModel.findOne({ user: req.userId, file: file._id });
+  res.json({ playback: position });
+});
+
+// Finishing a file, or barely starting it, forgets the position instead
+playbackRouter.put('/:fileId', async (req, res) => {
+  const { position, duration } = savePositionSchema.parse(req.body);
+  const { file } = await findAccessibleFile(req.userId!, String(req.params.fileId), 'viewer');
+
+  if (!isWorthResuming(position, duration)) {
+    await PlaybackPositionModel.deleteOne({ user: req.userId, file: file._id });
+    res.json({ playback: null });
+    return;
+  }
+
+  const saved = await PlaybackPositionModel.findOneAndUpdate(
+    { user: req.userId, file: file._id },
+    { $set: { position, duration } },
+    { upsert: true, new: true },
+  );
+  res.json({ playback: saved });
+});
+
+playbackRouter.delete('/:fileId', async (req, res) => {
+  const { file } = await findAccessibleFile(req.userId!, String(req.params.fileId), 'viewer');
+  await PlaybackPositionModel.deleteOne({ user: req.userId, file: file._id });
+  res.status(204).end();
+});
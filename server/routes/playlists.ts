@@ -0,0 +1,231 @@
+import { Router, type Request } from 'express';
+import { Types } from 'mongoose';
+import { z } from 'zod';
+import { HttpError } from '../lib/httpError';
+import { buildM3u, entryFileName, parseM3u } from '../lib/m3u';
+import { findAccessibleFile, getAccessRole } from '../lib/permissions';
+import { serializeFiles } from '../lib/serializeFile';
+import { requireAuth } from '../middleware/requireAuth';
+import { FileModel, type FileDocument } from '../models/File';
+import { PlaylistModel, type PlaylistDocument } from '../models/Playlist';
+
+const MAX_PLAYLIST_LENGTH = 1000;
+
+const playlistNameSchema = z.string().trim().min(1, 'Give the playlist a name').max(255);
+const fileIdsSchema = z.array(z.string()).max(MAX_PLAYLIST_LENGTH, `Playlists can hold up to ${MAX_PLAYLIST_LENGTH} files`);
+
+const createPlaylistSchema = z.object({
+  name: playlistNameSchema,
+  fileIds: fileIdsSchema.default([]),
+});
+
+const updatePlaylistSchema = z.object({
+  name: playlistNameSchema,
+});
+
+const addFileSchema = z.object({
+  fileId: z.string(),
+});
+
+// Entries are moved one at a time, so ones the user can't see right now keep their place
+const moveFileSchema = z.object({
+  // The entry it goes in front of, or null for the end
+  beforeId: z.string().nullable(),
+});
+
+const importPlaylistSchema = z.object({
+  name: playlistNameSchema,
+  content: z.string().max(1_000_000, 'That playlist file is too large'),
+});
+
+const exportPlaylistSchema = z.object({
+  // M3U8 is the same format, always in UTF-8
+  format: z.enum(['m3u', 'm3u8']).default('m3u8'),
+});
+
+// Our own stream URLs, as written by an export
+const EXPORTED_FILE_URL = /\/api\/files\/([0-9a-f]{24})\//i;
+
+export const playlistsRouter = Router();
+
+playlistsRouter.use(requireAuth);
+
+const findPlaylist = async (owner: Types.ObjectId, id: string) => {
+  const playlist = Types.ObjectId.isValid(id) ? await PlaylistModel.findOne({ _id: id, owner }) : null;
+  if (!playlist) {
+    throw new HttpError(404, 'Playlist not found');
+  }
+  return playlist;
+};
+
+// Only audio and video can go in a playlist, and only files the user can open
+const findPlayableFile = async (userId: Types.ObjectId, id: string) => {
+  const { file } = await findAccessibleFile(userId, id, 'viewer');
+  if (file.type === 'pdf') {
+    throw new HttpError(400, `${file.name} can't be played, so it can't go in a playlist`);
+  }
+  return file;
+};
+
+const resolveFileIds = async (userId: Types.ObjectId, fileIds: string[]) => {
+  const ids = [...new Set(fileIds)];
+  await Promise.all(ids.map((id) => findPlayableFile(userId, id)));
+  return ids.map((id) => new Types.ObjectId(id));
+};
+
+// The files in the playlist the user can still play, in order; trashed or unshared ones are skipped
+const listPlayableFiles = async (userId: Types.ObjectId, playlist: PlaylistDocument) => {
+  const files = await FileModel.find({ _id: { $in: playlist.files }, trashedAt: null });
+  const byId = new Map(files.map((file) => [String(file._id), file]));
+  const ordered = playlist.files.map((id) => byId.get(String(id))).filter((file): file is FileDocument => Boolean(file));
+  const roles = await Promise.all(ordered.map((file) => getAccessRole(userId, file, 'file')));
+  return ordered.filter((_file, index) => roles[index] !== null);
+};
+
+const describePlaylist = async (userId: Types.ObjectId, playlist: PlaylistDocument) => ({
+  playlist,
+  files: await serializeFiles(await listPlayableFiles(userId, playlist)),
+});
+
+const apiOrigin = (req: Request) => `${req.protocol}://${req.get('host')}`;
+
+playlistsRouter.get('/', async (req, res) => {
+  const playlists = await PlaylistModel.find({ owner: req.userId }).sort({ updatedAt: -1 });
+  res.json({ playlists });
+});
+
+playlistsRouter.post('/', async (req, res) => {
+  const { name, fileIds } = createPlaylistSchema.parse(req.body);
+  const files = await resolveFileIds(req.userId!, fileIds);
+  const playlist = await PlaylistModel.create({ owner: req.userId, name, files });
+  res.status(201).json({ playlist });
+});
+
+// Entries are matched to the user's own audio and video by file name; the ones that match nothing are reported back
+playlistsRouter.post('/import', async (req, res) => {
+  const { name, content } = importPlaylistSchema.parse(req.body);
+  const entries = parseM3u(content);
+  if (entries.length === 0) {
+    throw new HttpError(400, 'That playlist has no entries');
+  }
+
+  // Oldest first, so when several files share a name the latest upload wins
+  const library = await FileModel.find(
+    { owner: req.userId, trashedAt: null, type: { $in: ['audio', 'video'] } },
+    { name: 1 },
+  ).sort({ uploadDate: 1 });
+  const byId = new Map(library.map((file) => [String(file._id), file._id]));
+  const byName = new Map(library.map((file) => [file.name.toLowerCase(), file._id]));
+
+  const files: Types.ObjectId[] = [];
+  const unmatched: string[] = [];
+  for (const entry of entries) {
+    const exportedId = EXPORTED_FILE_URL.exec(entry.location)?.[1];
+    const match =
+      (exportedId && byId.get(exportedId.toLowerCase())) ||
+      byName.get(entryFileName(entry.location).toLowerCase()) ||
+      (entry.title && byName.get(entry.title.toLowerCase()));
+    if (!match) {
+      unmatched.push(entry.title ?? entryFileName(entry.location));
+    } else if (!files.some((id) => id.equals(match))) {
+      files.push(match);
+    }
+  }
+  if (files.length === 0) {
+    throw new HttpError(400, "None of the playlist's entries match files in your library");
+  }
+
+  const playlist = await PlaylistModel.create({ owner: req.userId, name, files });
+  res.status(201).json({ playlist, unmatched });
+});
+
+playlistsRouter.get('/:id', async (req, res) => {
+  const playlist = await findPlaylist(req.userId!, String(req.params.id));
+  res.json(await describePlaylist(req.userId!, playlist));
+});
+
+// Streams need the user's session, so exported playlists play in the browser but not in other apps
+playlistsRouter.get('/:id/export', async (req, res) => {
+  const { format } = exportPlaylistSchema.parse(req.query);
+  const playlist = await findPlaylist(req.userId!, String(req.params.id));
+  const files = await listPlayableFiles(req.userId!, playlist);
+
+  const content = buildM3u(
+    files.map((file) => ({
+      location: `${apiOrigin(req)}/api/files/${file._id}/stream`,
+      title: file.name,
+      duration: file.metadata && file.metadata.kind !== 'pdf' ? file.metadata.duration : undefined,
+    })),
+  );
+
+  res.attachment(`${playlist.name}.${format}`);
+  if (format === 'm3u8') {
+    res.type('application/vnd.apple.mpegurl; charset=utf-8').send(content);
+  } else {
+    // Plain M3U is read as Latin-1 by most players
+    const latin1 = Array.from(content, (char) => (char.codePointAt(0)! > 0xff ? '?' : char)).join('');
+    res.type('audio/x-mpegurl').send(Buffer.from(latin1, 'latin1'));
+  }
+});
+
+playlistsRouter.patch('/:id', async (req, res) => {
+  const { name } = updatePlaylistSchema.parse(req.body);
+  const playlist = await findPlaylist(req.userId!, String(req.params.id));
+
+  playlist.name = name;
+  await playlist.save();
+  res.json(await describePlaylist(req.userId!, playlist));
+});
+
+playlistsRouter.post('/:id/files', async (req, res) => {
+  const { fileId } = addFileSchema.parse(req.body);
+  const playlist = await findPlaylist(req.userId!, String(req.params.id));
+  const file = await findPlayableFile(req.userId!, fileId);
+
+  if (playlist.files.some((id) => id.equals(file._id))) {
+    throw new HttpError(409, `${file.name} is already in ${playlist.name}`);
+  }
+  if (playlist.files.length >= MAX_PLAYLIST_LENGTH) {
+    throw new HttpError(400, `Playlists can hold up to ${MAX_PLAYLIST_LENGTH} files`);
+  }
+
+  playlist.files.push(file._id);
+  await playlist.save();
+  res.json({ playlist });
+});
+
+playlistsRouter.patch('/:id/files/:fileId', async (req, res) => {
+  const { beforeId } = moveFileSchema.parse(req.body);
+  const playlist = await findPlaylist(req.userId!, String(req.params.id));
+  const fileId = String(req.params.fileId);
+
+  const moving = playlist.files.find((id) => String(id) === fileId);
+  if (!moving) {
+    throw new HttpError(404, 'That file is not in this playlist');
+  }
+  const files = playlist.files.filter((id) => String(id) !== fileId);
+  const index = beforeId === null ? files.length : files.findIndex((id) => String(id) === beforeId);
+  if (index === -1) {
+    throw new HttpError(400, 'The file to move it in front of is not in this playlist');
+  }
+
+  files.splice(index, 0, moving);
+  playlist.files = files;
+  await playlist.save();
+  res.json(await describePlaylist(req.userId!, playlist));
+});
+
+playlistsRouter.delete('/:id/files/:fileId', async (req, res) => {
+  const playlist = await findPlaylist(req.userId!, String(req.params.id));
+  const fileId = String(req.params.fileId);
+
+  playlist.files = playlist.files.filter((id) => String(id) !== fileId);
+  await playlist.save();
+  res.json(await describePlaylist(req.userId!, playlist));
+});
+
+playlistsRouter.delete('/:id', async (req, res) => {
+  const playlist = await findPlaylist(req.userId!, String(req.params.id));
+  await playlist.deleteOne();
+  res.status(204).end();
+});
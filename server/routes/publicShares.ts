@@ -0,0 +1,95 @@
+import { Router, type Request } from 'express';
+import { z } from 'zod';
+import { HttpError } from '../lib/httpError';
+import {
+  assertCanStream,
+  assertUnlocked,
+  claimDownload,
+  findActiveShare,
+  findSharedFile,
+  findSharedSubtitleTrack,
+  isUnlocked,
+  listSharedFiles,
+  listSharedSubtitles,
+  serializeSharedFile,
+  unlockShare,
+} from '../lib/shareLinks';
+import { streamFile } from '../lib/streaming';
+
+const unlockSchema = z.object({
+  password: z.string().min(1, 'Password is required'),
+});
+
+// Routes for share links; nothing here needs an account
+export const publicSharesRouter = Router();
+
+const loadUnlockedShare = async (req: Request) => {
+  const share = await findActiveShare(String(req.params.token));
+  assertUnlocked(req, share);
+  return share;
+};
+
+// A locked link reveals nothing about what it points at until the password is given
+publicSharesRouter.get('/:token', async (req, res) => {
+  const share = await findActiveShare(String(req.params.token));
+  if (!isUnlocked(req, share)) {
+    res.json({ share: { locked: true } });
+    return;
+  }
+
+  const { name, files } = await listSharedFiles(share);
+  const subtitles = await listSharedSubtitles(files.map(({ file }) => file));
+  res.json({
+    share: {
+      locked: false,
+      kind: share.file ? 'file' : 'folder',
+      name,
+      previewOnly: share.previewOnly,
+      expiresAt: share.expiresAt,
+      downloadsRemaining: share.maxDownloads === null ? null : Math.max(share.maxDownloads - share.downloadCount, 0),
+    },
+    files: files.map(({ file, path }) => serializeSharedFile(share, file, path, subtitles.get(file.id))),
+  });
+});
+
+publicSharesRouter.post('/:token/unlock', async (req, res) => {
+  const { password } = unlockSchema.parse(req.body);
+  await unlockShare(req, res, await findActiveShare(String(req.params.token)), password);
+  res.status(204).end();
+});
+
+publicSharesRouter.get('/:token/files/:fileId/stream', async (req, res) => {
+  const share = await loadUnlockedShare(req);
+  const file = await findSharedFile(share, String(req.params.fileId));
+  assertCanStream(req, share, file);
+  await streamFile(req, res, { key: file.storageKey, mimeType: file.mimeType, id: file.id });
+});
+
+publicSharesRouter.get('/:token/files/:fileId/thumbnail', async (req, res) => {
+  const share = await loadUnlockedShare(req);
+  const file = await findSharedFile(share, String(req.params.fileId));
+  if (!file.thumbnailKey) {
+    throw new HttpError(404, 'Thumbnail not available');
+  }
+  await streamFile(req, res, { key: file.thumbnailKey, mimeType: 'image/jpeg', id: `${file.id}-thumbnail` });
+});
+
+publicSharesRouter.get('/:token/files/:fileId/subtitles/:trackId', async (req, res) => {
+  const share = await loadUnlockedShare(req);
+  const file = await findSharedFile(share, String(req.params.fileId));
+  const track = await findSharedSubtitleTrack(file, String(req.params.trackId));
+  res.type('text/vtt; charset=utf-8').send(track.content);
+});
+
+publicSharesRouter.get('/:token/files/:fileId/content', async (req, res) => {
+  const share = await loadUnlockedShare(req);
+  if (share.previewOnly) {
+    throw new HttpError(403, 'This link only allows viewing');
+  }
+  const file = await findSharedFile(share, String(req.params.fileId));
+
+  await claimDownload(req, res, share, file);
+
+  res.attachment(file.name);
+  await streamFile(req, res, { key: file.storageKey, mimeType: file.mimeType, id: file.id });
+});
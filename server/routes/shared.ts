@@ -0,0 +1,67 @@
+import { Router } from 'express';
+import type { Types } from 'mongoose';
+import { collectAncestors, findAccessibleFolder } from '../lib/permissions';
+import { serializeFile, serializeFiles } from '../lib/serializeFile';
+import { requireAuth } from '../middleware/requireAuth';
+import { FileModel } from '../models/File';
+import { FolderModel } from '../models/Folder';
+import { PermissionModel } from '../models/Permission';
+import { UserModel } from '../models/User';
+
+export const sharedRouter = Router();
+
+sharedRouter.use(requireAuth);
+
+const findOwners = async (ids: Types.ObjectId[]) => {
+  const owners = await UserModel.find({ _id: { $in: ids } }, { name: 1 });
+  return new Map(owners.map((owner) => [String(owner._id), { id: owner.id, name: owner.name }]));
+};
+
+// Everything other people have given the user access to, with their role on each
+sharedRouter.get('/', async (req, res) => {
+  const grants = await PermissionModel.find({ user: req.userId }).sort({ createdAt: -1 });
+  const [files, folders, owners] = await Promise.all([
+    FileModel.find({ _id: { $in: grants.map((grant) => grant.file) }, trashedAt: null }),
+    FolderModel.find({ _id: { $in: grants.map((grant) => grant.folder) }, trashedAt: null }),
+    findOwners(grants.map((grant) => grant.owner)),
+  ]);
+
+  const grantFor = (id: Types.ObjectId) => grants.find((grant) => id.equals(grant.file ?? grant.folder!))!;
+  const describe = (id: Types.ObjectId, owner: Types.ObjectId) => ({
+    role: grantFor(id).role,
+    grantId: grantFor(id).id,
+    owner: owners.get(String(owner)),
+  });
+
+  res.json({
+    files: await Promise.all(files.map(async (file) => ({ ...(await serializeFile(file)), ...describe(file._id, file.owner) }))),
+    folders: folders.map((folder) => ({ ...folder.toJSON(), ...describe(folder._id, folder.owner) })),
+  });
+});
+
+// A shared folder's contents, and the path to it from the folder that was shared
+sharedRouter.get('/folders/:id', async (req, res) => {
+  const { folder, role } = await findAccessibleFolder(req.userId!, String(req.params.id), 'viewer');
+
+  const ancestors = (await collectAncestors(folder._id)).reverse();
+  const granted = await PermissionModel.distinct('folder', { user: req.userId, folder: { $in: ancestors } });
+  const rootIndex = folder.owner.equals(req.userId!)
+    ? 0
+    : ancestors.findIndex((id) => granted.some((grantedId) => id.equals(grantedId)));
+  const pathIds = ancestors.slice(Math.max(rootIndex, 0));
+
+  const [pathFolders, subfolders, files, owners] = await Promise.all([
+    FolderModel.find({ _id: { $in: pathIds } }, { name: 1 }),
+    FolderModel.find({ parent: folder._id, trashedAt: null }).sort({ name: 1 }),
+    FileModel.find({ parent: folder._id, trashedAt: null }).sort({ uploadDate: -1 }),
+    findOwners([folder.owner]),
+  ]);
+  const names = new Map(pathFolders.map((entry) => [String(entry._id), entry.name]));
+
+  res.json({
+    folder: { ...folder.toJSON(), role, owner: owners.get(String(folder.owner)) },
+    path: pathIds.map((id) => ({ id: String(id), name: names.get(String(id)) ?? '' })),
+    folders: subfolders,
+    files: await serializeFiles(files),
+  });
+});
@@ -0,0 +1,101 @@
+import { Router } from 'express';
+import { Types } from 'mongoose';
+import { z } from 'zod';
+import { findOwnedFolder } from '../lib/folders';
+import { HttpError } from '../lib/httpError';
+import { hashPassword } from '../lib/password';
+import { generateShareToken } from '../lib/shareLinks';
+import { requireAuth } from '../middleware/requireAuth';
+import { FileModel } from '../models/File';
+import { FolderModel } from '../models/Folder';
+import { ShareLinkModel } from '../models/ShareLink';
+
+const createShareSchema = z
+  .object({
+    fileId: z.string().optional(),
+    folderId: z.string().optional(),
+    expiresAt: z.coerce
+      .date()
+      .refine((date) => date.getTime() > Date.now(), 'The expiry date must be in the future')
+      .nullable()
+      .optional(),
+    password: z.string().min(8, 'Link passwords must be at least 8 characters').max(128).optional(),
+    maxDownloads: z.number().int().min(1).max(100_000).nullable().optional(),
+    previewOnly: z.boolean().default(false),
+  })
+  .refine((body) => Boolean(body.fileId) !== Boolean(body.folderId), 'Share either a file or a folder');
+
+const listSharesSchema = z.object({
+  fileId: z.string().optional(),
+  folderId: z.string().optional(),
+});
+
+export const sharesRouter = Router();
+
+sharesRouter.use(requireAuth);
+
+// The user's working links, newest first, optionally only those for one file or folder
+sharesRouter.get('/', async (req, res) => {
+  const { fileId, folderId } = listSharesSchema.parse(req.query);
+  const shares = await ShareLinkModel.find({
+    owner: req.userId,
+    $or: [{ expiresAt: null }, { expiresAt: { $gt: new Date() } }],
+    ...(fileId && Types.ObjectId.isValid(fileId) && { file: fileId }),
+    ...(folderId && Types.ObjectId.isValid(folderId) && { folder: folderId }),
+  }).sort({ createdAt: -1 });
+
+  // Links to trashed items are kept for when they are restored, but aren't listed meanwhile
+  const [files, folders] = await Promise.all([
+    FileModel.find({ _id: { $in: shares.map((share) => share.file) }, trashedAt: null }, { name: 1 }),
+    FolderModel.find({ _id: { $in: shares.map((share) => share.folder) }, trashedAt: null }, { name: 1 }),
+  ]);
+  const names = new Map([...files, ...folders].map((target) => [String(target._id), target.name]));
+
+  res.json({
+    shares: shares
+      .filter((share) => names.has(String(share.file ?? share.folder)))
+      .map((share) => ({ ...share.toJSON(), targetName: names.get(String(share.file ?? share.folder)) })),
+  });
+});
+
+sharesRouter.post('/', async (req, res) => {
+  const { fileId, folderId, expiresAt, password, maxDownloads, previewOnly } = createShareSchema.parse(req.body);
+
+  let target: { file: Types.ObjectId | null; folder: Types.ObjectId | null; name: string };
+  if (fileId) {
+    const file = Types.ObjectId.isValid(fileId)
+      ? await FileModel.findOne({ _id: fileId, owner: req.userId, trashedAt: null })
+      : null;
+    if (!file) {
+      throw new HttpError(404, 'File not found');
+    }
+    target = { file: file._id, folder: null, name: file.name };
+  } else {
+    const folder = await findOwnedFolder(req.userId!, folderId!);
+    target = { file: null, folder: folder._id, name: folder.name };
+  }
+
+  const share = await ShareLinkModel.create({
+    owner: req.userId,
+    token: generateShareToken(),
+    file: target.file,
+    folder: target.folder,
+    passwordHash: password ? await hashPassword(password) : undefined,
+    expiresAt: expiresAt ?? null,
+    maxDownloads: maxDownloads ?? null,
+    previewOnly,
+  });
+  res.status(201).json({ share: { ...share.toJSON(), targetName: target.name } });
+});
+
+// Revoking deletes the link, so its token stops working straight away
+sharesRouter.delete('/:id', async (req, res) => {
+  const id = String(req.params.id);
+  const { deletedCount } = Types.ObjectId.isValid(id)
+    ? await ShareLinkModel.deleteOne({ _id: id, owner: req.userId })
+    : { deletedCount: 0 };
+  if (deletedCount === 0) {
+    throw new HttpError(404, 'Share link not found');
+  }
+  res.status(204).end();
+});
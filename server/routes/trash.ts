@@ -0,0 +1,82 @@
+import { Router, type Request } from 'express';
+import { Types } from 'mongoose';
+import { config } from '../config';
+import { removeStoredFile } from '../lib/fileRemoval';
+import { HttpError } from '../lib/httpError';
+import { serializeFile, serializeFiles } from '../lib/serializeFile';
+import { deleteTrashedFolder, emptyTrash, restoreFile, restoreFolder } from '../lib/trash';
+import { requireAuth } from '../middleware/requireAuth';
+import { FileModel } from '../models/File';
+import { FolderModel } from '../models/Folder';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const trashRouter = Router();
+
+trashRouter.use(requireAuth);
+
+// Only items trashed on their own can be restored or deleted; their contents follow them
+const trashedFilter = (req: Request) => {
+  const id = String(req.params.id);
+  if (!Types.ObjectId.isValid(id)) return null;
+  return { _id: id, owner: req.userId, trashedAt: { $ne: null }, trashedWith: null };
+};
+
+const findTrashedFile = async (req: Request) => {
+  const filter = trashedFilter(req);
+  const file = filter && (await FileModel.findOne(filter));
+  if (!file) {
+    throw new HttpError(404, 'File not found in trash');
+  }
+  return file;
+};
+
+const findTrashedFolder = async (req: Request) => {
+  const filter = trashedFilter(req);
+  const folder = filter && (await FolderModel.findOne(filter));
+  if (!folder) {
+    throw new HttpError(404, 'Folder not found in trash');
+  }
+  return folder;
+};
+
+// Most recently trashed first; whatever went in with a folder is listed under that folder only
+trashRouter.get('/', async (req, res) => {
+  const filter = { owner: req.userId, trashedAt: { $ne: null }, trashedWith: null };
+  const [files, folders] = await Promise.all([
+    FileModel.find(filter).sort({ trashedAt: -1 }),
+    FolderModel.find(filter).sort({ trashedAt: -1 }),
+  ]);
+  res.json({
+    files: await serializeFiles(files),
+    folders,
+    retentionDays: Math.round(config.trashRetention / DAY_MS),
+  });
+});
+
+trashRouter.delete('/', async (req, res) => {
+  await emptyTrash(req.userId!);
+  res.status(204).end();
+});
+
+trashRouter.post('/files/:id/restore', async (req, res) => {
+  const file = await findTrashedFile(req);
+  await restoreFile(file);
+  res.json({ file: await serializeFile(file) });
+});
+
+trashRouter.delete('/files/:id', async (req, res) => {
+  await removeStoredFile(await findTrashedFile(req));
+  res.status(204).end();
+});
+
+trashRouter.post('/folders/:id/restore', async (req, res) => {
+  const folder = await findTrashedFolder(req);
+  await restoreFolder(folder);
+  res.json({ folder });
+});
+
+trashRouter.delete('/folders/:id', async (req, res) => {
+  await deleteTrashedFolder(await findTrashedFolder(req));
+  res.status(204).end();
+});
@@ -0,0 +1,266 @@
+import { createReadStream, createWriteStream } from 'node:fs';
+import { mkdir, rename, rm, stat } from 'node:fs/promises';
+import path from 'node:path';
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import { Router, type Request } from 'express';
+import { Types } from 'mongoose';
+import { z } from 'zod';
+import { SIGNATURE_LENGTH } from '../../shared/fileSignatures';
+import { config } from '../config';
+import { claimBlob, hashStream, isSha256, limitSize, releaseBlob, storeBlob } from '../lib/blobs';
+import { assertSignature, getMediaType } from '../lib/fileTypes';
+import { saveUploadedFile } from '../lib/fileVersions';
+import { HttpError } from '../lib/httpError';
+import { findAccessibleFolder } from '../lib/permissions';
+import { assertCanStore, holdsContents } from '../lib/quota';
+import { serializeFile } from '../lib/serializeFile';
+import { requireAuth } from '../middleware/requireAuth';
+import { FolderModel } from '../models/Folder';
+import { UploadSessionModel, type UploadSessionDocument } from '../models/UploadSession';
+import { storage } from '../storage';
+
+const createUploadSchema = z.object({
+  name: z.string().trim().min(1, 'File name is required'),
+  mimeType: z.string().min(1, 'File type is required'),
+  size: z.number().int().min(1, 'File is empty'),
+  fingerprint: z.string().min(1),
+  sha256: z.string().toLowerCase().refine(isSha256, 'sha256 must be a hex-encoded SHA-256 hash').optional(),
+  parentId: z.string().nullable().optional(),
+});
+
+const chunkDir = (uploadId: string) => path.join(config.uploadDir, '.chunks', uploadId);
+const chunkPath = (uploadId: string, index: number) => path.join(chunkDir(uploadId), String(index));
+
+const expectedChunkSize = (upload: UploadSessionDocument, index: number) =>
+  index === upload.totalChunks - 1 ? upload.size - index * upload.chunkSize : upload.chunkSize;
+
+const extendExpiry = () => new Date(Date.now() + config.uploadSessionTtl);
+
+const findOwnedUpload = async (req: Request) => {
+  const id = String(req.params.id);
+  if (!Types.ObjectId.isValid(id)) {
+    throw new HttpError(404, 'Upload not found');
+  }
+
+  const upload = await UploadSessionModel.findOne({ _id: id, owner: req.userId });
+  if (!upload) {
+    throw new HttpError(404, 'Upload not found');
+  }
+  return upload;
+};
+
+// The destination folder may have been deleted or trashed, or access to it taken away, while the upload was running
+const resolveDestination = async (upload: UploadSessionDocument) => {
+  if (!upload.parent) return null;
+  if (upload.library.equals(upload.owner)) {
+    return (await FolderModel.exists({ _id: upload.parent, trashedAt: null })) ? upload.parent : null;
+  }
+  // Falling back to the top of someone else's library would leave the file where the uploader can't reach it
+  return (await findAccessibleFolder(upload.owner, String(upload.parent), 'editor')).folder._id;
+};
+
+async function* readChunks(upload: UploadSessionDocument) {
+  for (let index = 0; index < upload.totalChunks; index++) {
+    yield* createReadStream(chunkPath(upload.id, index));
+  }
+}
+
+export const uploadsRouter = Router();
+
+uploadsRouter.use(requireAuth);
+
+// Unfinished uploads, so a client can offer to resume them after a reload or on another device
+uploadsRouter.get('/', async (req, res) => {
+  const uploads = await UploadSessionModel.find({ owner: req.userId }).sort({ createdAt: -1 });
+  res.json({ uploads });
+});
+
+// Starts an upload, or resumes the unfinished one for the same local file
+uploadsRouter.post('/', async (req, res) => {
+  const { name, mimeType, size, fingerprint, sha256, parentId } = createUploadSchema.parse(req.body);
+  // Editors can upload into folders shared with them, adding to the owner's library like the folders they create
+  const parentFolder = parentId ? (await findAccessibleFolder(req.userId!, parentId, 'editor')).folder : null;
+  const parent = parentFolder?._id ?? null;
+  const library = parentFolder?.owner ?? req.userId!;
+  const type = getMediaType(mimeType);
+  if (!type) {
+    throw new HttpError(415, `${name} is not supported. Please upload video, audio, or PDF files.`);
+  }
+
+  const existing = await UploadSessionModel.findOne({ owner: req.userId, fingerprint, size, status: 'uploading' });
+  await assertCanStore(library, size, name, { excludeUploadId: existing?._id, contentHash: sha256 });
+
+  // Only contents the user already has are linked without uploading them again, as a hash alone
+  // proves nothing about having the file; anyone else's copy is deduplicated by storeBlob once
+  // the bytes have arrived and been hashed
+  const blob = sha256 && (await holdsContents(req.userId!, sha256)) ? await claimBlob(sha256) : null;
+  if (blob) {
+    try {
+      await assertSignature(
+        await storage.createReadStream(blob.storageKey, { start: 0, end: SIGNATURE_LENGTH - 1 }),
+        mimeType,
+        name,
+      );
+    } catch (err) {
+      await releaseBlob(blob.hash);
+      throw err;
+    }
+
+    const file = await saveUploadedFile({ owner: library, parent, name, type, mimeType, blob });
+    await UploadSessionModel.deleteMany({ owner: req.userId, fingerprint, status: 'uploading' });
+
+    res.status(201).json({ file: await serializeFile(file), deduplicated: true });
+    return;
+  }
+
+  if (existing) {
+    existing.expiresAt = extendExpiry();
+    await existing.save();
+    res.json({ upload: existing });
+    return;
+  }
+
+  const upload = await UploadSessionModel.create({
+    owner: req.userId,
+    library,
+    parent,
+    name,
+    type,
+    mimeType,
+    size,
+    fingerprint,
+    sha256,
+    chunkSize: config.uploadChunkSize,
+    totalChunks: Math.ceil(size / config.uploadChunkSize),
+    expiresAt: extendExpiry(),
+  });
+
+  res.status(201).json({ upload });
+});
+
+uploadsRouter.get('/:id', async (req, res) => {
+  res.json({ upload: await findOwnedUpload(req) });
+});
+
+// The request body is the raw chunk; re-sending a chunk simply overwrites it
+uploadsRouter.put('/:id/chunks/:index', async (req, res) => {
+  const upload = await findOwnedUpload(req);
+  const index = Number(req.params.index);
+
+  if (upload.status !== 'uploading') {
+    throw new HttpError(409, 'Upload is already being assembled');
+  }
+  if (!Number.isInteger(index) || index < 0 || index >= upload.totalChunks) {
+    throw new HttpError(400, `Chunk index must be between 0 and ${upload.totalChunks - 1}`);
+  }
+
+  // Checked before anything is written, so a chunk can't take more disk space than the upload allows
+  const expectedSize = expectedChunkSize(upload, index);
+  const contentLength = req.get('content-length');
+  if (contentLength === undefined) {
+    throw new HttpError(411, 'Content-Length is required');
+  }
+  if (Number(contentLength) !== expectedSize) {
+    throw new HttpError(400, `Chunk ${index} should be ${expectedSize} bytes but was ${contentLength}`);
+  }
+
+  const target = chunkPath(upload.id, index);
+  const partial = `${target}.part`;
+  await mkdir(chunkDir(upload.id), { recursive: true });
+
+  try {
+    // The header could be lying, so the body is cut off once it passes the expected size
+    await pipeline(req, limitSize(expectedSize, `Chunk ${index} is larger than ${expectedSize} bytes`), createWriteStream(partial));
+    const { size } = await stat(partial);
+    if (size !== expectedSize) {
+      throw new HttpError(400, `Chunk ${index} should be ${expectedSize} bytes but was ${size}`);
+    }
+    // The first chunk holds the file signature; a mismatch means the whole upload is rejected
+    if (index === 0) {
+      try {
+        await assertSignature(createReadStream(partial), upload.mimeType, upload.name);
+      } catch (err) {
+        await upload.deleteOne();
+        await rm(chunkDir(upload.id), { recursive: true, force: true });
+        throw err;
+      }
+    }
+    await rename(partial, target);
+  } catch (err) {
+    await rm(partial, { force: true });
+    throw err;
+  }
+
+  const updated = await UploadSessionModel.findByIdAndUpdate(
+    upload._id,
+    { $addToSet: { receivedChunks: index }, expiresAt: extendExpiry() },
+    { new: true },
+  );
+
+  res.json({ upload: updated });
+});
+
+uploadsRouter.post('/:id/complete', async (req, res) => {
+  const upload = await UploadSessionModel.findOneAndUpdate(
+    { _id: (await findOwnedUpload(req))._id, status: 'uploading' },
+    { status: 'assembling' },
+    { new: true },
+  );
+  if (!upload) {
+    throw new HttpError(409, 'Upload is already being assembled');
+  }
+
+  const missing = Array.from({ length: upload.totalChunks }, (_, index) => index)
+    .filter(index => !upload.receivedChunks.includes(index));
+  if (missing.length > 0) {
+    await upload.updateOne({ status: 'uploading' });
+    throw new HttpError(409, `Upload is missing ${missing.length} chunk(s)`);
+  }
+
+  let file;
+  try {
+    const { hash, size } = await hashStream(Readable.from(readChunks(upload)));
+    if (size !== upload.size || (upload.sha256 && hash !== upload.sha256)) {
+      // The chunks are corrupt, so resuming would only fail again
+      await upload.deleteOne();
+      await rm(chunkDir(upload.id), { recursive: true, force: true });
+      throw new HttpError(422, 'Uploaded contents do not match their checksum. Please upload the file again.');
+    }
+
+    // The allowance may have changed since the upload started
+    await assertCanStore(upload.library, upload.size, upload.name, { excludeUploadId: upload._id, contentHash: hash });
+
+    const parent = await resolveDestination(upload);
+    const blob = await storeBlob({
+      hash,
+      size,
+      mimeType: upload.mimeType,
+      createStream: () => Readable.from(readChunks(upload)),
+    });
+
+    file = await saveUploadedFile({
+      owner: upload.library,
+      parent,
+      name: upload.name,
+      type: upload.type,
+      mimeType: upload.mimeType,
+      blob,
+    });
+  } catch (err) {
+    await upload.updateOne({ status: 'uploading' });
+    throw err;
+  }
+
+  await upload.deleteOne();
+  await rm(chunkDir(upload.id), { recursive: true, force: true });
+
+  res.status(201).json({ file: await serializeFile(file) });
+});
+
+uploadsRouter.delete('/:id', async (req, res) => {
+  const upload = await findOwnedUpload(req);
+  await upload.deleteOne();
+  await rm(chunkDir(upload.id), { recursive: true, force: true });
+  res.status(204).end();
+});
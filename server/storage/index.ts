@@ -0,0 +1,19 @@
+import { config } from '../config';
+import { createLocalDriver } from './local';
+import { createS3Driver } from './s3';
+import type { StorageDriver } from './types';
+
+export type { ByteRange, StorageDriver, StoredObjectInfo } from './types';
+
+const createStorageDriver = (): StorageDriver => {
+  switch (config.storage.driver) {
+    case 'local':
+      return createLocalDriver(config.storage.local);
+    case 's3':
+      return createS3Driver(config.storage.s3);
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER "${config.storage.driver}". Use "local" or "s3".`);
+  }
+};
+
+export const storage = createStorageDriver();
@@ -0,0 +1,60 @@
+import { createReadStream, createWriteStream } from 'node:fs';
+import { mkdir, rename, rm, stat } from 'node:fs/promises';
+import path from 'node:path';
+import { pipeline } from 'node:stream/promises';
+import type { StorageDriver } from './types';
+
+interface LocalDriverOptions {
+  root: string;
+}
+
+export const createLocalDriver = ({ root }: LocalDriverOptions): StorageDriver => {
+  const resolveKey = (key: string) => {
+    const target = path.resolve(root, key);
+    if (!target.startsWith(root + path.sep)) {
+      throw new Error(`Storage key escapes the storage root: ${key}`);
+    }
+    return target;
+  };
+
+  return {
+    name: 'local',
+
+    put: async (key, body) => {
+      const target = resolveKey(key);
+      // Written beside the target first so readers never see a half-written file
+      const partial = `${target}.${process.pid}.part`;
+      await mkdir(path.dirname(target), { recursive: true });
+
+      try {
+        await pipeline(body, createWriteStream(partial));
+        await rename(partial, target);
+      } catch (err) {
+        await rm(partial, { force: true });
+        throw err;
+      }
+    },
+
+    createReadStream: async (key, range) => createReadStream(resolveKey(key), range),
+
+    stat: async (key) => {
+      try {
+        const info = await stat(resolveKey(key));
+        return { size: info.size, lastModified: info.mtime };
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw err;
+      }
+    },
+
+    delete: async (key) => {
+      await rm(resolveKey(key), { force: true });
+    },
+
+    deletePrefix: async (prefix) => {
+      await rm(resolveKey(prefix), { recursive: true, force: true });
+    },
+
+    resolveUrl: async () => null,
+  };
+};
@@ -0,0 +1,95 @@
+import { Readable } from 'node:stream';
+import {
+  DeleteObjectCommand,
+  DeleteObjectsCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  NotFound,
+  S3Client,
+} from '@aws-sdk/client-s3';
+import { Upload } from '@aws-sdk/lib-storage';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import type { StorageDriver } from './types';
+
+interface S3DriverOptions {
+  bucket: string;
+  region: string;
+  endpoint?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  forcePathStyle: boolean;
+  urlTtlSeconds: number;
+}
+
+export const createS3Driver = (options: S3DriverOptions): StorageDriver => {
+  const { bucket, urlTtlSeconds } = options;
+
+  const client = new S3Client({
+    region: options.region,
+    endpoint: options.endpoint,
+    forcePathStyle: options.forcePathStyle,
+    // Falls back to the SDK's default credential chain when no keys are configured
+    credentials: options.accessKeyId && options.secretAccessKey
+      ? { accessKeyId: options.accessKeyId, secretAccessKey: options.secretAccessKey }
+      : undefined,
+  });
+
+  return {
+    name: 's3',
+
+    put: async (key, body, contentType) => {
+      // Multipart upload, so bodies of unknown length can be streamed without buffering
+      await new Upload({
+        client,
+        params: { Bucket: bucket, Key: key, Body: body, ContentType: contentType },
+      }).done();
+    },
+
+    createReadStream: async (key, range) => {
+      const { Body } = await client.send(new GetObjectCommand({
+        Bucket: bucket,
+        Key: key,
+        Range: range ? `bytes=${range.start}-${range.end}` : undefined,
+      }));
+      return Body as Readable;
+    },
+
+    stat: async (key) => {
+      try {
+        const head = await client.send(new HeadObjectCommand({ Bucket: bucket, Key: key }));
+        return { size: head.ContentLength ?? 0, lastModified: head.LastModified ?? new Date(0) };
+      } catch (err) {
+        if (err instanceof NotFound) return null;
+        throw err;
+      }
+    },
+
+    delete: async (key) => {
+      await client.send(new DeleteObjectCommand({ Bucket: bucket, Key: key }));
+    },
+
+    deletePrefix: async (prefix) => {
+      let continuationToken: string | undefined;
+      do {
+        // Each listing page holds at most 1000 keys, the most DeleteObjects accepts at once
+        const page = await client.send(new ListObjectsV2Command({
+          Bucket: bucket,
+          Prefix: `${prefix}/`,
+          ContinuationToken: continuationToken,
+        }));
+        const objects = (page.Contents ?? []).map(({ Key }) => ({ Key }));
+        if (objects.length > 0) {
+          await client.send(new DeleteObjectsCommand({ Bucket: bucket, Delete: { Objects: objects, Quiet: true } }));
+        }
+        continuationToken = page.NextContinuationToken;
+      } while (continuationToken);
+    },
+
+    // Presigned URLs let media elements range-request S3 directly instead of through the API
+    resolveUrl: async (key, { mimeType }) =>
+      getSignedUrl(client, new GetObjectCommand({ Bucket: bucket, Key: key, ResponseContentType: mimeType }), {
+        expiresIn: urlTtlSeconds,
+      }),
+  };
+};
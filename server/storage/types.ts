@@ -0,0 +1,33 @@
+import type { Readable } from 'node:stream';
+
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+export interface StoredObjectInfo {
+  size: number;
+  lastModified: Date;
+}
+
+export interface ResolveUrlOptions {
+  mimeType: string;
+}
+
+/**
+ * Where file bytes live. Keys are slash-separated paths such as `files/<id>`;
+ * drivers map them onto their own layout.
+ */
+export interface StorageDriver {
+  name: string;
+  put: (key: string, body: Readable, contentType?: string) => Promise<void>;
+  // `range` is inclusive on both ends, like an HTTP Range header
+  createReadStream: (key: string, range?: ByteRange) => Promise<Readable>;
+  // Resolves to null when the object does not exist
+  stat: (key: string) => Promise<StoredObjectInfo | null>;
+  delete: (key: string) => Promise<void>;
+  // Removes every object under `prefix/`, for keys that are only ever managed as a group
+  deletePrefix: (prefix: string) => Promise<void>;
+  // A URL clients can fetch the object from directly, or null to stream it through the API
+  resolveUrl: (key: string, options: ResolveUrlOptions) => Promise<string | null>;
+}
@@ -0,0 +1,20 @@
+/** How captions are drawn over videos; each user picks their own. */
+
+export const CAPTION_SIZES = ['small', 'medium', 'large', 'x-large'] as const;
+export const CAPTION_COLORS = ['white', 'yellow', 'cyan', 'green'] as const;
+export const CAPTION_BACKGROUNDS = ['none', 'translucent', 'solid'] as const;
+export const CAPTION_FONTS = ['sans-serif', 'serif', 'monospace'] as const;
+
+export interface CaptionStyle {
+  size: (typeof CAPTION_SIZES)[number];
+  color: (typeof CAPTION_COLORS)[number];
+  background: (typeof CAPTION_BACKGROUNDS)[number];
+  font: (typeof CAPTION_FONTS)[number];
+}
+
+export const DEFAULT_CAPTION_STYLE: CaptionStyle = {
+  size: 'medium',
+  color: 'white',
+  background: 'translucent',
+  font: 'sans-serif',
+};
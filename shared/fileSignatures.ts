@@ -0,0 +1,119 @@
+/**
+ * Identifies media containers from their leading bytes, so a file's declared
+ * type can be checked against what it actually contains. Used by both the
+ * upload page and the API.
+ */
+
+export type MediaType = 'video' | 'audio' | 'pdf';
+
+export interface ContainerFormat {
+  id: 'mp4' | 'mov' | 'mkv' | 'webm' | 'avi' | 'mp3' | 'aac' | 'flac' | 'wav' | 'ogg' | 'pdf';
+  label: string;
+  // MIME types a file of this format may honestly be declared as
+  mimeTypes: string[];
+}
+
+// Enough to reach the DocType of a Matroska header
+export const SIGNATURE_LENGTH = 64;
+
+const FORMATS: Record<ContainerFormat['id'], ContainerFormat> = {
+  mp4: { id: 'mp4', label: 'MP4', mimeTypes: ['video/mp4', 'audio/mp4', 'audio/x-m4a', 'video/x-m4v'] },
+  mov: { id: 'mov', label: 'QuickTime', mimeTypes: ['video/quicktime', 'video/mp4'] },
+  mkv: { id: 'mkv', label: 'Matroska', mimeTypes: ['video/x-matroska', 'audio/x-matroska', 'video/webm'] },
+  webm: { id: 'webm', label: 'WebM', mimeTypes: ['video/webm', 'audio/webm'] },
+  avi: { id: 'avi', label: 'AVI', mimeTypes: ['video/x-msvideo', 'video/avi', 'video/msvideo'] },
+  mp3: { id: 'mp3', label: 'MP3', mimeTypes: ['audio/mpeg', 'audio/mp3'] },
+  aac: { id: 'aac', label: 'AAC', mimeTypes: ['audio/aac', 'audio/x-aac', 'audio/aacp'] },
+  flac: { id: 'flac', label: 'FLAC', mimeTypes: ['audio/flac', 'audio/x-flac'] },
+  wav: { id: 'wav', label: 'WAV', mimeTypes: ['audio/wav', 'audio/x-wav', 'audio/wave', 'audio/vnd.wave'] },
+  ogg: { id: 'ogg', label: 'Ogg', mimeTypes: ['audio/ogg', 'video/ogg', 'audio/opus'] },
+  pdf: { id: 'pdf', label: 'PDF', mimeTypes: ['application/pdf'] },
+};
+
+// Browsers leave File.type empty for some containers (notably MKV), so extensions fill the gap
+export const MIME_TYPES_BY_EXTENSION: Record<string, string> = {
+  '.mp4': 'video/mp4',
+  '.m4v': 'video/x-m4v',
+  '.mov': 'video/quicktime',
+  '.mkv': 'video/x-matroska',
+  '.webm': 'video/webm',
+  '.avi': 'video/x-msvideo',
+  '.mp3': 'audio/mpeg',
+  '.m4a': 'audio/mp4',
+  '.aac': 'audio/aac',
+  '.flac': 'audio/flac',
+  '.wav': 'audio/wav',
+  '.ogg': 'audio/ogg',
+  '.oga': 'audio/ogg',
+  '.opus': 'audio/opus',
+  '.pdf': 'application/pdf',
+};
+
+export const getMediaType = (mimeType: string): MediaType | null => {
+  if (mimeType.startsWith('video/')) return 'video';
+  if (mimeType.startsWith('audio/')) return 'audio';
+  if (mimeType === 'application/pdf') return 'pdf';
+  return null;
+};
+
+export const guessMimeType = (fileName: string, declared = '') => {
+  if (declared) return declared;
+  const extension = fileName.slice(fileName.lastIndexOf('.')).toLowerCase();
+  return MIME_TYPES_BY_EXTENSION[extension] ?? '';
+};
+
+const ascii = (bytes: Uint8Array, start: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(start, start + length));
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0) =>
+  signature.every((byte, index) => bytes[offset + index] === byte);
+
+export const sniffFormat = (bytes: Uint8Array): ContainerFormat | null => {
+  if (ascii(bytes, 0, 5) === '%PDF-') return FORMATS.pdf;
+
+  if (ascii(bytes, 4, 4) === 'ftyp') {
+    return ascii(bytes, 8, 4) === 'qt  ' ? FORMATS.mov : FORMATS.mp4;
+  }
+
+  // EBML header; the DocType element says whether it is WebM or full Matroska
+  if (startsWith(bytes, [0x1a, 0x45, 0xdf, 0xa3])) {
+    const header = ascii(bytes, 0, SIGNATURE_LENGTH);
+    if (header.includes('webm')) return FORMATS.webm;
+    if (header.includes('matroska')) return FORMATS.mkv;
+    return null;
+  }
+
+  if (ascii(bytes, 0, 4) === 'RIFF') {
+    const form = ascii(bytes, 8, 4);
+    if (form === 'WAVE') return FORMATS.wav;
+    if (form === 'AVI ') return FORMATS.avi;
+    return null;
+  }
+
+  if (ascii(bytes, 0, 4) === 'fLaC') return FORMATS.flac;
+  if (ascii(bytes, 0, 4) === 'OggS') return FORMATS.ogg;
+  if (ascii(bytes, 0, 3) === 'ID3') return FORMATS.mp3;
+
+  // Bare MPEG audio frames: both start with an 11-bit sync word, ADTS (AAC) has layer bits 00
+  if (bytes[0] === 0xff && (bytes[1] & 0xe0) === 0xe0) {
+    if ((bytes[1] & 0x06) === 0) return (bytes[1] & 0x10) ? FORMATS.aac : null;
+    return FORMATS.mp3;
+  }
+
+  return null;
+};
+
+/**
+ * Checks that the leading bytes of a file match its declared MIME type.
+ * Resolves to an error message suitable for showing to the user, or null.
+ */
+export const validateSignature = (bytes: Uint8Array, mimeType: string, fileName: string) => {
+  const format = sniffFormat(bytes);
+  if (!format) {
+    return `${fileName} doesn't look like a supported video, audio, or PDF file.`;
+  }
+  if (!format.mimeTypes.includes(mimeType)) {
+    return `${fileName} claims to be ${mimeType || 'an unknown type'} but contains ${format.label} data.`;
+  }
+  return null;
+};
@@ -0,0 +1,41 @@
+/**
+ * Technical details and tags read from a file's contents after upload. The
+ * API stores one of these per file and the client displays it as-is.
+ */
+
+export interface VideoMetadata {
+  kind: 'video';
+  // Seconds
+  duration?: number;
+  width: number;
+  height: number;
+  frameRate?: number;
+  // Codec names as ffprobe reports them, e.g. "h264" or "aac"
+  videoCodec?: string;
+  audioCodec?: string;
+  // Bits per second for the whole file
+  bitrate?: number;
+}
+
+export interface AudioMetadata {
+  kind: 'audio';
+  duration?: number;
+  codec?: string;
+  bitrate?: number;
+  sampleRate?: number;
+  channels?: number;
+  title?: string;
+  artist?: string;
+  album?: string;
+  trackNumber?: number;
+  trackTotal?: number;
+}
+
+export interface DocumentMetadata {
+  kind: 'pdf';
+  pageCount?: number;
+  title?: string;
+  author?: string;
+}
+
+export type MediaMetadata = VideoMetadata | AudioMetadata | DocumentMetadata;
@@ -0,0 +1,339 @@
+/**
+ * The Files page search language, e.g.
+ *
+ *   type:video size:>20MB uploaded:last-7d tag:lecture "final exam"
+ *
+ * Terms are combined with AND and any term can be negated with a leading `-`.
+ * Queries parse to the same AST on the client, which filters the loaded
+ * library, and on the API, which turns it into a database query.
+ */
+
+import type { MediaType } from './fileSignatures';
+
+export type Comparator = '>' | '>=' | '<' | '<=';
+export type TimeUnit = 'h' | 'd' | 'w' | 'm' | 'y';
+
+export type DateFilter =
+  // uploaded:last-7d
+  | { kind: 'within'; amount: number; unit: TimeUnit }
+  // uploaded:today (offset 0) or uploaded:yesterday (offset -1)
+  | { kind: 'relativeDay'; offset: number }
+  // uploaded:2024-05-01, the whole of that day
+  | { kind: 'on'; date: string }
+  // uploaded:>2024-05-01
+  | { kind: 'compare'; comparator: Comparator; date: string }
+  // uploaded:2024-05-01..2024-05-31, both days included
+  | { kind: 'between'; from: string; to: string };
+
+interface TermBase {
+  negated: boolean;
+}
+
+export type QueryTerm = TermBase & (
+  | { field: 'text'; value: string; phrase: boolean }
+  | { field: 'type'; value: MediaType }
+  | { field: 'size'; comparator: Comparator; bytes: number }
+  | { field: 'uploaded'; filter: DateFilter }
+  | { field: 'tag'; value: string }
+);
+
+export interface SearchQuery {
+  terms: QueryTerm[];
+}
+
+export type QueryField = Exclude<QueryTerm['field'], 'text'>;
+
+export const QUERY_FIELDS: { field: QueryField; description: string; examples: string[] }[] = [
+  { field: 'type', description: 'Kind of file', examples: ['video', 'audio', 'pdf'] },
+  { field: 'size', description: 'File size', examples: ['>20MB', '<1GB', '10MB..100MB'] },
+  { field: 'uploaded', description: 'Upload date', examples: ['today', 'last-7d', '>2024-01-01'] },
+  { field: 'tag', description: 'Tag you added', examples: [] },
+];
+
+export class SearchQueryError extends Error {
+  constructor(
+    message: string,
+    // Where in the input the problem is, so it can be pointed at
+    public readonly start: number,
+    public readonly end: number,
+  ) {
+    super(message);
+    this.name = 'SearchQueryError';
+  }
+}
+
+const TYPE_ALIASES: Record<string, MediaType> = {
+  video: 'video',
+  videos: 'video',
+  audio: 'audio',
+  pdf: 'pdf',
+  pdfs: 'pdf',
+  document: 'pdf',
+};
+
+const SIZE_UNITS: Record<string, number> = {
+  b: 1,
+  kb: 1024,
+  mb: 1024 ** 2,
+  gb: 1024 ** 3,
+  tb: 1024 ** 4,
+};
+
+const TIME_UNITS: TimeUnit[] = ['h', 'd', 'w', 'm', 'y'];
+
+interface Token {
+  negated: boolean;
+  field: string | null;
+  value: string;
+  quoted: boolean;
+  start: number;
+  end: number;
+}
+
+const readQuoted = (input: string, from: number) => {
+  const close = input.indexOf('"', from + 1);
+  if (close === -1) {
+    throw new SearchQueryError('Missing closing quote', from, input.length);
+  }
+  return { value: input.slice(from + 1, close), end: close + 1 };
+};
+
+const tokenize = (input: string) => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    if (/\s/.test(input[i])) {
+      i += 1;
+      continue;
+    }
+
+    const start = i;
+    const negated = input[i] === '-' && i + 1 < input.length && !/\s/.test(input[i + 1]);
+    if (negated) i += 1;
+
+    if (input[i] === '"') {
+      const quoted = readQuoted(input, i);
+      tokens.push({ negated, field: null, value: quoted.value, quoted: true, start, end: quoted.end });
+      i = quoted.end;
+      continue;
+    }
+
+    const fieldMatch = /^([a-z]+):/i.exec(input.slice(i));
+    if (fieldMatch) {
+      const field = fieldMatch[1].toLowerCase();
+      i += fieldMatch[0].length;
+      if (input[i] === '"') {
+        const quoted = readQuoted(input, i);
+        tokens.push({ negated, field, value: quoted.value, quoted: true, start, end: quoted.end });
+        i = quoted.end;
+      } else {
+        const valueStart = i;
+        while (i < input.length && !/\s/.test(input[i])) i += 1;
+        tokens.push({ negated, field, value: input.slice(valueStart, i), quoted: false, start, end: i });
+      }
+      continue;
+    }
+
+    while (i < input.length && !/\s/.test(input[i])) i += 1;
+    tokens.push({ negated, field: null, value: input.slice(negated ? start + 1 : start, i), quoted: false, start, end: i });
+  }
+
+  return tokens;
+};
+
+const splitComparator = (value: string) => {
+  const match = /^(>=|<=|>|<)?(.*)$/.exec(value)!;
+  return { comparator: match[1] as Comparator | undefined, rest: match[2] };
+};
+
+const parseBytes = (value: string, token: Token) => {
+  const match = /^(\d+(?:\.\d+)?)\s*([kmgt]?b)?$/i.exec(value);
+  if (!match) {
+    throw new SearchQueryError(`"${value}" is not a size. Try something like 20MB or 1.5GB`, token.start, token.end);
+  }
+  return Math.round(Number(match[1]) * SIZE_UNITS[(match[2] ?? 'b').toLowerCase()]);
+};
+
+const parseSize = (token: Token): QueryTerm[] => {
+  const range = token.value.split('..');
+  if (range.length === 2) {
+    if (token.negated) {
+      throw new SearchQueryError('A size range can\'t be negated; use size:< or size:> instead', token.start, token.end);
+    }
+    return [
+      { field: 'size', comparator: '>=', bytes: parseBytes(range[0], token), negated: false },
+      { field: 'size', comparator: '<=', bytes: parseBytes(range[1], token), negated: false },
+    ];
+  }
+
+  const { comparator, rest } = splitComparator(token.value);
+  if (!comparator) {
+    throw new SearchQueryError('Compare sizes with >, <, >= or <=, e.g. size:>20MB', token.start, token.end);
+  }
+  return [{ field: 'size', comparator, bytes: parseBytes(rest, token), negated: token.negated }];
+};
+
+const isValidDate = (value: string) =>
+  /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(new Date(`${value}T00:00:00`).getTime());
+
+const parseDate = (value: string, token: Token) => {
+  if (!isValidDate(value)) {
+    throw new SearchQueryError(`"${value}" is not a date. Use YYYY-MM-DD, today, yesterday or last-7d`, token.start, token.end);
+  }
+  return value;
+};
+
+const parseDateFilter = (token: Token): DateFilter => {
+  const value = token.value.toLowerCase();
+  if (value === 'today') return { kind: 'relativeDay', offset: 0 };
+  if (value === 'yesterday') return { kind: 'relativeDay', offset: -1 };
+
+  const within = /^last-(\d+)([a-z])$/.exec(value);
+  if (within) {
+    const unit = within[2] as TimeUnit;
+    if (!TIME_UNITS.includes(unit)) {
+      throw new SearchQueryError(`Unknown time unit "${within[2]}". Use h, d, w, m or y`, token.start, token.end);
+    }
+    return { kind: 'within', amount: Number(within[1]), unit };
+  }
+
+  const range = value.split('..');
+  if (range.length === 2) {
+    return { kind: 'between', from: parseDate(range[0], token), to: parseDate(range[1], token) };
+  }
+
+  const { comparator, rest } = splitComparator(value);
+  return comparator
+    ? { kind: 'compare', comparator, date: parseDate(rest, token) }
+    : { kind: 'on', date: parseDate(rest, token) };
+};
+
+const parseTerm = (token: Token): QueryTerm[] => {
+  const { negated } = token;
+
+  if (token.field === null) {
+    return token.value ? [{ field: 'text', value: token.value, phrase: token.quoted, negated }] : [];
+  }
+  if (!token.value) {
+    throw new SearchQueryError(`Expected a value after ${token.field}:`, token.start, token.end);
+  }
+
+  switch (token.field) {
+    case 'type': {
+      const value = TYPE_ALIASES[token.value.toLowerCase()];
+      if (!value) {
+        throw new SearchQueryError(`Unknown type "${token.value}". Use video, audio or pdf`, token.start, token.end);
+      }
+      return [{ field: 'type', value, negated }];
+    }
+    case 'size':
+      return parseSize(token);
+    case 'uploaded':
+      return [{ field: 'uploaded', filter: parseDateFilter(token), negated }];
+    case 'tag':
+      return [{ field: 'tag', value: normalizeTag(token.value), negated }];
+    default:
+      throw new SearchQueryError(
+        `Unknown field "${token.field}". Try ${QUERY_FIELDS.map(({ field }) => `${field}:`).join(', ')}`,
+        token.start,
+        token.end,
+      );
+  }
+};
+
+/** Parses a query, throwing a SearchQueryError that points at the offending part. */
+export const parseSearchQuery = (input: string): SearchQuery => ({
+  terms: tokenize(input).flatMap(parseTerm),
+});
+
+export const normalizeTag = (tag: string) => tag.trim().toLowerCase();
+
+// The free-text part of a query, for searches that only understand words and quoted phrases
+export const getQueryText = (query: SearchQuery) =>
+  query.terms
+    .filter((term): term is Extract<QueryTerm, { field: 'text' }> => term.field === 'text' && !term.negated)
+    .map((term) => (term.phrase ? `"${term.value}"` : term.value))
+    .join(' ');
+
+const startOfDay = (date: Date, offsetDays = 0) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + offsetDays);
+
+const parseLocalDay = (value: string) => new Date(`${value}T00:00:00`);
+
+const subtract = (now: Date, amount: number, unit: TimeUnit) => {
+  const date = new Date(now);
+  switch (unit) {
+    case 'h': date.setHours(date.getHours() - amount); break;
+    case 'd': date.setDate(date.getDate() - amount); break;
+    case 'w': date.setDate(date.getDate() - amount * 7); break;
+    case 'm': date.setMonth(date.getMonth() - amount); break;
+    case 'y': date.setFullYear(date.getFullYear() - amount); break;
+  }
+  return date;
+};
+
+/**
+ * Turns a date filter into a concrete range, `from` inclusive and `to`
+ * exclusive. Calendar days are taken in the evaluating machine's time zone.
+ */
+export const resolveDateFilter = (filter: DateFilter, now: Date): { from?: Date; to?: Date } => {
+  switch (filter.kind) {
+    case 'within':
+      return { from: subtract(now, filter.amount, filter.unit) };
+    case 'relativeDay':
+      return { from: startOfDay(now, filter.offset), to: startOfDay(now, filter.offset + 1) };
+    case 'on': {
+      const day = parseLocalDay(filter.date);
+      return { from: day, to: startOfDay(day, 1) };
+    }
+    case 'between':
+      return { from: parseLocalDay(filter.from), to: startOfDay(parseLocalDay(filter.to), 1) };
+    case 'compare': {
+      const day = parseLocalDay(filter.date);
+      switch (filter.comparator) {
+        case '>': return { from: startOfDay(day, 1) };
+        case '>=': return { from: day };
+        case '<': return { to: day };
+        case '<=': return { to: startOfDay(day, 1) };
+      }
+    }
+  }
+};
+
+const compare = (value: number, comparator: Comparator, target: number) => {
+  switch (comparator) {
+    case '>': return value > target;
+    case '>=': return value >= target;
+    case '<': return value < target;
+    case '<=': return value <= target;
+  }
+};
+
+export interface SearchableFile {
+  name: string;
+  type: MediaType;
+  size: number;
+  uploadDate: Date;
+  tags?: string[];
+}
+
+const matchesTerm = (file: SearchableFile, term: QueryTerm, now: Date) => {
+  switch (term.field) {
+    case 'text':
+      return file.name.toLowerCase().includes(term.value.toLowerCase());
+    case 'type':
+      return file.type === term.value;
+    case 'size':
+      return compare(file.size, term.comparator, term.bytes);
+    case 'uploaded': {
+      const { from, to } = resolveDateFilter(term.filter, now);
+      return (!from || file.uploadDate >= from) && (!to || file.uploadDate < to);
+    }
+    case 'tag':
+      return (file.tags ?? []).includes(term.value);
+  }
+};
+
+export const matchesSearchQuery = (file: SearchableFile, query: SearchQuery, now = new Date()) =>
+  query.terms.every((term) => matchesTerm(file, term, now) !== term.negated);
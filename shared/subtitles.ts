@@ -0,0 +1,45 @@
+/**
+ * Subtitle files attached to videos. Browsers only play WebVTT, so SubRip (.srt)
+ * files are converted when they are attached. Used by both the app and the API.
+ */
+
+export const SUBTITLE_EXTENSIONS = ['.vtt', '.srt'];
+
+// Subtitle files are small; anything bigger is almost certainly something else
+export const MAX_SUBTITLE_SIZE = 2 * 1024 * 1024;
+
+export const isSubtitleFile = (fileName: string) =>
+  SUBTITLE_EXTENSIONS.some((extension) => fileName.toLowerCase().endsWith(extension));
+
+// SRT writes the milliseconds after a comma where WebVTT uses a full stop
+const SRT_TIMING = /^(\s*\d{1,2}:\d{2}:\d{2}),(\d{3}\s*-->\s*\d{1,2}:\d{2}:\d{2}),(\d{3}.*)$/;
+
+/** The contents as WebVTT, or null if they aren't WebVTT or SubRip. */
+export const convertToWebVtt = (content: string): string | null => {
+  const text = content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+
+  if (/^WEBVTT(?:[ \t].*)?(?:\n|$)/.test(text)) return text;
+  if (!text.split('\n').some((line) => SRT_TIMING.test(line))) return null;
+
+  const cues = text
+    .trim()
+    .split('\n')
+    .map((line) => line.replace(SRT_TIMING, '$1.$2.$3'));
+  return `WEBVTT\n\n${cues.join('\n')}\n`;
+};
+
+/**
+ * A language code in the file name, as in "lecture.en.srt" or "movie.pt-BR.vtt",
+ * or null if there isn't one.
+ */
+export const guessSubtitleLanguage = (fileName: string) =>
+  /\.([a-z]{2,3}(?:-[a-z]{2,4})?)\.(?:vtt|srt)$/i.exec(fileName)?.[1] ?? null;
+
+// Names a language in English, falling back to the code itself
+export const describeLanguage = (language: string) => {
+  try {
+    return new Intl.DisplayNames(['en'], { type: 'language' }).of(language) ?? language;
+  } catch {
+    return language;
+  }
+};
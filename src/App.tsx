@@ -6,11 +6,19 @@ import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { AuthProvider, useAuth } from "./contexts/AuthContext";
 import { ThemeProvider } from "./contexts/ThemeContext";
 import { FileProvider } from "./contexts/FileContext";
+import { PlayerProvider } from "./contexts/PlayerContext";
 import AuthPage from "./pages/AuthPage";
 import Dashboard from "./pages/Dashboard";
 import UploadPage from "./pages/UploadPage";
 import FilesPage from "./pages/FilesPage";
+import TrashPage from "./pages/TrashPage";
+import SharedWithMePage from "./pages/SharedWithMePage";
+import ShareLinksPage from "./pages/ShareLinksPage";
+import PlaylistsPage from "./pages/PlaylistsPage";
+import SharedPage from "./pages/SharedPage";
 import Navbar from "./components/layout/Navbar";
+import MiniPlayer from "./components/media/MiniPlayer";
+import CaptionStyleSheet from "./components/media/CaptionStyleSheet";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -36,11 +44,20 @@ const AppRoutes = () => {
   return (
     <div className="min-h-screen bg-background">
       <Navbar />
+      <CaptionStyleSheet />
+      <MiniPlayer />
       <Routes>
         <Route path="/" element={<Navigate to="/dashboard" replace />} />
         <Route path="/dashboard" element={<Dashboard />} />
         <Route path="/upload" element={<UploadPage />} />
         <Route path="/files" element={<FilesPage />} />
+        <Route path="/files/:folderId" element={<FilesPage />} />
+        <Route path="/shared" element={<SharedWithMePage />} />
+        <Route path="/shared/:folderId" element={<SharedWithMePage />} />
+        <Route path="/playlists" element={<PlaylistsPage />} />
+        <Route path="/playlists/:playlistId" element={<PlaylistsPage />} />
+        <Route path="/trash" element={<TrashPage />} />
+        <Route path="/links" element={<ShareLinksPage />} />
         <Route path="*" element={<NotFound />} />
       </Routes>
     </div>
@@ -52,13 +69,19 @@ const App = () => (
     <ThemeProvider>
       <AuthProvider>
         <FileProvider>
-          <TooltipProvider>
-            <Toaster />
-            <Sonner />
-            <BrowserRouter>
-              <AppRoutes />
-            </BrowserRouter>
-          </TooltipProvider>
+          <PlayerProvider>
+            <TooltipProvider>
+              <Toaster />
+              <Sonner />
+              <BrowserRouter>
+                <Routes>
+                  {/* Share links open without an account */}
+                  <Route path="/s/:token" element={<SharedPage />} />
+                  <Route path="*" element={<AppRoutes />} />
+                </Routes>
+              </BrowserRouter>
+            </TooltipProvider>
+          </PlayerProvider>
         </FileProvider>
       </AuthProvider>
     </ThemeProvider>
@@ -30,12 +30,12 @@ const LoginForm: React.FC<LoginFormProps> = ({ onToggleMode }) => {
       return;
     }
 
-    const success = await login(email, password);
+    const result = await login(email, password);
     
-    if (!success) {
+    if (!result.ok) {
       toast({
         title: "Login Failed",
-        description: "Invalid credentials. Password must be at least 6 characters.",
+        description: result.error,
         variant: "destructive",
       });
     } else {
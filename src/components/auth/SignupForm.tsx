@@ -51,12 +51,12 @@ const SignupForm: React.FC<SignupFormProps> = ({ onToggleMode }) => {
       return;
     }
 
-    const success = await signup(email, password, name);
+    const result = await signup(email, password, name);
     
-    if (!success) {
+    if (!result.ok) {
       toast({
         title: "Signup Failed",
-        description: "Please check your information and try again.",
+        description: result.error,
         variant: "destructive",
       });
     } else {
@@ -0,0 +1,173 @@
+import React, { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { UserPlus, X } from 'lucide-react';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { ShareTarget } from '@/components/files/ShareDialog';
+import { useToast } from '@/hooks/use-toast';
+import {
+  ACCESS_QUERY_KEY,
+  ACCESS_ROLES,
+  fetchAccessGrants,
+  getInitials,
+  grantAccess,
+  revokeAccess,
+  ROLE_DESCRIPTIONS,
+  updateAccess,
+  type AccessRole,
+} from '@/lib/access';
+
+const RoleSelect: React.FC<{ value: AccessRole; onChange: (role: AccessRole) => void; disabled?: boolean }> = ({
+  value,
+  onChange,
+  disabled,
+}) => (
+  <Select value={value} onValueChange={role => onChange(role as AccessRole)} disabled={disabled}>
+    <SelectTrigger className="w-32 capitalize">
+      <SelectValue />
+    </SelectTrigger>
+    <SelectContent>
+      {ACCESS_ROLES.map(role => (
+        <SelectItem key={role} value={role} className="capitalize">
+          {role}
+        </SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
+
+interface AccessDialogProps {
+  // The dialog is open while there is something to manage
+  target: ShareTarget | null;
+  onClose: () => void;
+}
+
+const AccessDialog: React.FC<AccessDialogProps> = ({ target, onClose }) => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<AccessRole>('viewer');
+
+  useEffect(() => {
+    if (!target) return;
+    setEmail('');
+    setRole('viewer');
+  }, [target]);
+
+  const accessTarget = target && (target.kind === 'file' ? { fileId: target.id } : { folderId: target.id });
+
+  const { data: grants = [], isLoading } = useQuery({
+    queryKey: [...ACCESS_QUERY_KEY, target?.kind, target?.id],
+    queryFn: () => fetchAccessGrants(accessTarget!),
+    enabled: target !== null,
+  });
+
+  const reportError = (title: string, error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : 'Please try again',
+      variant: "destructive",
+    });
+  };
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ACCESS_QUERY_KEY });
+
+  const grantMutation = useMutation({
+    mutationFn: () => grantAccess(accessTarget!, email.trim(), role),
+    onSuccess: grant => {
+      refresh();
+      setEmail('');
+      toast({ title: "Access Given", description: `${grant.user.name} can now open ${target?.name}` });
+    },
+    onError: error => reportError("Couldn't Give Access", error),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, role }: { id: string; role: AccessRole }) => updateAccess(id, role),
+    onSuccess: refresh,
+    onError: error => reportError("Couldn't Change Role", error),
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: revokeAccess,
+    onSuccess: refresh,
+    onError: error => reportError("Couldn't Remove Access", error),
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (email.trim()) grantMutation.mutate();
+  };
+
+  return (
+    <Dialog open={target !== null} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="truncate">Who has access to "{target?.name}"</DialogTitle>
+          <DialogDescription>
+            {target?.kind === 'folder'
+              ? 'People you add here can open everything in this folder, including what is added later.'
+              : 'People you add here can open this file from Shared with me.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="flex items-center gap-2">
+          <Input
+            type="email"
+            placeholder="Email address"
+            value={email}
+            onChange={e => setEmail(e.target.value)}
+          />
+          <RoleSelect value={role} onChange={setRole} />
+          <Button type="submit" variant="hero" size="icon" title="Add" disabled={grantMutation.isPending}>
+            <UserPlus className="w-4 h-4" />
+          </Button>
+        </form>
+        <p className="text-xs text-muted-foreground -mt-2">{ROLE_DESCRIPTIONS[role]}</p>
+
+        <div className="space-y-2 pt-2">
+          {isLoading && <p className="text-sm text-muted-foreground">Loading...</p>}
+          {!isLoading && grants.length === 0 && (
+            <p className="text-sm text-muted-foreground">Only the owner has access right now.</p>
+          )}
+          {grants.map(grant => (
+            <div key={grant.id} className="flex items-center gap-3 rounded-lg border border-glass-border p-2">
+              <Avatar className="w-8 h-8">
+                <AvatarFallback className="text-xs">{getInitials(grant.user.name)}</AvatarFallback>
+              </Avatar>
+              <div className="min-w-0 flex-1">
+                <p className="text-sm font-medium truncate">{grant.user.name}</p>
+                <p className="text-xs text-muted-foreground truncate">{grant.user.email}</p>
+              </div>
+              <RoleSelect
+                value={grant.role}
+                disabled={updateMutation.isPending}
+                onChange={role => updateMutation.mutate({ id: grant.id, role })}
+              />
+              <Button
+                size="sm"
+                variant="ghost"
+                title="Remove access"
+                disabled={revokeMutation.isPending}
+                onClick={() => revokeMutation.mutate(grant.id)}
+              >
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AccessDialog;
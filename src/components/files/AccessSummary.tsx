@@ -0,0 +1,43 @@
+import React from 'react';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { getInitials, type AccessGrant } from '@/lib/access';
+
+const MAX_AVATARS = 3;
+
+interface AccessSummaryProps {
+  grants: AccessGrant[] | undefined;
+  onClick: () => void;
+  className?: string;
+}
+
+// Who else can open an item; nothing is shown for items only the owner can see
+const AccessSummary: React.FC<AccessSummaryProps> = ({ grants = [], onClick, className = '' }) => {
+  if (grants.length === 0) return null;
+
+  return (
+    <button
+      type="button"
+      className={`flex items-center space-x-2 text-xs text-muted-foreground hover:text-foreground transition-colors ${className}`}
+      title={grants.map(grant => `${grant.user.name} (${grant.role})`).join(', ')}
+      onClick={e => {
+        e.stopPropagation();
+        onClick();
+      }}
+    >
+      <span className="flex -space-x-2">
+        {grants.slice(0, MAX_AVATARS).map(grant => (
+          <Avatar key={grant.id} className="w-6 h-6 border-2 border-background">
+            <AvatarFallback className="text-[10px]">{getInitials(grant.user.name)}</AvatarFallback>
+          </Avatar>
+        ))}
+      </span>
+      <span className="truncate">
+        {grants.length === 1
+          ? `Shared with ${grants[0].user.name}`
+          : `Shared with ${grants.length} people`}
+      </span>
+    </button>
+  );
+};
+
+export default AccessSummary;
@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { MessageSquare, Send, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from '@/components/ui/sheet';
+import { useAuth } from '@/contexts/AuthContext';
+import type { CloudFile } from '@/contexts/FileContext';
+import { useToast } from '@/hooks/use-toast';
+import { hasRole, type AccessRole } from '@/lib/access';
+import {
+  addComment,
+  commentsQueryKey,
+  deleteComment,
+  fetchComments,
+  MAX_COMMENT_LENGTH,
+  type FileComment,
+} from '@/lib/comments';
+
+interface CommentsPanelProps {
+  file: CloudFile;
+  // The signed-in user's role on the file; viewers can only read
+  role: AccessRole;
+  iconClassName?: string;
+}
+
+const CommentsPanel: React.FC<CommentsPanelProps> = ({ file, role, iconClassName = 'w-3 h-3' }) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState('');
+
+  const { data: comments = [], isLoading } = useQuery({
+    queryKey: commentsQueryKey(file.id),
+    queryFn: () => fetchComments(file.id),
+    enabled: open,
+  });
+
+  const reportError = (title: string, error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : 'Please try again',
+      variant: "destructive",
+    });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: (body: string) => addComment(file.id, body),
+    onSuccess: () => {
+      setDraft('');
+      queryClient.invalidateQueries({ queryKey: commentsQueryKey(file.id) });
+    },
+    onError: error => reportError("Couldn't Add Comment", error),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (comment: FileComment) => deleteComment(file.id, comment.id),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: commentsQueryKey(file.id) }),
+    onError: error => reportError('Remove Failed', error),
+  });
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (draft.trim()) addMutation.mutate(draft.trim());
+  };
+
+  const canComment = hasRole(role, 'commenter');
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Button size="sm" variant="ghost" title="Comments">
+          <MessageSquare className={iconClassName} />
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="w-full sm:max-w-lg flex flex-col">
+        <SheetHeader>
+          <SheetTitle>Comments</SheetTitle>
+          <SheetDescription className="truncate">
+            Everyone with access to {file.name} can read these
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-6 flex-1 overflow-y-auto space-y-3">
+          {isLoading && <p className="text-sm text-muted-foreground">Loading comments...</p>}
+          {!isLoading && comments.length === 0 && (
+            <p className="text-sm text-muted-foreground">No comments yet</p>
+          )}
+          {comments.map(comment => (
+            <div key={comment.id} className="rounded-lg border border-glass-border p-3">
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <span className="font-medium">{comment.authorName}</span>
+                  <span className="ml-2 text-xs text-muted-foreground">
+                    {new Date(comment.createdAt).toLocaleString()}
+                  </span>
+                </div>
+                {canComment && (comment.authorId === user?.id || hasRole(role, 'owner')) && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    title="Remove comment"
+                    disabled={deleteMutation.isPending}
+                    onClick={() => deleteMutation.mutate(comment)}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+              <p className="text-sm mt-1 whitespace-pre-wrap break-words">{comment.body}</p>
+            </div>
+          ))}
+        </div>
+
+        {canComment ? (
+          <form onSubmit={handleSubmit} className="mt-4 space-y-2">
+            <Textarea
+              placeholder="Add a comment"
+              value={draft}
+              maxLength={MAX_COMMENT_LENGTH}
+              onChange={event => setDraft(event.target.value)}
+            />
+            <Button type="submit" variant="glass" disabled={!draft.trim() || addMutation.isPending}>
+              <Send className="w-4 h-4 mr-2" />
+              Comment
+            </Button>
+          </form>
+        ) : (
+          <p className="mt-4 text-sm text-muted-foreground">Ask the owner for commenter access to join in</p>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default CommentsPanel;
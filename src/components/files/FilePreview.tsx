@@ -0,0 +1,106 @@
+import React from 'react';
+import { Eye, FileAudio, FileVideo, Play } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { CloudFile } from '@/contexts/FileContext';
+import type { PlaybackPosition } from '@/lib/playback';
+
+interface FilePreviewProps {
+  file: CloudFile;
+  isPlaying: boolean;
+  // Where the user stopped last time, if it's one of the files they're partway through
+  playback?: PlaybackPosition;
+  onPlay: (file: CloudFile) => void;
+  onOpenPdf: (file: CloudFile) => void;
+}
+
+// The top of a file's card in the grid view
+const FilePreview: React.FC<FilePreviewProps> = ({ file, isPlaying, playback, onPlay, onOpenPdf }) => {
+  switch (file.type) {
+    case 'video':
+      // Opens in the global player rather than inline, with its captions and saved position
+      return (
+        <div className="relative w-full h-48 bg-muted rounded-lg">
+          {file.thumbnail ? (
+            <img
+              src={file.thumbnail}
+              alt={file.name}
+              loading="lazy"
+              className="w-full h-full object-cover rounded-lg"
+            />
+          ) : (
+            <div className="w-full h-full flex items-center justify-center">
+              <FileVideo className="w-12 h-12 text-muted-foreground" />
+            </div>
+          )}
+          <div className="absolute inset-0 bg-gradient-to-t from-black/60 to-transparent rounded-lg flex items-center justify-center">
+            <Button variant="glass" onClick={() => onPlay(file)}>
+              <Play className="w-4 h-4 mr-2" />
+              {isPlaying ? 'Playing' : playback ? 'Resume' : 'Play'}
+            </Button>
+          </div>
+          {playback && (
+            <div className="absolute inset-x-0 bottom-0 h-1 bg-black/40 rounded-b-lg overflow-hidden">
+              <div
+                className="h-1 bg-primary"
+                style={{ width: `${Math.min((playback.position / playback.duration) * 100, 100)}%` }}
+              />
+            </div>
+          )}
+        </div>
+      );
+
+    case 'audio':
+      return (
+        <div className="w-full h-48 bg-gradient-secondary rounded-lg flex flex-col items-center justify-center p-6">
+          {file.thumbnail ? (
+            <img
+              src={file.thumbnail}
+              alt=""
+              loading="lazy"
+              className="w-24 h-24 rounded-md object-cover shadow-lg mb-4"
+            />
+          ) : (
+            <FileAudio className="w-16 h-16 text-primary-foreground mb-4" />
+          )}
+          <Button variant="glass" onClick={() => onPlay(file)}>
+            <Play className="w-4 h-4 mr-2" />
+            {isPlaying ? 'Playing' : 'Play'}
+          </Button>
+        </div>
+      );
+
+    case 'pdf':
+      return (
+        <div className="relative w-full h-48 bg-muted rounded-lg">
+          {file.thumbnail ? (
+            <img
+              src={file.thumbnail}
+              alt={file.name}
+              loading="lazy"
+              className="w-full h-full object-cover object-top rounded-lg"
+            />
+          ) : (
+            <iframe
+              src={`${file.url}#toolbar=0`}
+              className="w-full h-full rounded-lg"
+              title={file.name}
+            />
+          )}
+          <div className="absolute inset-0 bg-gradient-to-t from-black/60 to-transparent opacity-0 hover:opacity-100 transition-opacity flex items-center justify-center">
+            <Button
+              variant="glass"
+              onClick={() => onOpenPdf(file)}
+            >
+              <Eye className="mr-2 w-4 h-4" />
+              View Full
+            </Button>
+          </div>
+        </div>
+      );
+
+    default:
+      return null;
+  }
+};
+
+export default FilePreview;
@@ -0,0 +1,44 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from '@/components/ui/breadcrumb';
+import type { Folder } from '@/lib/folders';
+
+// `path` runs from the top level down to the folder being shown
+const FolderBreadcrumbs: React.FC<{ path: Folder[] }> = ({ path }) => (
+  <Breadcrumb>
+    <BreadcrumbList>
+      <BreadcrumbItem>
+        {path.length === 0 ? (
+          <BreadcrumbPage>My Files</BreadcrumbPage>
+        ) : (
+          <BreadcrumbLink asChild>
+            <Link to="/files">My Files</Link>
+          </BreadcrumbLink>
+        )}
+      </BreadcrumbItem>
+      {path.map((folder, index) => (
+        <React.Fragment key={folder.id}>
+          <BreadcrumbSeparator />
+          <BreadcrumbItem>
+            {index === path.length - 1 ? (
+              <BreadcrumbPage>{folder.name}</BreadcrumbPage>
+            ) : (
+              <BreadcrumbLink asChild>
+                <Link to={`/files/${folder.id}`}>{folder.name}</Link>
+              </BreadcrumbLink>
+            )}
+          </BreadcrumbItem>
+        </React.Fragment>
+      ))}
+    </BreadcrumbList>
+  </Breadcrumb>
+);
+
+export default FolderBreadcrumbs;
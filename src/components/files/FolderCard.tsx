@@ -0,0 +1,100 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { useNavigate } from 'react-router-dom';
+import { Folder as FolderIcon, FolderInput, MoreVertical, Pencil, Share2, Trash2, Users } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import AccessSummary from '@/components/files/AccessSummary';
+import type { AccessGrant } from '@/lib/access';
+import type { Folder } from '@/lib/folders';
+
+interface FolderCardProps {
+  folder: Folder;
+  itemCount: number;
+  // Other people who can open the folder
+  grants?: AccessGrant[];
+  onRename: (folder: Folder) => void;
+  onMove: (folder: Folder) => void;
+  onShare: (folder: Folder) => void;
+  onManageAccess: (folder: Folder) => void;
+  onDelete: (folder: Folder) => void;
+}
+
+const FolderCard: React.FC<FolderCardProps> = ({
+  folder,
+  itemCount,
+  grants,
+  onRename,
+  onMove,
+  onShare,
+  onManageAccess,
+  onDelete,
+}) => {
+  const navigate = useNavigate();
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, scale: 0.95 }}
+      animate={{ opacity: 1, scale: 1 }}
+      exit={{ opacity: 0, scale: 0.95 }}
+      whileHover={{ y: -3 }}
+    >
+      <Card
+        className="card-glass cursor-pointer hover:bg-glass-surface transition-colors"
+        onClick={() => navigate(`/files/${folder.id}`)}
+      >
+        <CardContent className="flex items-center p-4">
+          <div className="w-10 h-10 bg-gradient-secondary rounded-lg flex items-center justify-center mr-3 shrink-0">
+            <FolderIcon className="w-5 h-5 text-primary-foreground" />
+          </div>
+          <div className="flex-1 min-w-0">
+            <h3 className="font-semibold truncate">{folder.name}</h3>
+            <p className="text-xs text-muted-foreground">
+              {itemCount} {itemCount === 1 ? 'item' : 'items'}
+            </p>
+            <AccessSummary grants={grants} onClick={() => onManageAccess(folder)} className="mt-1" />
+          </div>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button size="icon" variant="ghost" onClick={(e) => e.stopPropagation()}>
+                <MoreVertical className="w-4 h-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+              <DropdownMenuItem onClick={() => onRename(folder)}>
+                <Pencil className="w-4 h-4 mr-2" />
+                Rename
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => onMove(folder)}>
+                <FolderInput className="w-4 h-4 mr-2" />
+                Move
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => onShare(folder)}>
+                <Share2 className="w-4 h-4 mr-2" />
+                Share
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => onManageAccess(folder)}>
+                <Users className="w-4 h-4 mr-2" />
+                Manage access
+              </DropdownMenuItem>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem className="text-destructive focus:text-destructive" onClick={() => onDelete(folder)}>
+                <Trash2 className="w-4 h-4 mr-2" />
+                Delete
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </CardContent>
+      </Card>
+    </motion.div>
+  );
+};
+
+export default FolderCard;
@@ -0,0 +1,23 @@
+import React from 'react';
+import type { DocumentMatch } from '@/lib/files';
+
+// Highlights come as character ranges so the snippet text is never treated as markup
+const HighlightedSnippet: React.FC<{ match: DocumentMatch }> = ({ match }) => {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+
+  match.highlights.forEach(({ start, end }, index) => {
+    if (start > cursor) parts.push(match.snippet.slice(cursor, start));
+    parts.push(
+      <mark key={index} className="bg-primary/20 text-foreground rounded px-0.5">
+        {match.snippet.slice(start, end)}
+      </mark>,
+    );
+    cursor = end;
+  });
+  parts.push(match.snippet.slice(cursor));
+
+  return <p className="text-sm text-muted-foreground line-clamp-2">{parts}</p>;
+};
+
+export default HighlightedSnippet;
@@ -0,0 +1,98 @@
+import React, { useEffect, useState } from 'react';
+import { Folder as FolderIcon, HardDrive } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useFiles } from '@/contexts/FileContext';
+import { cn } from '@/lib/utils';
+import { flattenFolderTree } from '@/lib/folders';
+
+interface MoveDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  itemName: string;
+  currentParentId: string | null;
+  // Folders that can't be chosen, such as a folder being moved and its subfolders
+  excludeIds?: Set<string>;
+  onMove: (parentId: string | null) => Promise<void>;
+}
+
+const MoveDialog: React.FC<MoveDialogProps> = ({
+  open,
+  onOpenChange,
+  itemName,
+  currentParentId,
+  excludeIds,
+  onMove,
+}) => {
+  const { folders } = useFiles();
+  const [target, setTarget] = useState<string | null>(currentParentId);
+  const [isMoving, setIsMoving] = useState(false);
+
+  useEffect(() => {
+    if (open) setTarget(currentParentId);
+  }, [open, currentParentId]);
+
+  const options = flattenFolderTree(folders).filter(({ folder }) => !excludeIds?.has(folder.id));
+
+  const handleMove = async () => {
+    setIsMoving(true);
+    try {
+      await onMove(target);
+      onOpenChange(false);
+    } catch {
+      // The caller reports the error
+    } finally {
+      setIsMoving(false);
+    }
+  };
+
+  const optionClass = (selected: boolean) =>
+    cn(
+      'flex w-full items-center rounded-md px-3 py-2 text-sm text-left transition-colors',
+      selected ? 'bg-primary text-primary-foreground' : 'hover:bg-accent',
+    );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="truncate">Move "{itemName}"</DialogTitle>
+        </DialogHeader>
+        <ScrollArea className="h-64 rounded-md border border-border p-1">
+          <button className={optionClass(target === null)} onClick={() => setTarget(null)}>
+            <HardDrive className="w-4 h-4 mr-2 shrink-0" />
+            My Files
+          </button>
+          {options.map(({ folder, depth }) => (
+            <button
+              key={folder.id}
+              className={optionClass(target === folder.id)}
+              style={{ paddingLeft: `${0.75 + (depth + 1) * 1.25}rem` }}
+              onClick={() => setTarget(folder.id)}
+            >
+              <FolderIcon className="w-4 h-4 mr-2 shrink-0" />
+              <span className="truncate">{folder.name}</span>
+            </button>
+          ))}
+        </ScrollArea>
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleMove} disabled={target === currentParentId || isMoving}>
+            Move here
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MoveDialog;
@@ -0,0 +1,53 @@
+import React from 'react';
+import { AlertCircle, Clock, Loader2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import type { CloudFile } from '@/contexts/FileContext';
+
+interface ProcessingIndicatorProps {
+  file: CloudFile;
+  className?: string;
+}
+
+const ProcessingIndicator: React.FC<ProcessingIndicatorProps> = ({ file, className }) => {
+  switch (file.processingStatus) {
+    case 'pending':
+      return (
+        <div className={className}>
+          <Badge variant="outline" className="text-muted-foreground">
+            <Clock className="w-3 h-3 mr-1" />
+            Queued for processing
+          </Badge>
+        </div>
+      );
+
+    case 'processing':
+      return (
+        <div className={className}>
+          <div className="flex items-center justify-between mb-1">
+            <Badge className="bg-amber-500/10 text-amber-500 border-amber-500/20">
+              <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+              Processing
+            </Badge>
+            <span className="text-xs text-muted-foreground">{file.processingProgress}%</span>
+          </div>
+          <Progress value={file.processingProgress} className="h-1" />
+        </div>
+      );
+
+    case 'failed':
+      return (
+        <div className={className}>
+          <Badge className="bg-destructive/10 text-destructive border-destructive/20">
+            <AlertCircle className="w-3 h-3 mr-1" />
+            Processing failed
+          </Badge>
+        </div>
+      );
+
+    default:
+      return null;
+  }
+};
+
+export default ProcessingIndicator;
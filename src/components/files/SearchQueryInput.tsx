@@ -0,0 +1,123 @@
+import React, { useRef, useState } from 'react';
+import { AlertCircle, Search } from 'lucide-react';
+import type { SearchQueryError } from '@shared/searchQuery';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+import { getQuerySuggestions, type QuerySuggestion } from '@/lib/searchSuggestions';
+
+interface SearchQueryInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  error: SearchQueryError | null;
+  // Offered as completions for tag:
+  tags: string[];
+}
+
+const SearchQueryInput: React.FC<SearchQueryInputProps> = ({ value, onChange, error, tags }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [cursor, setCursor] = useState(0);
+  const [isFocused, setIsFocused] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const suggestions = isFocused ? getQuerySuggestions(value, cursor, tags) : [];
+  const highlighted = Math.min(activeIndex, Math.max(suggestions.length - 1, 0));
+
+  const updateCursor = (input: HTMLInputElement) => {
+    setCursor(input.selectionStart ?? input.value.length);
+  };
+
+  const accept = (suggestion: QuerySuggestion) => {
+    // Field names stay open for a value; completed values get a space to start the next term
+    const insert = suggestion.replacement.endsWith(':') ? suggestion.replacement : `${suggestion.replacement} `;
+    const next = value.slice(0, suggestion.start) + insert + value.slice(suggestion.end).trimStart();
+    const position = suggestion.start + insert.length;
+
+    onChange(next);
+    setCursor(position);
+    setActiveIndex(0);
+    requestAnimationFrame(() => inputRef.current?.setSelectionRange(position, position));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (suggestions.length === 0) return;
+
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setActiveIndex((highlighted + 1) % suggestions.length);
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        setActiveIndex((highlighted - 1 + suggestions.length) % suggestions.length);
+        break;
+      case 'Enter':
+      case 'Tab':
+        e.preventDefault();
+        accept(suggestions[highlighted]);
+        break;
+      case 'Escape':
+        setIsFocused(false);
+        break;
+    }
+  };
+
+  return (
+    <div className="relative flex-1">
+      <Search className="absolute left-3 top-3 w-4 h-4 text-muted-foreground" />
+      <Input
+        ref={inputRef}
+        placeholder='Search files... try type:video size:>20MB uploaded:last-7d'
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          updateCursor(e.target);
+          setActiveIndex(0);
+        }}
+        onSelect={(e) => updateCursor(e.currentTarget)}
+        onFocus={() => setIsFocused(true)}
+        onBlur={() => setIsFocused(false)}
+        onKeyDown={handleKeyDown}
+        className={cn('pl-10', error && 'border-destructive focus-visible:ring-destructive')}
+        aria-invalid={!!error}
+        spellCheck={false}
+      />
+
+      {suggestions.length > 0 && (
+        <ul className="absolute z-20 mt-1 w-full rounded-md border border-border bg-popover p-1 shadow-lg">
+          {suggestions.map((suggestion, index) => (
+            <li
+              key={suggestion.label}
+              // Keeps focus in the input so the suggestion list doesn't close before the click lands
+              onMouseDown={(e) => {
+                e.preventDefault();
+                accept(suggestion);
+              }}
+              onMouseEnter={() => setActiveIndex(index)}
+              className={cn(
+                'flex items-center justify-between rounded-sm px-3 py-1.5 text-sm cursor-pointer',
+                index === highlighted && 'bg-accent text-accent-foreground',
+              )}
+            >
+              <span className="font-mono">{suggestion.label}</span>
+              {suggestion.description && (
+                <span className="text-xs text-muted-foreground">{suggestion.description}</span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {error && (
+        <p className="flex items-center mt-2 text-sm text-destructive">
+          <AlertCircle className="w-4 h-4 mr-1 shrink-0" />
+          {error.message}
+          {error.end > error.start && (
+            <code className="ml-2 rounded bg-destructive/10 px-1">{value.slice(error.start, error.end)}</code>
+          )}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default SearchQueryInput;
@@ -0,0 +1,160 @@
+import React, { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Link2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import ShareLinkRow from '@/components/files/ShareLinkRow';
+import { useToast } from '@/hooks/use-toast';
+import { createShareLink, fetchShareLinks, getShareUrl, SHARE_LINKS_QUERY_KEY } from '@/lib/shares';
+
+export interface ShareTarget {
+  kind: 'file' | 'folder';
+  id: string;
+  name: string;
+}
+
+interface ShareDialogProps {
+  // The dialog is open while there is something to share
+  target: ShareTarget | null;
+  onClose: () => void;
+}
+
+// An expiry date means the link works until the end of that day
+const endOfDay = (date: string) => new Date(`${date}T23:59:59`).toISOString();
+
+const ShareDialog: React.FC<ShareDialogProps> = ({ target, onClose }) => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [expiresOn, setExpiresOn] = useState('');
+  const [password, setPassword] = useState('');
+  const [maxDownloads, setMaxDownloads] = useState('');
+  const [previewOnly, setPreviewOnly] = useState(false);
+
+  useEffect(() => {
+    if (!target) return;
+    setExpiresOn('');
+    setPassword('');
+    setMaxDownloads('');
+    setPreviewOnly(false);
+  }, [target]);
+
+  const targetFilter = target && (target.kind === 'file' ? { fileId: target.id } : { folderId: target.id });
+
+  const { data: links = [] } = useQuery({
+    queryKey: [...SHARE_LINKS_QUERY_KEY, target?.kind, target?.id],
+    queryFn: () => fetchShareLinks(targetFilter!),
+    enabled: target !== null,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: () => createShareLink({
+      ...targetFilter!,
+      expiresAt: expiresOn ? endOfDay(expiresOn) : null,
+      password: password || undefined,
+      maxDownloads: maxDownloads ? Number(maxDownloads) : null,
+      previewOnly,
+    }),
+    onSuccess: async link => {
+      queryClient.invalidateQueries({ queryKey: SHARE_LINKS_QUERY_KEY });
+      setPassword('');
+      const copied = await navigator.clipboard.writeText(getShareUrl(link.token)).then(() => true, () => false);
+      toast({
+        title: "Link Created",
+        description: copied ? 'The link has been copied to your clipboard' : getShareUrl(link.token),
+      });
+    },
+    onError: error => {
+      toast({
+        title: "Couldn't Create Link",
+        description: error instanceof Error ? error.message : 'Please try again',
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    createMutation.mutate();
+  };
+
+  return (
+    <Dialog open={target !== null} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="truncate">Share "{target?.name}"</DialogTitle>
+          <DialogDescription>
+            Anyone with the link can {target?.kind === 'folder' ? 'browse this folder' : 'open this file'} without an account.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="share-expires">Expires on</Label>
+              <Input
+                id="share-expires"
+                type="date"
+                value={expiresOn}
+                min={new Date().toISOString().slice(0, 10)}
+                onChange={e => setExpiresOn(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="share-downloads">Download limit</Label>
+              <Input
+                id="share-downloads"
+                type="number"
+                min={1}
+                placeholder="Unlimited"
+                value={maxDownloads}
+                onChange={e => setMaxDownloads(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="share-password">Password</Label>
+            <Input
+              id="share-password"
+              type="password"
+              autoComplete="new-password"
+              placeholder="No password, or 8+ characters"
+              value={password}
+              onChange={e => setPassword(e.target.value)}
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="share-preview-only">Preview only</Label>
+              <p className="text-xs text-muted-foreground">Visitors can play or read, but not download</p>
+            </div>
+            <Switch id="share-preview-only" checked={previewOnly} onCheckedChange={setPreviewOnly} />
+          </div>
+          <Button type="submit" variant="hero" className="w-full" disabled={createMutation.isPending}>
+            <Link2 className="w-4 h-4 mr-2" />
+            Create Link
+          </Button>
+        </form>
+
+        {links.length > 0 && (
+          <div className="space-y-2 pt-2">
+            <h3 className="text-sm font-medium">Active links</h3>
+            {links.map(link => (
+              <ShareLinkRow key={link.id} link={link} />
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ShareDialog;
@@ -0,0 +1,94 @@
+import React from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Copy, Eye, Lock, Trash2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { getShareUrl, revokeShareLink, SHARE_LINKS_QUERY_KEY, type ShareLink } from '@/lib/shares';
+
+const describeLimits = (link: ShareLink) => [
+  link.expiresAt ? `Expires ${new Date(link.expiresAt).toLocaleString()}` : 'Never expires',
+  link.maxDownloads !== null
+    ? `${link.downloadCount} of ${link.maxDownloads} downloads used`
+    : `${link.downloadCount} ${link.downloadCount === 1 ? 'download' : 'downloads'}`,
+];
+
+interface ShareLinkRowProps {
+  link: ShareLink;
+  // Shown when links for several files and folders are listed together
+  showTarget?: boolean;
+}
+
+const ShareLinkRow: React.FC<ShareLinkRowProps> = ({ link, showTarget = false }) => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const revokeMutation = useMutation({
+    mutationFn: () => revokeShareLink(link.id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: SHARE_LINKS_QUERY_KEY });
+      toast({
+        title: "Link Revoked",
+        description: 'Anyone using it will no longer have access',
+      });
+    },
+    onError: error => {
+      toast({
+        title: "Revoke Failed",
+        description: error instanceof Error ? error.message : 'Please try again',
+        variant: "destructive",
+      });
+    },
+  });
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(getShareUrl(link.token));
+      toast({ title: "Link Copied", description: 'The share link is on your clipboard' });
+    } catch {
+      toast({ title: "Copy Failed", description: getShareUrl(link.token), variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-between gap-3 rounded-lg border border-glass-border p-3">
+      <div className="min-w-0 space-y-1">
+        {showTarget && <p className="font-medium truncate">{link.targetName}</p>}
+        <p className="text-sm font-mono truncate">{getShareUrl(link.token)}</p>
+        <p className="text-xs text-muted-foreground">{describeLimits(link).join(' • ')}</p>
+        {(link.hasPassword || link.previewOnly) && (
+          <div className="flex gap-1">
+            {link.hasPassword && (
+              <Badge variant="secondary">
+                <Lock className="w-3 h-3 mr-1" />
+                Password
+              </Badge>
+            )}
+            {link.previewOnly && (
+              <Badge variant="secondary">
+                <Eye className="w-3 h-3 mr-1" />
+                Preview only
+              </Badge>
+            )}
+          </div>
+        )}
+      </div>
+      <div className="flex items-center shrink-0">
+        <Button size="sm" variant="ghost" title="Copy link" onClick={copyLink}>
+          <Copy className="w-4 h-4" />
+        </Button>
+        <Button
+          size="sm"
+          variant="ghost"
+          title="Revoke link"
+          disabled={revokeMutation.isPending}
+          onClick={() => revokeMutation.mutate()}
+        >
+          <Trash2 className="w-4 h-4" />
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default ShareLinkRow;
@@ -0,0 +1,198 @@
+import React, { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Captions, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from '@/components/ui/sheet';
+import type { CloudFile } from '@/contexts/FileContext';
+import { useSubtitles } from '@/hooks/use-subtitles';
+import { useToast } from '@/hooks/use-toast';
+import { attachSubtitles, removeSubtitles, subtitlesQueryKey, type SubtitleTrack } from '@/lib/subtitles';
+import {
+  describeLanguage,
+  guessSubtitleLanguage,
+  isSubtitleFile,
+  MAX_SUBTITLE_SIZE,
+  SUBTITLE_EXTENSIONS,
+} from '@shared/subtitles';
+
+interface SubtitlesManagerProps {
+  file: CloudFile;
+  iconClassName?: string;
+}
+
+// Lists a video's caption tracks and adds new ones from .vtt or .srt files
+const SubtitlesManager: React.FC<SubtitlesManagerProps> = ({ file, iconClassName = 'w-3 h-3' }) => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [subtitleFile, setSubtitleFile] = useState<File | null>(null);
+  const [language, setLanguage] = useState('');
+  const [label, setLabel] = useState('');
+  const [inputKey, setInputKey] = useState(0);
+
+  const { data: tracks = [], isLoading } = useSubtitles(open ? file.id : undefined);
+
+  const reportError = (title: string, error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : 'Please try again',
+      variant: "destructive",
+    });
+  };
+
+  const resetForm = () => {
+    setSubtitleFile(null);
+    setLanguage('');
+    setLabel('');
+    // Clears the file input, which can't be controlled
+    setInputKey(key => key + 1);
+  };
+
+  const addMutation = useMutation({
+    mutationFn: () => attachSubtitles(file.id, subtitleFile!, language.trim(), label.trim() || undefined),
+    onSuccess: track => {
+      queryClient.invalidateQueries({ queryKey: subtitlesQueryKey(file.id) });
+      resetForm();
+      toast({
+        title: "Subtitles Added",
+        description: `${track.label} captions are now available on ${file.name}`,
+      });
+    },
+    onError: error => reportError("Couldn't Add Subtitles", error),
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: (track: SubtitleTrack) => removeSubtitles(file.id, track.id),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: subtitlesQueryKey(file.id) }),
+    onError: error => reportError('Remove Failed', error),
+  });
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const picked = event.target.files?.[0] ?? null;
+    if (picked && !isSubtitleFile(picked.name)) {
+      toast({
+        title: "Unsupported File Type",
+        description: `${picked.name} is not a WebVTT (.vtt) or SubRip (.srt) file.`,
+        variant: "destructive",
+      });
+      setInputKey(key => key + 1);
+      return;
+    }
+    if (picked && picked.size > MAX_SUBTITLE_SIZE) {
+      toast({
+        title: "File Too Large",
+        description: `${picked.name} is too large. Subtitle files can be up to ${MAX_SUBTITLE_SIZE / 1024 / 1024} MB.`,
+        variant: "destructive",
+      });
+      setInputKey(key => key + 1);
+      return;
+    }
+
+    setSubtitleFile(picked);
+    // Names like "movie.en.srt" say which language they are
+    const guessed = picked && guessSubtitleLanguage(picked.name);
+    if (guessed) setLanguage(guessed);
+  };
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (subtitleFile && language.trim()) addMutation.mutate();
+  };
+
+  const replaces = tracks.find(track => track.language.toLowerCase() === language.trim().toLowerCase());
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Button size="sm" variant="ghost" title="Subtitles">
+          <Captions className={iconClassName} />
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="w-full sm:max-w-lg overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Subtitles</SheetTitle>
+          <SheetDescription className="truncate">
+            Caption tracks for {file.name}, one per language
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-6 space-y-2">
+          {isLoading && <p className="text-sm text-muted-foreground">Loading subtitles...</p>}
+          {!isLoading && tracks.length === 0 && (
+            <p className="text-sm text-muted-foreground">This video has no subtitles yet</p>
+          )}
+          {tracks.map(track => (
+            <div key={track.id} className="flex items-center justify-between gap-2 rounded-lg border border-glass-border p-3">
+              <div className="min-w-0">
+                <p className="font-medium truncate">{track.label}</p>
+                <p className="text-sm text-muted-foreground">{track.language}</p>
+              </div>
+              <Button
+                size="sm"
+                variant="ghost"
+                title="Remove"
+                disabled={removeMutation.isPending}
+                onClick={() => removeMutation.mutate(track)}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <form onSubmit={handleSubmit} className="mt-6 space-y-4 rounded-lg border border-glass-border p-4">
+          <div className="space-y-2">
+            <Label htmlFor={`subtitle-file-${file.id}`}>Subtitle file</Label>
+            <Input
+              key={inputKey}
+              id={`subtitle-file-${file.id}`}
+              type="file"
+              accept={SUBTITLE_EXTENSIONS.join(',')}
+              onChange={handleFileChange}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor={`subtitle-language-${file.id}`}>Language code</Label>
+              <Input
+                id={`subtitle-language-${file.id}`}
+                placeholder="e.g. en or pt-BR"
+                value={language}
+                maxLength={35}
+                onChange={event => setLanguage(event.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`subtitle-label-${file.id}`}>Label</Label>
+              <Input
+                id={`subtitle-label-${file.id}`}
+                placeholder={language.trim() ? describeLanguage(language.trim()) : 'Shown in the player'}
+                value={label}
+                maxLength={100}
+                onChange={event => setLabel(event.target.value)}
+              />
+            </div>
+          </div>
+          {replaces && (
+            <p className="text-xs text-muted-foreground">This replaces the existing {replaces.label} track</p>
+          )}
+          <Button type="submit" variant="glass" disabled={!subtitleFile || !language.trim() || addMutation.isPending}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add subtitles
+          </Button>
+        </form>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default SubtitlesManager;
@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import { Tag, X } from 'lucide-react';
+import { normalizeTag } from '@shared/searchQuery';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useFiles, type CloudFile } from '@/contexts/FileContext';
+import { useToast } from '@/hooks/use-toast';
+
+const TagEditor: React.FC<{ file: CloudFile }> = ({ file }) => {
+  const { updateTags } = useFiles();
+  const { toast } = useToast();
+  const [draft, setDraft] = useState('');
+
+  const save = async (tags: string[]) => {
+    try {
+      await updateTags(file.id, tags);
+    } catch (error) {
+      toast({
+        title: "Couldn't update tags",
+        description: error instanceof Error ? error.message : 'Please try again',
+        variant: "destructive",
+      });
+    }
+  };
+
+  const addTag = async () => {
+    const tag = normalizeTag(draft);
+    if (!tag) return;
+    setDraft('');
+    if (!file.tags.includes(tag)) {
+      await save([...file.tags, tag]);
+    }
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button size="sm" variant="ghost" title="Edit tags">
+          <Tag className="w-3 h-3" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64">
+        <p className="text-sm font-medium mb-2">Tags</p>
+        <div className="flex flex-wrap gap-1 mb-3">
+          {file.tags.length === 0 && <span className="text-xs text-muted-foreground">No tags yet</span>}
+          {file.tags.map(tag => (
+            <Badge key={tag} variant="secondary" className="pr-1">
+              {tag}
+              <button
+                className="ml-1 rounded-sm opacity-70 hover:opacity-100"
+                onClick={() => save(file.tags.filter(existing => existing !== tag))}
+                aria-label={`Remove tag ${tag}`}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+        <Input
+          placeholder="Add a tag and press Enter"
+          value={draft}
+          maxLength={40}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              addTag();
+            }
+          }}
+        />
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default TagEditor;
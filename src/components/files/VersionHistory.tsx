@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Download, Eye, EyeOff, History, RotateCcw } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from '@/components/ui/sheet';
+import { useFiles, type CloudFile } from '@/contexts/FileContext';
+import { useToast } from '@/hooks/use-toast';
+import { describeMetadata } from '@/lib/metadata';
+import { fetchVersions, versionsQueryKey, type FileVersion } from '@/lib/versions';
+
+const formatBytes = (bytes: number) => {
+  if (bytes === 0) return '0 B';
+  const k = 1024;
+  const sizes = ['B', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+};
+
+const VersionPreview: React.FC<{ version: FileVersion }> = ({ version }) => {
+  switch (version.type) {
+    case 'video':
+      return <video src={version.url} poster={version.thumbnail} controls preload="metadata" className="w-full rounded-md bg-black" />;
+    case 'audio':
+      return <audio src={version.url} controls preload="metadata" className="w-full" />;
+    case 'pdf':
+      return <iframe src={version.url} title={`Version ${version.number}`} className="w-full h-80 rounded-md border-0 bg-white" />;
+  }
+};
+
+interface VersionHistoryProps {
+  file: CloudFile;
+  // For people who can look through the history but not change which version is current
+  readOnly?: boolean;
+}
+
+const VersionHistory: React.FC<VersionHistoryProps> = ({ file, readOnly = false }) => {
+  const { promoteVersion } = useFiles();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [previewId, setPreviewId] = useState<string | null>(null);
+  const [promotingId, setPromotingId] = useState<string | null>(null);
+
+  const { data: versions = [], isLoading } = useQuery({
+    queryKey: versionsQueryKey(file.id),
+    queryFn: () => fetchVersions(file.id),
+    enabled: open,
+  });
+
+  const promote = async (version: FileVersion) => {
+    setPromotingId(version.id);
+    try {
+      await promoteVersion(file.id, version.id);
+      setPreviewId(null);
+      toast({
+        title: "Version Restored",
+        description: `Version ${version.number} of ${file.name} is current again`,
+      });
+    } catch (error) {
+      toast({
+        title: "Restore Failed",
+        description: error instanceof Error ? error.message : 'Please try again',
+        variant: "destructive",
+      });
+    } finally {
+      setPromotingId(null);
+    }
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Button size="sm" variant="ghost" title="Version history">
+          <History className="w-3 h-3" />
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="w-full sm:max-w-lg overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Version history</SheetTitle>
+          <SheetDescription className="truncate">
+            Uploading a file with the same name to the same folder adds a new version of {file.name}
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-6 space-y-3">
+          {isLoading && <p className="text-sm text-muted-foreground">Loading versions...</p>}
+          {versions.map(version => (
+            <div key={version.id} className="rounded-lg border border-glass-border p-3 space-y-3">
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">Version {version.number}</span>
+                    {version.current && <Badge variant="secondary">Current</Badge>}
+                  </div>
+                  <p className="text-sm text-muted-foreground truncate">
+                    {[formatBytes(version.size), version.uploadDate.toLocaleString(), ...describeMetadata(version.metadata)].join(' • ')}
+                  </p>
+                </div>
+                <div className="flex items-center shrink-0">
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    title={previewId === version.id ? 'Hide preview' : 'Preview'}
+                    onClick={() => setPreviewId(previewId === version.id ? null : version.id)}
+                  >
+                    {previewId === version.id ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                  </Button>
+                  <Button size="sm" variant="ghost" title="Download" asChild>
+                    <a href={version.downloadUrl} download={file.name}>
+                      <Download className="w-4 h-4" />
+                    </a>
+                  </Button>
+                  {!version.current && !readOnly && (
+                    <Button
+                      size="sm"
+                      variant="glass"
+                      disabled={promotingId !== null}
+                      onClick={() => promote(version)}
+                    >
+                      <RotateCcw className="w-4 h-4 mr-1" />
+                      Make current
+                    </Button>
+                  )}
+                </div>
+              </div>
+              {previewId === version.id && <VersionPreview version={version} />}
+            </div>
+          ))}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default VersionHistory;
@@ -1,19 +1,43 @@
 import React from 'react';
 import { motion } from 'framer-motion';
 import { NavLink } from 'react-router-dom';
-import { Home, Upload, FolderOpen, LogOut, Sun, Moon, Play } from 'lucide-react';
+import { Home, Upload, FolderOpen, LogOut, Sun, Moon, Play, Trash2, Link2, Users, ListVideo } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import { useAuth } from '@/contexts/AuthContext';
 import { useTheme } from '@/contexts/ThemeContext';
+import { useToast } from '@/hooks/use-toast';
 
 const Navbar: React.FC = () => {
-  const { user, logout } = useAuth();
+  const { user, logout, logoutEverywhere } = useAuth();
   const { theme, toggleTheme } = useTheme();
+  const { toast } = useToast();
+
+  const handleLogoutEverywhere = async () => {
+    try {
+      await logoutEverywhere();
+    } catch (error) {
+      toast({
+        title: "Logout Failed",
+        description: error instanceof Error ? error.message : "Could not sign out your other devices.",
+        variant: "destructive",
+      });
+    }
+  };
 
   const navItems = [
     { to: '/dashboard', icon: Home, label: 'Home' },
     { to: '/upload', icon: Upload, label: 'Upload' },
     { to: '/files', icon: FolderOpen, label: 'My Files' },
+    { to: '/shared', icon: Users, label: 'Shared with me' },
+    { to: '/playlists', icon: ListVideo, label: 'Playlists' },
+    { to: '/trash', icon: Trash2, label: 'Trash' },
+    { to: '/links', icon: Link2, label: 'Links' },
   ];
 
   const getLinkClassName = (isActive: boolean) => 
@@ -79,14 +103,21 @@ const Navbar: React.FC = () => {
             </div>
 
             {/* Logout */}
-            <Button
-              variant="ghost"
-              size="icon"
-              onClick={logout}
-              className="text-muted-foreground hover:text-destructive"
-            >
-              <LogOut className="w-4 h-4" />
-            </Button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="text-muted-foreground hover:text-destructive"
+                >
+                  <LogOut className="w-4 h-4" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={logout}>Log out</DropdownMenuItem>
+                <DropdownMenuItem onClick={handleLogoutEverywhere}>Log out everywhere</DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
           </div>
         </div>
       </div>
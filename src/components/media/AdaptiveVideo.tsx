@@ -0,0 +1,64 @@
+import React, { forwardRef, useEffect, useImperativeHandle, useRef, useState } from 'react';
+import Hls from 'hls.js';
+
+interface AdaptiveVideoProps extends React.VideoHTMLAttributes<HTMLVideoElement> {
+  // The original upload, played until an adaptive stream exists or if it fails
+  src: string;
+  hlsSrc?: string;
+}
+
+const supportsNativeHls = () =>
+  document.createElement('video').canPlayType('application/vnd.apple.mpegurl') !== '';
+
+const AdaptiveVideo = forwardRef<HTMLVideoElement, AdaptiveVideoProps>(({ src, hlsSrc, preload, ...props }, ref) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [hlsFailed, setHlsFailed] = useState(false);
+
+  useImperativeHandle(ref, () => videoRef.current as HTMLVideoElement);
+
+  const useHlsJs = Boolean(hlsSrc) && !hlsFailed && Hls.isSupported();
+  const nativeSrc = hlsSrc && !hlsFailed && !useHlsJs && supportsNativeHls() ? hlsSrc : src;
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !useHlsJs) return;
+
+    const deferLoading = preload === 'none';
+    const hls = new Hls({
+      autoStartLoad: !deferLoading,
+      // Segments are behind the same cookie session as the rest of the API
+      xhrSetup: (xhr) => {
+        xhr.withCredentials = true;
+      },
+    });
+
+    const startLoad = () => hls.startLoad();
+    if (deferLoading) {
+      video.addEventListener('play', startLoad, { once: true });
+    }
+
+    hls.on(Hls.Events.ERROR, (_event, data) => {
+      if (data.fatal) setHlsFailed(true);
+    });
+    hls.loadSource(hlsSrc);
+    hls.attachMedia(video);
+
+    return () => {
+      video.removeEventListener('play', startLoad);
+      hls.destroy();
+    };
+  }, [hlsSrc, useHlsJs, preload]);
+
+  return (
+    <video
+      ref={videoRef}
+      src={useHlsJs ? undefined : nativeSrc}
+      preload={preload}
+      {...props}
+    />
+  );
+});
+
+AdaptiveVideo.displayName = 'AdaptiveVideo';
+
+export default AdaptiveVideo;
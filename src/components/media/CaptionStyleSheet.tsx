@@ -0,0 +1,43 @@
+import React from 'react';
+import type { CaptionStyle } from '@shared/captionStyle';
+import { useCaptionStyle } from '@/hooks/use-caption-style';
+
+// Relative to the browser's own cue size, which already scales with the video
+const FONT_SIZES: Record<CaptionStyle['size'], string> = {
+  small: '75%',
+  medium: '100%',
+  large: '125%',
+  'x-large': '150%',
+};
+
+const COLORS: Record<CaptionStyle['color'], string> = {
+  white: '#ffffff',
+  yellow: '#ffff00',
+  cyan: '#00ffff',
+  green: '#00ff00',
+};
+
+const BACKGROUNDS: Record<CaptionStyle['background'], string> = {
+  none: 'transparent',
+  translucent: 'rgba(0, 0, 0, 0.6)',
+  solid: '#000000',
+};
+
+// ::cue can't be set inline, so the user's caption style is applied to every video from here
+const CaptionStyleSheet: React.FC = () => {
+  const { captionStyle } = useCaptionStyle();
+
+  return (
+    <style>
+      {`video::cue {
+        font-size: ${FONT_SIZES[captionStyle.size]};
+        color: ${COLORS[captionStyle.color]};
+        background-color: ${BACKGROUNDS[captionStyle.background]};
+        font-family: ${captionStyle.font};
+        ${captionStyle.background === 'none' ? 'text-shadow: 0 0 4px #000, 0 0 2px #000;' : ''}
+      }`}
+    </style>
+  );
+};
+
+export default CaptionStyleSheet;
@@ -0,0 +1,81 @@
+import React from 'react';
+import ResumeNotice from '@/components/media/ResumeNotice';
+import VideoPlayer from '@/components/media/VideoPlayer';
+import type { CloudFile } from '@/contexts/FileContext';
+import { usePlaybackResume } from '@/hooks/use-playback-resume';
+import type { SubtitleTrack } from '@/lib/subtitles';
+
+interface PreviewableFile {
+  id: string;
+  name: string;
+  type: CloudFile['type'];
+  url: string;
+  hlsUrl?: string;
+  thumbnail?: string;
+}
+
+interface MediaPreviewProps {
+  file: PreviewableFile;
+  // Hides the players' own download affordances when false
+  allowDownload?: boolean;
+  // Resumes from, and saves, the signed-in user's position in the file
+  rememberPosition?: boolean;
+  // Fetched by the page, since signed-in users and share link visitors get them from different routes
+  subtitles?: SubtitleTrack[];
+}
+
+// A full-size player or reader for one file
+const MediaPreview: React.FC<MediaPreviewProps> = ({
+  file,
+  allowDownload = true,
+  rememberPosition = false,
+  subtitles,
+}) => {
+  const controlsList = allowDownload ? undefined : 'nodownload';
+  const { resumedAt, startOver, mediaEvents } = usePlaybackResume(
+    rememberPosition && file.type !== 'pdf' ? file.id : undefined,
+  );
+  const resumeNotice = resumedAt !== null && <ResumeNotice resumedAt={resumedAt} onStartOver={startOver} />;
+
+  switch (file.type) {
+    case 'video':
+      return (
+        <div className="space-y-2">
+          <VideoPlayer
+            key={file.id}
+            src={file.url}
+            hlsSrc={file.hlsUrl}
+            poster={file.thumbnail}
+            preload="metadata"
+            className="w-full rounded-lg"
+            videoClassName="max-h-[70vh]"
+            subtitles={subtitles}
+            onContextMenu={allowDownload ? undefined : event => event.preventDefault()}
+            {...mediaEvents}
+          />
+          {resumeNotice}
+        </div>
+      );
+    case 'audio':
+      return (
+        <div className="space-y-4">
+          {file.thumbnail && (
+            <img src={file.thumbnail} alt="" className="w-48 h-48 object-cover rounded-lg mx-auto" />
+          )}
+          <audio key={file.id} src={file.url} controls controlsList={controlsList} className="w-full" {...mediaEvents} />
+          {resumeNotice}
+        </div>
+      );
+    case 'pdf':
+      return (
+        <iframe
+          key={file.id}
+          src={allowDownload ? file.url : `${file.url}#toolbar=0`}
+          title={file.name}
+          className="w-full h-[75vh] rounded-lg border-0 bg-white"
+        />
+      );
+  }
+};
+
+export default MediaPreview;
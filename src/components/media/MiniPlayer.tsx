@@ -0,0 +1,221 @@
+import React from 'react';
+import {
+  FileAudio,
+  ListMusic,
+  Maximize2,
+  Minimize2,
+  Pause,
+  Play,
+  Repeat,
+  Repeat1,
+  Shuffle,
+  SkipBack,
+  SkipForward,
+  X,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Switch } from '@/components/ui/switch';
+import ResumeNotice from '@/components/media/ResumeNotice';
+import VideoPlayer from '@/components/media/VideoPlayer';
+import { usePlayer } from '@/contexts/PlayerContext';
+import { usePlaybackResume } from '@/hooks/use-playback-resume';
+import { useSubtitles } from '@/hooks/use-subtitles';
+import { describeTrack } from '@/lib/metadata';
+
+/**
+ * The app-wide player, docked under the navigation bar. It renders the one media
+ * element that plays whatever is queued, so playback carries on across pages.
+ * Expanding only restyles it; the element itself is never remounted.
+ */
+const MiniPlayer: React.FC = () => {
+  const {
+    queue,
+    current,
+    currentIndex,
+    isPlaying,
+    isExpanded,
+    hasNext,
+    shuffle,
+    repeat,
+    autoplayNext,
+    playAt,
+    removeFromQueue,
+    next,
+    previous,
+    togglePlay,
+    toggleShuffle,
+    cycleRepeat,
+    setAutoplayNext,
+    handleEnded,
+    setExpanded,
+    close,
+    attachMedia,
+    setIsPlaying,
+  } = usePlayer();
+  const { resumedAt, startOver, mediaEvents: resumeEvents } = usePlaybackResume(current?.id);
+  const { data: subtitles } = useSubtitles(current?.type === 'video' ? current.id : undefined);
+
+  if (!current) return null;
+
+  const mediaEvents = {
+    ...resumeEvents,
+    autoPlay: true,
+    onPlay: () => setIsPlaying(true),
+    onPause: (event: React.SyntheticEvent<HTMLMediaElement>) => {
+      setIsPlaying(false);
+      resumeEvents.onPause(event);
+    },
+    onEnded: (event: React.SyntheticEvent<HTMLMediaElement>) => {
+      setIsPlaying(false);
+      resumeEvents.onEnded(event);
+      handleEnded();
+    },
+  };
+
+  return (
+    <div
+      className={
+        isExpanded
+          ? 'fixed inset-0 z-[60] bg-background/95 backdrop-blur-md'
+          : 'sticky top-16 z-40 bg-glass-surface backdrop-blur-md border-b border-glass-border'
+      }
+    >
+      <div
+        className={
+          isExpanded
+            ? 'h-full max-w-5xl mx-auto p-8 flex flex-col items-center justify-center gap-6'
+            : 'max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 h-16 flex items-center gap-4'
+        }
+      >
+        <div
+          className={`relative overflow-hidden rounded-lg shrink-0 ${current.type === 'video' ? 'bg-black' : ''} ${
+            isExpanded ? 'w-full max-h-[70vh] flex items-center justify-center' : 'w-20 h-12'
+          }`}
+        >
+          {current.type === 'video' ? (
+            <VideoPlayer
+              key={current.id}
+              ref={attachMedia}
+              src={current.url}
+              hlsSrc={current.hlsUrl}
+              poster={current.thumbnail}
+              controls={isExpanded}
+              subtitles={subtitles}
+              className={isExpanded ? 'w-full' : 'w-full h-full'}
+              videoClassName={isExpanded ? 'max-h-[70vh]' : 'object-cover cursor-pointer'}
+              onClick={isExpanded ? undefined : () => setExpanded(true)}
+              {...mediaEvents}
+            />
+          ) : (
+            <>
+              {current.thumbnail ? (
+                <img
+                  src={current.thumbnail}
+                  alt=""
+                  className={isExpanded ? 'w-72 h-72 object-cover' : 'w-full h-full object-cover'}
+                />
+              ) : (
+                <div className={`flex items-center justify-center bg-gradient-secondary ${isExpanded ? 'w-72 h-72' : 'w-full h-full'}`}>
+                  <FileAudio className={isExpanded ? 'w-24 h-24 text-primary-foreground' : 'w-6 h-6 text-primary-foreground'} />
+                </div>
+              )}
+              <audio key={current.id} ref={attachMedia} src={current.url} {...mediaEvents} />
+            </>
+          )}
+        </div>
+
+        <div className={`min-w-0 ${isExpanded ? 'text-center' : 'flex-1'}`}>
+          <p className={`font-medium truncate ${isExpanded ? 'text-2xl' : 'text-sm'}`}>{current.name}</p>
+          {resumedAt !== null ? (
+            <ResumeNotice resumedAt={resumedAt} onStartOver={startOver} className={isExpanded ? 'justify-center' : ''} />
+          ) : (
+            <p className="text-xs text-muted-foreground truncate">
+              {describeTrack(current.metadata) ?? `${currentIndex + 1} of ${queue.length}`}
+            </p>
+          )}
+        </div>
+
+        <div className="flex items-center space-x-1 shrink-0">
+          <Button
+            size="icon"
+            variant="ghost"
+            title={shuffle ? 'Turn shuffle off' : 'Shuffle'}
+            className={shuffle ? 'text-primary' : ''}
+            onClick={toggleShuffle}
+          >
+            <Shuffle className="w-4 h-4" />
+          </Button>
+          <Button size="icon" variant="ghost" title="Previous" onClick={previous}>
+            <SkipBack className="w-4 h-4" />
+          </Button>
+          <Button size="icon" variant="hero" title={isPlaying ? 'Pause' : 'Play'} onClick={togglePlay}>
+            {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+          </Button>
+          <Button size="icon" variant="ghost" title="Next" disabled={!hasNext} onClick={next}>
+            <SkipForward className="w-4 h-4" />
+          </Button>
+          <Button
+            size="icon"
+            variant="ghost"
+            title={repeat === 'off' ? 'Repeat' : repeat === 'all' ? 'Repeat one' : 'Turn repeat off'}
+            className={repeat === 'off' ? '' : 'text-primary'}
+            onClick={cycleRepeat}
+          >
+            {repeat === 'one' ? <Repeat1 className="w-4 h-4" /> : <Repeat className="w-4 h-4" />}
+          </Button>
+
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button size="icon" variant="ghost" title="Queue">
+                <ListMusic className="w-4 h-4" />
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent align="end" className="w-80 max-h-96 overflow-y-auto p-2 z-[70]">
+              <div className="flex items-center justify-between px-2 py-1">
+                <p className="text-sm font-medium">Up next</p>
+                <div className="flex items-center space-x-2">
+                  <Switch id="player-autoplay" checked={autoplayNext} onCheckedChange={setAutoplayNext} />
+                  <Label htmlFor="player-autoplay" className="text-xs text-muted-foreground">Autoplay</Label>
+                </div>
+              </div>
+              {queue.map((item, index) => (
+                <div
+                  key={item.id}
+                  className={`flex items-center rounded-md ${index === currentIndex ? 'bg-primary/10' : 'hover:bg-glass-surface'}`}
+                >
+                  <button
+                    type="button"
+                    className="flex-1 min-w-0 text-left text-sm px-2 py-1.5 truncate"
+                    onClick={() => playAt(index)}
+                  >
+                    <span className="text-muted-foreground mr-2">{index + 1}</span>
+                    {item.name}
+                  </button>
+                  <Button size="sm" variant="ghost" title="Remove from queue" onClick={() => removeFromQueue(item.id)}>
+                    <X className="w-3 h-3" />
+                  </Button>
+                </div>
+              ))}
+            </PopoverContent>
+          </Popover>
+
+          <Button
+            size="icon"
+            variant="ghost"
+            title={isExpanded ? 'Minimize' : 'Expand'}
+            onClick={() => setExpanded(!isExpanded)}
+          >
+            {isExpanded ? <Minimize2 className="w-4 h-4" /> : <Maximize2 className="w-4 h-4" />}
+          </Button>
+          <Button size="icon" variant="ghost" title="Close player" onClick={close}>
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MiniPlayer;
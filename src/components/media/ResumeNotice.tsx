@@ -0,0 +1,23 @@
+import React from 'react';
+import { RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { formatDuration } from '@/lib/metadata';
+
+interface ResumeNoticeProps {
+  resumedAt: number;
+  onStartOver: () => void;
+  className?: string;
+}
+
+// Says where playback picked up from, with a way back to the beginning
+const ResumeNotice: React.FC<ResumeNoticeProps> = ({ resumedAt, onStartOver, className = '' }) => (
+  <div className={`flex items-center gap-2 text-xs text-muted-foreground ${className}`}>
+    <span>Resumed at {formatDuration(Math.floor(resumedAt))}</span>
+    <Button size="sm" variant="ghost" className="h-6 px-2 text-xs" onClick={onStartOver}>
+      <RotateCcw className="w-3 h-3 mr-1" />
+      Start over
+    </Button>
+  </div>
+);
+
+export default ResumeNotice;
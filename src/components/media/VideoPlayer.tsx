@@ -0,0 +1,453 @@
+import React, { forwardRef, useCallback, useEffect, useImperativeHandle, useRef, useState } from 'react';
+import {
+  Captions,
+  Gauge,
+  Maximize,
+  Minimize,
+  Pause,
+  PictureInPicture2,
+  Play,
+  Volume1,
+  Volume2,
+  VolumeX,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Slider } from '@/components/ui/slider';
+import AdaptiveVideo from '@/components/media/AdaptiveVideo';
+import { useCaptionStyle } from '@/hooks/use-caption-style';
+import { formatDuration } from '@/lib/metadata';
+import type { SubtitleTrack } from '@/lib/subtitles';
+import {
+  CAPTION_BACKGROUNDS,
+  CAPTION_COLORS,
+  CAPTION_FONTS,
+  CAPTION_SIZES,
+  type CaptionStyle,
+} from '@shared/captionStyle';
+
+const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5, 2];
+const SEEK_STEP_SECONDS = 5;
+const JUMP_STEP_SECONDS = 10;
+const VOLUME_STEP = 0.1;
+const CAPTIONS_OFF = 'off';
+const NO_SUBTITLES: SubtitleTrack[] = [];
+
+const CAPTION_STYLE_OPTIONS = [
+  { key: 'size', label: 'Size', values: CAPTION_SIZES },
+  { key: 'color', label: 'Color', values: CAPTION_COLORS },
+  { key: 'background', label: 'Background', values: CAPTION_BACKGROUNDS },
+  { key: 'font', label: 'Font', values: CAPTION_FONTS },
+] as const;
+
+const describeOption = (value: string) => (value.charAt(0).toUpperCase() + value.slice(1)).replace('-', ' ');
+
+interface VideoPlayerProps extends Omit<React.VideoHTMLAttributes<HTMLVideoElement>, 'controls' | 'className'> {
+  src: string;
+  hlsSrc?: string;
+  // Off to show the bare picture, e.g. while docked as a thumbnail
+  controls?: boolean;
+  // Applies to the player as a whole; the video fills it
+  className?: string;
+  videoClassName?: string;
+  subtitles?: SubtitleTrack[];
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+const readBuffered = (video: HTMLVideoElement) =>
+  Array.from({ length: video.buffered.length }, (_, i) => ({ start: video.buffered.start(i), end: video.buffered.end(i) }));
+
+/**
+ * A video with its own controls, kept in step with the element through its media
+ * events rather than separate state. The forwarded ref is the <video> itself.
+ *
+ * Focus the player to use the keyboard: space or K plays and pauses, J and L jump
+ * ten seconds, the left and right arrows seek five, up and down change the volume,
+ * M mutes, C turns captions on and off and F toggles fullscreen.
+ */
+const VideoPlayer = forwardRef<HTMLVideoElement, VideoPlayerProps>(
+  ({ controls = true, className = '', videoClassName = '', subtitles = NO_SUBTITLES, ...videoProps }, ref) => {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const videoRef = useRef<HTMLVideoElement>(null);
+    const [isPlaying, setIsPlaying] = useState(false);
+    const [currentTime, setCurrentTime] = useState(0);
+    const [duration, setDuration] = useState(0);
+    const [buffered, setBuffered] = useState<{ start: number; end: number }[]>([]);
+    const [volume, setVolume] = useState(1);
+    const [isMuted, setIsMuted] = useState(Boolean(videoProps.muted));
+    const [playbackRate, setPlaybackRate] = useState(1);
+    const [isFullscreen, setIsFullscreen] = useState(false);
+    const [isPictureInPicture, setIsPictureInPicture] = useState(false);
+    const [activeSubtitleId, setActiveSubtitleId] = useState<string | null>(null);
+    // What C turns back on after captions were switched off
+    const lastSubtitleIdRef = useRef<string | null>(null);
+    const { captionStyle, canCustomize, updateCaptionStyle } = useCaptionStyle();
+    // Menus are portalled into the player so they still show in fullscreen
+    const [menuContainer, setMenuContainer] = useState<HTMLDivElement | null>(null);
+
+    const attachContainer = useCallback((element: HTMLDivElement | null) => {
+      containerRef.current = element;
+      setMenuContainer(element);
+    }, []);
+
+    useImperativeHandle(ref, () => videoRef.current as HTMLVideoElement);
+
+    useEffect(() => {
+      const onFullscreenChange = () => setIsFullscreen(document.fullscreenElement === containerRef.current);
+      document.addEventListener('fullscreenchange', onFullscreenChange);
+      return () => document.removeEventListener('fullscreenchange', onFullscreenChange);
+    }, []);
+
+    // React has no props for these events
+    useEffect(() => {
+      const element = videoRef.current;
+      if (!element) return;
+      const onEnter = () => setIsPictureInPicture(true);
+      const onLeave = () => setIsPictureInPicture(false);
+      element.addEventListener('enterpictureinpicture', onEnter);
+      element.addEventListener('leavepictureinpicture', onLeave);
+      return () => {
+        element.removeEventListener('enterpictureinpicture', onEnter);
+        element.removeEventListener('leavepictureinpicture', onLeave);
+      };
+    }, []);
+
+    // Only the chosen track is shown; the rest stay disabled so they aren't even fetched
+    useEffect(() => {
+      videoRef.current?.querySelectorAll('track').forEach(element => {
+        element.track.mode = element.dataset.trackId === activeSubtitleId ? 'showing' : 'disabled';
+      });
+    }, [activeSubtitleId, subtitles]);
+
+    // A track removed while it was showing turns captions off
+    useEffect(() => {
+      if (activeSubtitleId && !subtitles.some(track => track.id === activeSubtitleId)) {
+        setActiveSubtitleId(null);
+      }
+    }, [activeSubtitleId, subtitles]);
+
+    const video = () => videoRef.current;
+
+    const togglePlay = () => {
+      const element = video();
+      if (!element) return;
+      if (element.paused) {
+        element.play().catch(() => undefined);
+      } else {
+        element.pause();
+      }
+    };
+
+    const seekTo = (time: number) => {
+      const element = video();
+      if (!element || !Number.isFinite(element.duration)) return;
+      element.currentTime = clamp(time, 0, element.duration);
+    };
+
+    const changeVolume = (value: number) => {
+      const element = video();
+      if (!element) return;
+      element.volume = clamp(value, 0, 1);
+      element.muted = element.volume === 0;
+    };
+
+    const toggleMute = () => {
+      const element = video();
+      if (!element) return;
+      element.muted = !element.muted;
+      // Unmuting after the volume was dragged to zero should be audible
+      if (!element.muted && element.volume === 0) element.volume = 0.5;
+    };
+
+    const changeRate = (rate: number) => {
+      const element = video();
+      if (element) element.playbackRate = rate;
+    };
+
+    const toggleFullscreen = () => {
+      if (document.fullscreenElement) {
+        document.exitFullscreen().catch(() => undefined);
+      } else {
+        containerRef.current?.requestFullscreen().catch(() => undefined);
+      }
+    };
+
+    const togglePictureInPicture = () => {
+      const element = video();
+      if (!element) return;
+      if (document.pictureInPictureElement === element) {
+        document.exitPictureInPicture().catch(() => undefined);
+      } else {
+        element.requestPictureInPicture().catch(() => undefined);
+      }
+    };
+
+    const selectSubtitle = (trackId: string | null) => {
+      setActiveSubtitleId(trackId);
+      if (trackId) lastSubtitleIdRef.current = trackId;
+    };
+
+    const toggleCaptions = () => {
+      if (subtitles.length === 0) return;
+      if (activeSubtitleId) {
+        selectSubtitle(null);
+      } else {
+        const last = subtitles.find(track => track.id === lastSubtitleIdRef.current);
+        selectSubtitle((last ?? subtitles[0]).id);
+      }
+    };
+
+    const handleKeyDown = (event: React.KeyboardEvent) => {
+      if (!controls || event.altKey || event.ctrlKey || event.metaKey) return;
+      // A focused button or slider already handles these itself
+      const isOwnKey = event.key === ' ' || event.key.startsWith('Arrow');
+      if (isOwnKey && event.target !== event.currentTarget) return;
+      const element = video();
+      if (!element) return;
+
+      const actions: Record<string, () => void> = {
+        ' ': togglePlay,
+        k: togglePlay,
+        j: () => seekTo(element.currentTime - JUMP_STEP_SECONDS),
+        l: () => seekTo(element.currentTime + JUMP_STEP_SECONDS),
+        ArrowLeft: () => seekTo(element.currentTime - SEEK_STEP_SECONDS),
+        ArrowRight: () => seekTo(element.currentTime + SEEK_STEP_SECONDS),
+        ArrowUp: () => changeVolume(element.volume + VOLUME_STEP),
+        ArrowDown: () => changeVolume(element.volume - VOLUME_STEP),
+        m: toggleMute,
+        c: toggleCaptions,
+        f: toggleFullscreen,
+      };
+      const action = actions[event.key.length === 1 ? event.key.toLowerCase() : event.key];
+      if (!action) return;
+
+      event.preventDefault();
+      event.stopPropagation();
+      action();
+    };
+
+    const { onPlay, onPause, onTimeUpdate, onLoadedMetadata, onProgress, onVolumeChange, onRateChange } = videoProps;
+    const VolumeIcon = isMuted || volume === 0 ? VolumeX : volume < 0.5 ? Volume1 : Volume2;
+    const progress = duration > 0 ? (currentTime / duration) * 100 : 0;
+
+    return (
+      <div
+        ref={attachContainer}
+        tabIndex={controls ? 0 : undefined}
+        onKeyDown={handleKeyDown}
+        className={`relative group bg-black overflow-hidden focus:outline-none focus-visible:ring-2 focus-visible:ring-ring ${className}`}
+      >
+        <AdaptiveVideo
+          {...videoProps}
+          ref={videoRef}
+          controls={false}
+          className={`w-full h-full ${isFullscreen ? 'object-contain' : ''} ${videoClassName}`}
+          onClick={controls ? togglePlay : videoProps.onClick}
+          onPlay={event => {
+            setIsPlaying(true);
+            onPlay?.(event);
+          }}
+          onPause={event => {
+            setIsPlaying(false);
+            onPause?.(event);
+          }}
+          onTimeUpdate={event => {
+            setCurrentTime(event.currentTarget.currentTime);
+            onTimeUpdate?.(event);
+          }}
+          onLoadedMetadata={event => {
+            setDuration(event.currentTarget.duration);
+            setBuffered(readBuffered(event.currentTarget));
+            onLoadedMetadata?.(event);
+          }}
+          onDurationChange={event => setDuration(event.currentTarget.duration)}
+          onProgress={event => {
+            setBuffered(readBuffered(event.currentTarget));
+            onProgress?.(event);
+          }}
+          onVolumeChange={event => {
+            setVolume(event.currentTarget.volume);
+            setIsMuted(event.currentTarget.muted);
+            onVolumeChange?.(event);
+          }}
+          onRateChange={event => {
+            setPlaybackRate(event.currentTarget.playbackRate);
+            onRateChange?.(event);
+          }}
+        >
+          {subtitles.map(track => (
+            <track
+              key={track.id}
+              data-track-id={track.id}
+              kind="subtitles"
+              src={track.url}
+              srcLang={track.language}
+              label={track.label}
+            />
+          ))}
+        </AdaptiveVideo>
+
+        {controls && (
+          <div
+            className={`absolute inset-x-0 bottom-0 bg-gradient-to-t from-black/80 to-transparent px-3 pb-2 pt-6 text-white transition-opacity ${
+              isPlaying ? 'opacity-0 group-hover:opacity-100 focus-within:opacity-100' : 'opacity-100'
+            }`}
+            onClick={event => event.stopPropagation()}
+          >
+            {/* Seek bar: buffered ranges under the played part, with a range input on top for input */}
+            <div className="relative h-1.5 rounded-full bg-white/20 mb-2">
+              {duration > 0 && buffered.map(range => (
+                <div
+                  key={range.start}
+                  className="absolute inset-y-0 rounded-full bg-white/40"
+                  style={{ left: `${(range.start / duration) * 100}%`, width: `${((range.end - range.start) / duration) * 100}%` }}
+                />
+              ))}
+              <div className="absolute inset-y-0 left-0 rounded-full bg-primary" style={{ width: `${progress}%` }} />
+              <input
+                type="range"
+                aria-label="Seek"
+                min={0}
+                max={duration || 0}
+                step={0.1}
+                value={currentTime}
+                onChange={event => seekTo(Number(event.target.value))}
+                className="absolute inset-x-0 -top-1.5 h-4 w-full cursor-pointer opacity-0"
+              />
+            </div>
+
+            <div className="flex items-center gap-1">
+              <Button size="icon" variant="ghost" className="h-8 w-8 text-white hover:bg-white/20 hover:text-white" title={isPlaying ? 'Pause (K)' : 'Play (K)'} onClick={togglePlay}>
+                {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+              </Button>
+              <Button size="icon" variant="ghost" className="h-8 w-8 text-white hover:bg-white/20 hover:text-white" title={isMuted ? 'Unmute (M)' : 'Mute (M)'} onClick={toggleMute}>
+                <VolumeIcon className="w-4 h-4" />
+              </Button>
+              <Slider
+                aria-label="Volume"
+                className="w-20"
+                min={0}
+                max={1}
+                step={0.05}
+                value={[isMuted ? 0 : volume]}
+                onValueChange={([value]) => changeVolume(value)}
+              />
+              <span className="ml-2 text-xs tabular-nums whitespace-nowrap">
+                {formatDuration(Math.floor(currentTime))} / {formatDuration(duration || 0)}
+              </span>
+
+              <div className="ml-auto flex items-center gap-1">
+                {subtitles.length > 0 && (
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className={`h-8 w-8 hover:bg-white/20 hover:text-white ${activeSubtitleId ? 'text-primary' : 'text-white'}`}
+                        title="Captions (C)"
+                      >
+                        <Captions className="w-4 h-4" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end" container={menuContainer}>
+                      <DropdownMenuRadioGroup
+                        value={activeSubtitleId ?? CAPTIONS_OFF}
+                        onValueChange={value => selectSubtitle(value === CAPTIONS_OFF ? null : value)}
+                      >
+                        <DropdownMenuRadioItem value={CAPTIONS_OFF}>Off</DropdownMenuRadioItem>
+                        {subtitles.map(track => (
+                          <DropdownMenuRadioItem key={track.id} value={track.id}>
+                            {track.label}
+                          </DropdownMenuRadioItem>
+                        ))}
+                      </DropdownMenuRadioGroup>
+                      {canCustomize && (
+                        <>
+                          <DropdownMenuSeparator />
+                          {CAPTION_STYLE_OPTIONS.map(option => (
+                            <DropdownMenuSub key={option.key}>
+                              <DropdownMenuSubTrigger>
+                                {option.label}
+                                <span className="ml-auto pl-4 text-xs text-muted-foreground">
+                                  {describeOption(captionStyle[option.key])}
+                                </span>
+                              </DropdownMenuSubTrigger>
+                              <DropdownMenuSubContent>
+                                <DropdownMenuRadioGroup
+                                  value={captionStyle[option.key]}
+                                  onValueChange={value => updateCaptionStyle({ [option.key]: value } as Partial<CaptionStyle>)}
+                                >
+                                  {option.values.map(value => (
+                                    <DropdownMenuRadioItem key={value} value={value}>
+                                      {describeOption(value)}
+                                    </DropdownMenuRadioItem>
+                                  ))}
+                                </DropdownMenuRadioGroup>
+                              </DropdownMenuSubContent>
+                            </DropdownMenuSub>
+                          ))}
+                        </>
+                      )}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                )}
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button size="sm" variant="ghost" className="h-8 px-2 text-white hover:bg-white/20 hover:text-white" title="Playback speed">
+                      <Gauge className="w-4 h-4 mr-1" />
+                      <span className="text-xs">{playbackRate}x</span>
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end" container={menuContainer}>
+                    <DropdownMenuRadioGroup value={String(playbackRate)} onValueChange={value => changeRate(Number(value))}>
+                      {PLAYBACK_RATES.map(rate => (
+                        <DropdownMenuRadioItem key={rate} value={String(rate)}>
+                          {rate === 1 ? 'Normal' : `${rate}x`}
+                        </DropdownMenuRadioItem>
+                      ))}
+                    </DropdownMenuRadioGroup>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+                {document.pictureInPictureEnabled && (
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-8 w-8 text-white hover:bg-white/20 hover:text-white"
+                    title={isPictureInPicture ? 'Exit picture-in-picture' : 'Picture-in-picture'}
+                    onClick={togglePictureInPicture}
+                  >
+                    <PictureInPicture2 className="w-4 h-4" />
+                  </Button>
+                )}
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-8 w-8 text-white hover:bg-white/20 hover:text-white"
+                  title={isFullscreen ? 'Exit fullscreen (F)' : 'Fullscreen (F)'}
+                  onClick={toggleFullscreen}
+                >
+                  {isFullscreen ? <Minimize className="w-4 h-4" /> : <Maximize className="w-4 h-4" />}
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  },
+);
+
+VideoPlayer.displayName = 'VideoPlayer';
+
+export default VideoPlayer;
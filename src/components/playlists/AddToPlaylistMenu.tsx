@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { ListVideo, Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import FolderNameDialog from '@/components/files/FolderNameDialog';
+import type { CloudFile } from '@/contexts/FileContext';
+import { usePlaylists } from '@/hooks/use-playlists';
+import { useToast } from '@/hooks/use-toast';
+import { addToPlaylist, createPlaylist, PLAYLISTS_QUERY_KEY, type Playlist } from '@/lib/playlists';
+
+interface AddToPlaylistMenuProps {
+  file: CloudFile;
+  iconClassName?: string;
+}
+
+const AddToPlaylistMenu: React.FC<AddToPlaylistMenuProps> = ({ file, iconClassName = 'w-3 h-3' }) => {
+  const { data: playlists = [] } = usePlaylists();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [isCreating, setIsCreating] = useState(false);
+
+  const reportError = (error: unknown) => {
+    toast({
+      title: "Couldn't Add to Playlist",
+      description: error instanceof Error ? error.message : 'Please try again',
+      variant: "destructive",
+    });
+  };
+
+  const addTo = async (playlist: Playlist) => {
+    try {
+      await addToPlaylist(playlist.id, file.id);
+      queryClient.invalidateQueries({ queryKey: PLAYLISTS_QUERY_KEY });
+      toast({
+        title: "Added to Playlist",
+        description: `${file.name} was added to ${playlist.name}`,
+      });
+    } catch (error) {
+      reportError(error);
+    }
+  };
+
+  const createWithFile = async (name: string) => {
+    try {
+      await createPlaylist(name, [file.id]);
+      queryClient.invalidateQueries({ queryKey: PLAYLISTS_QUERY_KEY });
+      toast({
+        title: "Playlist Created",
+        description: `${name} was created with ${file.name} in it`,
+      });
+    } catch (error) {
+      reportError(error);
+      throw error;
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button size="sm" variant="ghost" title="Add to playlist">
+            <ListVideo className={iconClassName} />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-56">
+          <DropdownMenuLabel>Add to playlist</DropdownMenuLabel>
+          {playlists.map(playlist => (
+            <DropdownMenuItem
+              key={playlist.id}
+              disabled={playlist.fileIds.includes(file.id)}
+              onClick={() => addTo(playlist)}
+            >
+              <span className="truncate">{playlist.name}</span>
+            </DropdownMenuItem>
+          ))}
+          {playlists.length > 0 && <DropdownMenuSeparator />}
+          <DropdownMenuItem onClick={() => setIsCreating(true)}>
+            <Plus className="w-4 h-4 mr-2" />
+            New playlist
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <FolderNameDialog
+        open={isCreating}
+        onOpenChange={setIsCreating}
+        title="New playlist"
+        submitLabel="Create"
+        placeholder="Playlist name"
+        onSubmit={createWithFile}
+      />
+    </>
+  );
+};
+
+export default AddToPlaylistMenu;
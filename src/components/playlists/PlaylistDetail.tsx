@@ -0,0 +1,301 @@
+import React, { useEffect, useState } from 'react';
+import { Reorder, useDragControls } from 'framer-motion';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useNavigate } from 'react-router-dom';
+import { Download, FileAudio, FileVideo, GripVertical, Pencil, Play, Shuffle, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import FolderNameDialog from '@/components/files/FolderNameDialog';
+import type { CloudFile } from '@/contexts/FileContext';
+import { usePlayer } from '@/contexts/PlayerContext';
+import { usePlaylist } from '@/hooks/use-playlists';
+import { useToast } from '@/hooks/use-toast';
+import { describeTrack, formatDuration } from '@/lib/metadata';
+import {
+  deletePlaylist,
+  getPlaylistExportUrl,
+  moveInPlaylist,
+  playlistQueryKey,
+  PLAYLISTS_QUERY_KEY,
+  removeFromPlaylist,
+  renamePlaylist,
+  type PlaylistContents,
+  type PlaylistFormat,
+} from '@/lib/playlists';
+
+const getDuration = (file: CloudFile) =>
+  file.metadata && file.metadata.kind !== 'pdf' ? file.metadata.duration ?? 0 : 0;
+
+interface TrackRowProps {
+  file: CloudFile;
+  index: number;
+  isCurrent: boolean;
+  onPlay: () => void;
+  onRemove: () => void;
+  onDragEnd: () => void;
+}
+
+// Dragging only starts from the handle, so the row's buttons stay clickable
+const TrackRow: React.FC<TrackRowProps> = ({ file, index, isCurrent, onPlay, onRemove, onDragEnd }) => {
+  const dragControls = useDragControls();
+  const Icon = file.type === 'video' ? FileVideo : FileAudio;
+
+  return (
+    <Reorder.Item
+      value={file}
+      dragListener={false}
+      dragControls={dragControls}
+      onDragEnd={onDragEnd}
+      className={`flex items-center gap-3 p-2 rounded-lg bg-card ${isCurrent ? 'ring-1 ring-primary' : 'hover:bg-glass-surface'}`}
+    >
+      <button
+        type="button"
+        title="Drag to reorder"
+        className="cursor-grab active:cursor-grabbing text-muted-foreground touch-none"
+        onPointerDown={event => dragControls.start(event)}
+      >
+        <GripVertical className="w-4 h-4" />
+      </button>
+      <span className="w-6 text-right text-sm text-muted-foreground tabular-nums">{index + 1}</span>
+      <div className="w-12 h-12 bg-gradient-secondary rounded-md flex items-center justify-center overflow-hidden shrink-0">
+        {file.thumbnail ? (
+          <img src={file.thumbnail} alt="" loading="lazy" className="w-full h-full object-cover" />
+        ) : (
+          <Icon className="w-5 h-5 text-primary-foreground" />
+        )}
+      </div>
+      <div className="flex-1 min-w-0">
+        <p className="font-medium truncate">{file.name}</p>
+        <p className="text-sm text-muted-foreground truncate">
+          {describeTrack(file.metadata) ?? file.type}
+        </p>
+      </div>
+      {getDuration(file) > 0 && (
+        <span className="text-sm text-muted-foreground tabular-nums">{formatDuration(getDuration(file))}</span>
+      )}
+      <Button size="sm" variant="ghost" title="Play from here" onClick={onPlay}>
+        <Play className="w-4 h-4" />
+      </Button>
+      <Button size="sm" variant="ghost" title="Remove from playlist" onClick={onRemove}>
+        <X className="w-4 h-4" />
+      </Button>
+    </Reorder.Item>
+  );
+};
+
+const PlaylistDetail: React.FC<{ playlistId: string }> = ({ playlistId }) => {
+  const { data, isLoading, error } = usePlaylist(playlistId);
+  const { play, current } = usePlayer();
+  const queryClient = useQueryClient();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [order, setOrder] = useState<CloudFile[]>([]);
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+
+  // Dragging reorders locally; the new order is saved when the drag ends
+  useEffect(() => {
+    if (data) setOrder(data.files);
+  }, [data]);
+
+  const reportError = (title: string, error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : 'Please try again',
+      variant: "destructive",
+    });
+  };
+
+  const showContents = (contents: PlaylistContents) => {
+    queryClient.setQueryData(playlistQueryKey(playlistId), contents);
+    queryClient.invalidateQueries({ queryKey: PLAYLISTS_QUERY_KEY, exact: true });
+  };
+
+  const reportUpdateError = (error: unknown) => {
+    if (data) setOrder(data.files);
+    reportError("Couldn't Update Playlist", error);
+  };
+
+  const renameMutation = useMutation({
+    mutationFn: (name: string) => renamePlaylist(playlistId, name),
+    onSuccess: showContents,
+    onError: reportUpdateError,
+  });
+
+  const moveMutation = useMutation({
+    mutationFn: ({ file, beforeId }: { file: CloudFile; beforeId: string | null }) =>
+      moveInPlaylist(playlistId, file.id, beforeId),
+    onSuccess: showContents,
+    onError: reportUpdateError,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: (file: CloudFile) => removeFromPlaylist(playlistId, file.id),
+    onSuccess: showContents,
+    onError: reportUpdateError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: () => deletePlaylist(playlistId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: PLAYLISTS_QUERY_KEY, exact: true });
+      queryClient.removeQueries({ queryKey: playlistQueryKey(playlistId) });
+      toast({
+        title: "Playlist Deleted",
+        description: `${data?.playlist.name} has been deleted; its files are untouched`,
+      });
+      navigate('/playlists');
+    },
+    onError: error => reportError('Delete Failed', error),
+  });
+
+  // Files the user can't play right now aren't listed, so the dragged one is saved as
+  // a move in front of its new neighbour and the hidden ones stay where they were
+  const saveMove = (file: CloudFile) => {
+    const nextId = (files: CloudFile[]) => files[files.findIndex(entry => entry.id === file.id) + 1]?.id ?? null;
+    const beforeId = nextId(order);
+    if (data && beforeId !== nextId(data.files)) {
+      moveMutation.mutate({ file, beforeId });
+    }
+  };
+
+  const removeTrack = (file: CloudFile) => {
+    setOrder(order.filter(entry => entry.id !== file.id));
+    removeMutation.mutate(file);
+  };
+
+  const exportAs = (format: PlaylistFormat) => {
+    const link = document.createElement('a');
+    link.href = getPlaylistExportUrl(playlistId, format);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  const shufflePlay = () => {
+    const start = order[Math.floor(Math.random() * order.length)];
+    play(start, order, { shuffle: true });
+  };
+
+  if (isLoading) {
+    return <div className="h-64 rounded-lg bg-muted animate-pulse" />;
+  }
+
+  if (error || !data) {
+    return (
+      <p className="text-muted-foreground text-center py-16">
+        {error instanceof Error ? error.message : 'Playlist not found'}
+      </p>
+    );
+  }
+
+  const totalDuration = order.reduce((total, file) => total + getDuration(file), 0);
+
+  return (
+    <Card className="card-glass">
+      <CardContent className="p-6">
+        <div className="flex flex-wrap items-start justify-between gap-4 mb-6">
+          <div className="min-w-0">
+            <h2 className="text-2xl font-semibold truncate">{data.playlist.name}</h2>
+            <p className="text-muted-foreground">
+              {[
+                `${order.length} ${order.length === 1 ? 'item' : 'items'}`,
+                ...(totalDuration > 0 ? [formatDuration(totalDuration)] : []),
+              ].join(' • ')}
+            </p>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Button variant="hero" disabled={order.length === 0} onClick={() => play(order[0], order, { shuffle: false })}>
+              <Play className="w-4 h-4 mr-2" />
+              Play
+            </Button>
+            <Button variant="glass" disabled={order.length === 0} onClick={shufflePlay}>
+              <Shuffle className="w-4 h-4 mr-2" />
+              Shuffle
+            </Button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="icon" title="Export">
+                  <Download className="w-4 h-4" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => exportAs('m3u8')}>Export as M3U8 (UTF-8)</DropdownMenuItem>
+                <DropdownMenuItem onClick={() => exportAs('m3u')}>Export as M3U</DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <Button variant="ghost" size="icon" title="Rename" onClick={() => setIsRenaming(true)}>
+              <Pencil className="w-4 h-4" />
+            </Button>
+            <Button variant="ghost" size="icon" title="Delete playlist" onClick={() => setIsConfirmingDelete(true)}>
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+
+        {order.length === 0 ? (
+          <p className="text-muted-foreground text-center py-12">
+            This playlist is empty. Use Add to playlist on your audio and video files to fill it.
+          </p>
+        ) : (
+          <Reorder.Group axis="y" values={order} onReorder={setOrder} className="space-y-2">
+            {order.map((file, index) => (
+              <TrackRow
+                key={file.id}
+                file={file}
+                index={index}
+                isCurrent={current?.id === file.id}
+                onPlay={() => play(file, order)}
+                onRemove={() => removeTrack(file)}
+                onDragEnd={() => saveMove(file)}
+              />
+            ))}
+          </Reorder.Group>
+        )}
+      </CardContent>
+
+      <FolderNameDialog
+        open={isRenaming}
+        onOpenChange={setIsRenaming}
+        title="Rename playlist"
+        submitLabel="Rename"
+        placeholder="Playlist name"
+        initialName={data.playlist.name}
+        onSubmit={name => renameMutation.mutateAsync(name).then(() => undefined)}
+      />
+
+      <AlertDialog open={isConfirmingDelete} onOpenChange={setIsConfirmingDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {data.playlist.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The playlist is deleted, but the files in it stay in your library.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => deleteMutation.mutate()}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
+
+export default PlaylistDetail;
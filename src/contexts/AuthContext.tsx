@@ -1,19 +1,26 @@
-import React, { createContext, useContext, useState, useEffect } from 'react';
+import React, { createContext, useContext, useState, useEffect, useRef } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { ApiError, setUnauthorizedHandler } from '@/lib/api';
+import * as authApi from '@/lib/auth';
+import type { AuthSession, User } from '@/lib/auth';
 
-interface User {
-  id: string;
-  email: string;
-  name: string;
+export interface AuthResult {
+  ok: boolean;
+  error?: string;
 }
 
 interface AuthContextType {
   user: User | null;
-  login: (email: string, password: string) => Promise<boolean>;
-  signup: (email: string, password: string, name: string) => Promise<boolean>;
+  login: (email: string, password: string) => Promise<AuthResult>;
+  signup: (email: string, password: string, name: string) => Promise<AuthResult>;
   logout: () => void;
+  logoutEverywhere: () => Promise<void>;
   isLoading: boolean;
 }
 
+// Renew the access token this long before it expires so media requests never see a 401
+const REFRESH_MARGIN_MS = 60 * 1000;
+
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export const useAuth = () => {
@@ -24,70 +31,93 @@ export const useAuth = () => {
   return context;
 };
 
+const toAuthError = (error: unknown): AuthResult => ({
+  ok: false,
+  error: error instanceof ApiError ? error.message : 'Unable to reach the server. Please try again.',
+});
+
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const queryClient = useQueryClient();
+  const refreshTimer = useRef<number>();
 
-  useEffect(() => {
-    // Check for existing session on mount
-    const savedUser = sessionStorage.getItem('cloudstream_user');
-    if (savedUser) {
-      setUser(JSON.parse(savedUser));
+  const endSession = () => {
+    window.clearTimeout(refreshTimer.current);
+    setUser(null);
+    queryClient.clear();
+  };
+
+  const applySession = (session: AuthSession) => {
+    setUser(session.user);
+    window.clearTimeout(refreshTimer.current);
+
+    if (session.accessTokenExpiresAt) {
+      const delay = new Date(session.accessTokenExpiresAt).getTime() - Date.now() - REFRESH_MARGIN_MS;
+      refreshTimer.current = window.setTimeout(() => refreshRef.current(), Math.max(delay, 0));
     }
-    setIsLoading(false);
+  };
+
+  const refresh = async () => {
+    const session = await authApi.refreshSession();
+    if (session) {
+      applySession(session);
+    } else {
+      endSession();
+    }
+    return !!session;
+  };
+
+  // Timers and the API client always call the latest refresh through this ref
+  const refreshRef = useRef(refresh);
+  refreshRef.current = refresh;
+
+  useEffect(() => {
+    // Check for an existing session on mount; the refresh cookie is httpOnly so only the server can tell
+    refreshRef.current().finally(() => setIsLoading(false));
+    setUnauthorizedHandler(() => refreshRef.current());
+
+    return () => {
+      setUnauthorizedHandler(null);
+      window.clearTimeout(refreshTimer.current);
+    };
   }, []);
 
-  const login = async (email: string, password: string): Promise<boolean> => {
+  const login = async (email: string, password: string): Promise<AuthResult> => {
     setIsLoading(true);
-    
-    // Simulate API call delay
-    await new Promise(resolve => setTimeout(resolve, 1000));
-    
-    // Mock authentication - in production, this would validate with a backend
-    if (password.length >= 6) {
-      const userData: User = {
-        id: Math.random().toString(36).substr(2, 9),
-        email,
-        name: email.split('@')[0], // Extract name from email for demo
-      };
-      
-      setUser(userData);
-      sessionStorage.setItem('cloudstream_user', JSON.stringify(userData));
+
+    try {
+      applySession(await authApi.login(email, password));
+      return { ok: true };
+    } catch (error) {
+      return toAuthError(error);
+    } finally {
       setIsLoading(false);
-      return true;
     }
-    
-    setIsLoading(false);
-    return false;
   };
 
-  const signup = async (email: string, password: string, name: string): Promise<boolean> => {
+  const signup = async (email: string, password: string, name: string): Promise<AuthResult> => {
     setIsLoading(true);
-    
-    // Simulate API call delay
-    await new Promise(resolve => setTimeout(resolve, 1000));
-    
-    // Mock signup - in production, this would create account with backend
-    if (password.length >= 6 && name.trim().length > 0) {
-      const userData: User = {
-        id: Math.random().toString(36).substr(2, 9),
-        email,
-        name: name.trim(),
-      };
-      
-      setUser(userData);
-      sessionStorage.setItem('cloudstream_user', JSON.stringify(userData));
+
+    try {
+      applySession(await authApi.signup(email, password, name.trim()));
+      return { ok: true };
+    } catch (error) {
+      return toAuthError(error);
+    } finally {
       setIsLoading(false);
-      return true;
     }
-    
-    setIsLoading(false);
-    return false;
   };
 
   const logout = () => {
-    setUser(null);
-    sessionStorage.removeItem('cloudstream_user');
+    endSession();
+    // Clearing local state first keeps logout instant even if the server is unreachable
+    authApi.logout().catch(() => undefined);
+  };
+
+  const logoutEverywhere = async () => {
+    await authApi.logoutEverywhere();
+    endSession();
   };
 
   const value = {
@@ -95,8 +125,9 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     login,
     signup,
     logout,
+    logoutEverywhere,
     isLoading,
   };
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
-};
\ No newline at end of file
+};
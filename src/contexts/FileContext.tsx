@@ -1,22 +1,75 @@
-import React, { createContext, useContext, useState } from 'react';
+import React, { createContext, useContext } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { MediaMetadata } from '@shared/mediaMetadata';
+import { useAuth } from '@/contexts/AuthContext';
+import { SHARED_QUERY_KEY } from '@/lib/access';
+import { USAGE_QUERY_KEY } from '@/lib/account';
+import { deleteFile, fetchFiles, FILES_QUERY_KEY, updateFile } from '@/lib/files';
+import {
+  createFolder as createFolderRequest,
+  deleteFolder as deleteFolderRequest,
+  fetchFolders,
+  FOLDERS_QUERY_KEY,
+  updateFolder,
+  type Folder,
+} from '@/lib/folders';
+import { promoteVersion as promoteVersionRequest } from '@/lib/versions';
+import { restoreFile as restoreFileRequest, restoreFolder as restoreFolderRequest, TRASH_QUERY_KEY } from '@/lib/trash';
+
+export type ProcessingStatus = 'pending' | 'processing' | 'ready' | 'failed';
 
 export interface CloudFile {
   id: string;
   name: string;
+  // Containing folder, or null at the top level
+  parentId: string | null;
   type: 'video' | 'audio' | 'pdf';
+  mimeType: string;
   size: number;
+  // Files with the same hash share storage on the server
+  contentHash: string;
+  // Counts up each time a same-named upload or an older version replaces the contents
+  version: number;
+  // Streams the file with HTTP range support, for previews and playback
   url: string;
+  downloadUrl: string;
   uploadDate: Date;
   thumbnail?: string;
+  // Adaptive stream, available once the server has transcoded a video
+  hlsUrl?: string;
+  // Thumbnails and transcodes are produced in the background after upload
+  processingStatus: ProcessingStatus;
+  processingProgress: number;
+  // Duration, resolution, tags and so on; filled in once processing reads the file
+  metadata?: MediaMetadata;
+  tags: string[];
+  // Only set on files listed in the trash
+  trashedAt?: Date;
 }
 
 interface FileContextType {
   files: CloudFile[];
+  folders: Folder[];
+  isLoading: boolean;
   addFile: (file: CloudFile) => void;
-  removeFile: (id: string) => void;
+  // Moves the file to the trash
+  removeFile: (id: string) => Promise<void>;
+  restoreFile: (id: string) => Promise<void>;
+  updateTags: (id: string, tags: string[]) => Promise<void>;
+  moveFile: (id: string, parentId: string | null) => Promise<void>;
+  // Makes an earlier version current again, as the file's newest version
+  promoteVersion: (id: string, versionId: string) => Promise<void>;
   getFile: (id: string) => CloudFile | undefined;
+  createFolder: (name: string, parentId: string | null) => Promise<Folder>;
+  renameFolder: (id: string, name: string) => Promise<void>;
+  moveFolder: (id: string, parentId: string | null) => Promise<void>;
+  // Moves the folder and everything inside it to the trash
+  deleteFolder: (id: string) => Promise<void>;
+  restoreFolder: (id: string) => Promise<void>;
 }
 
+const PROCESSING_POLL_INTERVAL_MS = 2000;
+
 const FileContext = createContext<FileContextType | undefined>(undefined);
 
 export const useFiles = () => {
@@ -28,14 +81,136 @@ export const useFiles = () => {
 };
 
 export const FileProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const [files, setFiles] = useState<CloudFile[]>([]);
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: files = [], isLoading } = useQuery({
+    queryKey: FILES_QUERY_KEY,
+    queryFn: fetchFiles,
+    enabled: !!user,
+    // Poll while the server is still working on something, so progress stays live
+    refetchInterval: query =>
+      query.state.data?.some(file => file.processingStatus === 'pending' || file.processingStatus === 'processing')
+        ? PROCESSING_POLL_INTERVAL_MS
+        : false,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteFile,
+    onSuccess: (_data, id) => {
+      queryClient.setQueryData<CloudFile[]>(FILES_QUERY_KEY, prev => prev?.filter(file => file.id !== id));
+      queryClient.invalidateQueries({ queryKey: USAGE_QUERY_KEY });
+      queryClient.invalidateQueries({ queryKey: TRASH_QUERY_KEY });
+    },
+  });
+
+  const { data: folders = [], isLoading: isLoadingFolders } = useQuery({
+    queryKey: FOLDERS_QUERY_KEY,
+    queryFn: fetchFolders,
+    enabled: !!user,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, changes }: { id: string; changes: Parameters<typeof updateFile>[1] }) => updateFile(id, changes),
+    onSuccess: updated => {
+      queryClient.setQueryData<CloudFile[]>(FILES_QUERY_KEY, prev => prev?.map(file => (file.id === updated.id ? updated : file)));
+      queryClient.invalidateQueries({ queryKey: USAGE_QUERY_KEY });
+      // The file may be someone else's, shown under Shared with me
+      queryClient.invalidateQueries({ queryKey: SHARED_QUERY_KEY });
+    },
+  });
+
+  const promoteMutation = useMutation({
+    mutationFn: ({ id, versionId }: { id: string; versionId: string }) => promoteVersionRequest(id, versionId),
+    onSuccess: updated => {
+      queryClient.setQueryData<CloudFile[]>(FILES_QUERY_KEY, prev => prev?.map(file => (file.id === updated.id ? updated : file)));
+      // Also refreshes the version history, which is keyed under the file list
+      queryClient.invalidateQueries({ queryKey: FILES_QUERY_KEY });
+      queryClient.invalidateQueries({ queryKey: SHARED_QUERY_KEY });
+    },
+  });
+
+  const folderMutation = useMutation({
+    mutationFn: ({ id, changes }: { id: string; changes: Parameters<typeof updateFolder>[1] }) => updateFolder(id, changes),
+    onSuccess: updated => {
+      queryClient.setQueryData<Folder[]>(FOLDERS_QUERY_KEY, prev => prev?.map(folder => (folder.id === updated.id ? updated : folder)));
+      queryClient.invalidateQueries({ queryKey: USAGE_QUERY_KEY });
+    },
+  });
 
+  const createFolderMutation = useMutation({
+    mutationFn: ({ name, parentId }: { name: string; parentId: string | null }) => createFolderRequest(name, parentId),
+    onSuccess: created => {
+      queryClient.setQueryData<Folder[]>(FOLDERS_QUERY_KEY, prev => [...(prev ?? []), created]);
+      queryClient.invalidateQueries({ queryKey: USAGE_QUERY_KEY });
+    },
+  });
+
+  // Trashing or restoring a folder takes its whole subtree along, so every list is refetched rather than patched
+  const refetchLibrary = () => {
+    queryClient.invalidateQueries({ queryKey: FOLDERS_QUERY_KEY });
+    queryClient.invalidateQueries({ queryKey: FILES_QUERY_KEY });
+    queryClient.invalidateQueries({ queryKey: USAGE_QUERY_KEY });
+    queryClient.invalidateQueries({ queryKey: TRASH_QUERY_KEY });
+  };
+
+  const deleteFolderMutation = useMutation({
+    mutationFn: deleteFolderRequest,
+    onSuccess: refetchLibrary,
+  });
+
+  const restoreFileMutation = useMutation({
+    mutationFn: restoreFileRequest,
+    onSuccess: refetchLibrary,
+  });
+
+  const restoreFolderMutation = useMutation({
+    mutationFn: restoreFolderRequest,
+    onSuccess: refetchLibrary,
+  });
+
+  // Newly uploaded files go straight into the cache; the refetch picks up anything uploaded elsewhere.
+  // A new version of a file replaces the entry it already has.
   const addFile = (file: CloudFile) => {
-    setFiles(prev => [...prev, file]);
+    queryClient.setQueryData<CloudFile[]>(FILES_QUERY_KEY, prev => [file, ...(prev ?? []).filter(existing => existing.id !== file.id)]);
+    queryClient.invalidateQueries({ queryKey: FILES_QUERY_KEY });
+    queryClient.invalidateQueries({ queryKey: USAGE_QUERY_KEY });
   };
 
-  const removeFile = (id: string) => {
-    setFiles(prev => prev.filter(file => file.id !== id));
+  const removeFile = (id: string) => deleteMutation.mutateAsync(id);
+
+  const restoreFile = async (id: string) => {
+    await restoreFileMutation.mutateAsync(id);
+  };
+
+  const updateTags = async (id: string, tags: string[]) => {
+    await updateMutation.mutateAsync({ id, changes: { tags } });
+  };
+
+  const moveFile = async (id: string, parentId: string | null) => {
+    await updateMutation.mutateAsync({ id, changes: { parentId } });
+  };
+
+  const promoteVersion = async (id: string, versionId: string) => {
+    await promoteMutation.mutateAsync({ id, versionId });
+  };
+
+  const createFolder = (name: string, parentId: string | null) => createFolderMutation.mutateAsync({ name, parentId });
+
+  const renameFolder = async (id: string, name: string) => {
+    await folderMutation.mutateAsync({ id, changes: { name } });
+  };
+
+  const moveFolder = async (id: string, parentId: string | null) => {
+    await folderMutation.mutateAsync({ id, changes: { parentId } });
+  };
+
+  const deleteFolder = async (id: string) => {
+    await deleteFolderMutation.mutateAsync(id);
+  };
+
+  const restoreFolder = async (id: string) => {
+    await restoreFolderMutation.mutateAsync(id);
   };
 
   const getFile = (id: string) => {
@@ -44,10 +219,21 @@ export const FileProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
   const value = {
     files,
+    folders,
+    isLoading: isLoading || isLoadingFolders,
     addFile,
     removeFile,
+    restoreFile,
+    updateTags,
+    moveFile,
+    promoteVersion,
     getFile,
+    createFolder,
+    renameFolder,
+    moveFolder,
+    deleteFolder,
+    restoreFolder,
   };
 
   return <FileContext.Provider value={value}>{children}</FileContext.Provider>;
-};
\ No newline at end of file
+};
@@ -0,0 +1,250 @@
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import type { CloudFile } from '@/contexts/FileContext';
+
+export type PlayerItem = Pick<CloudFile, 'id' | 'name' | 'type' | 'url' | 'hlsUrl' | 'thumbnail' | 'metadata'>;
+
+// Going back this far into a track restarts it instead of going to the previous one
+const RESTART_THRESHOLD_SECONDS = 3;
+
+// 'all' goes back to the start of the queue after the last item, 'one' plays the same item again
+export type RepeatMode = 'off' | 'all' | 'one';
+
+const NEXT_REPEAT_MODE: Record<RepeatMode, RepeatMode> = { off: 'all', all: 'one', one: 'off' };
+
+// Keeps the first item where it is and shuffles the rest
+const shuffleAfterFirst = (items: PlayerItem[], first: PlayerItem) => {
+  const rest = items.filter(entry => entry.id !== first.id);
+  for (let i = rest.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [rest[i], rest[j]] = [rest[j], rest[i]];
+  }
+  return [first, ...rest];
+};
+
+interface PlayerContextType {
+  queue: PlayerItem[];
+  current: PlayerItem | null;
+  currentIndex: number;
+  isPlaying: boolean;
+  isExpanded: boolean;
+  hasNext: boolean;
+  hasPrevious: boolean;
+  shuffle: boolean;
+  repeat: RepeatMode;
+  // Whether finishing one item starts the next
+  autoplayNext: boolean;
+  // Plays the item; passing a queue replaces the current one, otherwise the item is queued if it isn't already.
+  // A new queue can also turn shuffle on or off.
+  play: (item: PlayerItem, queue?: PlayerItem[], options?: { shuffle?: boolean }) => void;
+  playAt: (index: number) => void;
+  addToQueue: (item: PlayerItem) => void;
+  removeFromQueue: (id: string) => void;
+  next: () => void;
+  previous: () => void;
+  togglePlay: () => void;
+  // Shuffling keeps the current item playing; turning it off puts the queue back in its original order
+  toggleShuffle: () => void;
+  cycleRepeat: () => void;
+  setAutoplayNext: (autoplay: boolean) => void;
+  // For the media element's ended event; applies the repeat and autoplay settings
+  handleEnded: () => void;
+  setExpanded: (expanded: boolean) => void;
+  // Stops playback and empties the queue
+  close: () => void;
+  // For the player that renders the media element, which must stay mounted to keep playing
+  attachMedia: (element: HTMLMediaElement | null) => void;
+  setIsPlaying: (playing: boolean) => void;
+}
+
+const PlayerContext = createContext<PlayerContextType | undefined>(undefined);
+
+export const usePlayer = () => {
+  const context = useContext(PlayerContext);
+  if (context === undefined) {
+    throw new Error('usePlayer must be used within a PlayerProvider');
+  }
+  return context;
+};
+
+export const PlayerProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const mediaRef = useRef<HTMLMediaElement | null>(null);
+  const [queue, setQueue] = useState<PlayerItem[]>([]);
+  const [currentIndex, setCurrentIndex] = useState(-1);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [isExpanded, setExpanded] = useState(false);
+  const [shuffle, setShuffle] = useState(false);
+  const [repeat, setRepeat] = useState<RepeatMode>('off');
+  const [autoplayNext, setAutoplayNext] = useState(true);
+  // The queue in the order it was given, for turning shuffle off again
+  const unshuffledRef = useRef<PlayerItem[]>([]);
+
+  const current = queue[currentIndex] ?? null;
+
+  // Browsers refuse to start playback without a user gesture, or when the source fails to load
+  const resume = (media: HTMLMediaElement) => {
+    media.play().catch(() => setIsPlaying(false));
+  };
+
+  const close = useCallback(() => {
+    mediaRef.current?.pause();
+    unshuffledRef.current = [];
+    setQueue([]);
+    setCurrentIndex(-1);
+    setIsPlaying(false);
+    setExpanded(false);
+  }, []);
+
+  // Someone else signing in on this browser shouldn't find the last user's queue
+  useEffect(() => {
+    if (!user) close();
+  }, [user, close]);
+
+  const play = (item: PlayerItem, newQueue?: PlayerItem[], options: { shuffle?: boolean } = {}) => {
+    if (newQueue) {
+      const shuffled = options.shuffle ?? shuffle;
+      const index = newQueue.findIndex(entry => entry.id === item.id);
+      const ordered = index === -1 ? [item, ...newQueue] : newQueue;
+      unshuffledRef.current = ordered;
+      setShuffle(shuffled);
+      setQueue(shuffled ? shuffleAfterFirst(ordered, item) : ordered);
+      setCurrentIndex(shuffled ? 0 : Math.max(index, 0));
+      return;
+    }
+
+    const index = queue.findIndex(entry => entry.id === item.id);
+    if (index === -1) {
+      unshuffledRef.current = [...unshuffledRef.current, item];
+      setQueue([...queue, item]);
+      setCurrentIndex(queue.length);
+    } else if (index === currentIndex) {
+      if (mediaRef.current) resume(mediaRef.current);
+    } else {
+      setCurrentIndex(index);
+    }
+  };
+
+  const playAt = (index: number) => {
+    if (index >= 0 && index < queue.length) setCurrentIndex(index);
+  };
+
+  const addToQueue = (item: PlayerItem) => {
+    if (queue.some(entry => entry.id === item.id)) return;
+    unshuffledRef.current = [...unshuffledRef.current, item];
+    setQueue([...queue, item]);
+    // An empty player starts with whatever is queued first
+    if (currentIndex === -1) setCurrentIndex(queue.length);
+  };
+
+  const removeFromQueue = (id: string) => {
+    const index = queue.findIndex(entry => entry.id === id);
+    if (index === -1) return;
+    if (queue.length === 1) {
+      close();
+      return;
+    }
+
+    unshuffledRef.current = unshuffledRef.current.filter(entry => entry.id !== id);
+    setQueue(queue.filter(entry => entry.id !== id));
+    // Removing the current track moves on to the one after it, or the new last one
+    if (index < currentIndex || (index === currentIndex && index === queue.length - 1)) {
+      setCurrentIndex(currentIndex - 1);
+    }
+  };
+
+  const isLast = currentIndex === queue.length - 1;
+  const hasNext = currentIndex !== -1 && (!isLast || repeat === 'all');
+  const hasPrevious = currentIndex > 0;
+
+  const restart = () => {
+    const media = mediaRef.current;
+    if (!media) return;
+    media.currentTime = 0;
+    resume(media);
+  };
+
+  const next = () => {
+    if (!hasNext) return;
+    if (isLast && queue.length === 1) {
+      restart();
+    } else {
+      setCurrentIndex(isLast ? 0 : currentIndex + 1);
+    }
+  };
+
+  const handleEnded = () => {
+    if (repeat === 'one') {
+      restart();
+    } else if (autoplayNext) {
+      next();
+    }
+  };
+
+  const toggleShuffle = () => {
+    if (current) {
+      const ordered = shuffle
+        ? unshuffledRef.current.filter(entry => queue.some(queued => queued.id === entry.id))
+        : shuffleAfterFirst(queue, current);
+      if (!shuffle) unshuffledRef.current = queue;
+      setQueue(ordered);
+      setCurrentIndex(ordered.findIndex(entry => entry.id === current.id));
+    }
+    setShuffle(!shuffle);
+  };
+
+  const cycleRepeat = () => setRepeat(NEXT_REPEAT_MODE[repeat]);
+
+  const previous = () => {
+    const media = mediaRef.current;
+    if (media && (media.currentTime > RESTART_THRESHOLD_SECONDS || !hasPrevious)) {
+      media.currentTime = 0;
+      return;
+    }
+    if (hasPrevious) setCurrentIndex(currentIndex - 1);
+  };
+
+  const togglePlay = () => {
+    const media = mediaRef.current;
+    if (!media) return;
+    if (media.paused) {
+      resume(media);
+    } else {
+      media.pause();
+    }
+  };
+
+  const attachMedia = useCallback((element: HTMLMediaElement | null) => {
+    mediaRef.current = element;
+  }, []);
+
+  const value = {
+    queue,
+    current,
+    currentIndex,
+    isPlaying,
+    isExpanded,
+    hasNext,
+    hasPrevious,
+    shuffle,
+    repeat,
+    autoplayNext,
+    play,
+    playAt,
+    addToQueue,
+    removeFromQueue,
+    next,
+    previous,
+    togglePlay,
+    toggleShuffle,
+    cycleRepeat,
+    setAutoplayNext,
+    handleEnded,
+    setExpanded,
+    close,
+    attachMedia,
+    setIsPlaying,
+  };
+
+  return <PlayerContext.Provider value={value}>{children}</PlayerContext.Provider>;
+};
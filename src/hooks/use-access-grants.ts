@@ -0,0 +1,21 @@
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/contexts/AuthContext";
+import { ACCESS_QUERY_KEY, fetchAccessGrants, type AccessGrant } from "@/lib/access";
+
+// Everyone with access to the user's files and folders, grouped by the item they can open
+export function useAccessGrants() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ACCESS_QUERY_KEY,
+    queryFn: () => fetchAccessGrants(),
+    enabled: !!user,
+    select: grants => {
+      const byTarget = new Map<string, AccessGrant[]>();
+      for (const grant of grants) {
+        byTarget.set(grant.targetId, [...(byTarget.get(grant.targetId) ?? []), grant]);
+      }
+      return byTarget;
+    },
+  });
+}
@@ -0,0 +1,41 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { DEFAULT_CAPTION_STYLE, type CaptionStyle } from "@shared/captionStyle";
+import { useAuth } from "@/contexts/AuthContext";
+import { fetchPreferences, PREFERENCES_QUERY_KEY, updatePreferences, type Preferences } from "@/lib/account";
+
+// The signed-in user's caption style, or the default for anyone else
+export function useCaptionStyle() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: preferences } = useQuery({
+    queryKey: PREFERENCES_QUERY_KEY,
+    queryFn: fetchPreferences,
+    enabled: !!user,
+  });
+
+  const mutation = useMutation({
+    mutationFn: (changes: Partial<CaptionStyle>) => updatePreferences({ captionStyle: changes }),
+    // Captions restyle straight away rather than after the round trip
+    onMutate: changes => {
+      const previous = queryClient.getQueryData<Preferences>(PREFERENCES_QUERY_KEY);
+      if (previous) {
+        queryClient.setQueryData<Preferences>(PREFERENCES_QUERY_KEY, {
+          ...previous,
+          captionStyle: { ...previous.captionStyle, ...changes },
+        });
+      }
+      return { previous };
+    },
+    onError: (_error, _changes, context) => {
+      if (context?.previous) queryClient.setQueryData(PREFERENCES_QUERY_KEY, context.previous);
+    },
+    onSuccess: updated => queryClient.setQueryData(PREFERENCES_QUERY_KEY, updated),
+  });
+
+  return {
+    captionStyle: preferences?.captionStyle ?? DEFAULT_CAPTION_STYLE,
+    canCustomize: !!user,
+    updateCaptionStyle: mutation.mutate,
+  };
+}
@@ -0,0 +1,13 @@
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/contexts/AuthContext";
+import { CONTINUE_WATCHING_QUERY_KEY, fetchContinueWatching } from "@/lib/playback";
+
+export function useContinueWatching() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: CONTINUE_WATCHING_QUERY_KEY,
+    queryFn: fetchContinueWatching,
+    enabled: !!user,
+  });
+}
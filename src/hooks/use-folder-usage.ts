@@ -0,0 +1,13 @@
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/contexts/AuthContext";
+import { fetchFolderUsage, FOLDER_USAGE_QUERY_KEY } from "@/lib/account";
+
+export function useFolderUsage() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: FOLDER_USAGE_QUERY_KEY,
+    queryFn: fetchFolderUsage,
+    enabled: !!user,
+  });
+}
@@ -0,0 +1,15 @@
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/contexts/AuthContext";
+import { fetchPlaybackPositions, PLAYBACK_POSITIONS_QUERY_KEY } from "@/lib/playback";
+
+/** Where the signed-in user stopped in each of the files, keyed by file id. */
+export function usePlaybackPositions(fileIds: string[]) {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: [...PLAYBACK_POSITIONS_QUERY_KEY, fileIds],
+    queryFn: () => fetchPlaybackPositions(fileIds),
+    select: positions => new Map(positions.map(position => [position.fileId, position])),
+    enabled: !!user && fileIds.length > 0,
+  });
+}
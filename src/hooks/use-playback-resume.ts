@@ -0,0 +1,125 @@
+import { useEffect, useRef, useState, type SyntheticEvent } from "react";
+import { useQuery, useQueryClient, type QueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  clearPlaybackPosition,
+  CONTINUE_WATCHING_QUERY_KEY,
+  fetchPlaybackPosition,
+  PLAYBACK_POSITIONS_QUERY_KEY,
+  playbackQueryKey,
+  savePlaybackPosition,
+  type PlaybackPosition,
+} from "@/lib/playback";
+
+// How much playback there is between saves
+const SAVE_INTERVAL_SECONDS = 5;
+
+// Keeps the progress shown on file cards in step without refetching it
+const updateListedPosition = (queryClient: QueryClient, fileId: string, playback: PlaybackPosition | null) => {
+  queryClient.setQueriesData<PlaybackPosition[]>({ queryKey: PLAYBACK_POSITIONS_QUERY_KEY }, positions =>
+    positions && [...positions.filter(entry => entry.fileId !== fileId), ...(playback ? [playback] : [])],
+  );
+};
+
+const storePosition = (queryClient: QueryClient, fileId: string, media: HTMLMediaElement, keepalive = false) => {
+  if (!Number.isFinite(media.duration)) return;
+  savePlaybackPosition(fileId, media.currentTime, media.duration, keepalive)
+    .then(playback => {
+      queryClient.setQueryData(playbackQueryKey(fileId), playback);
+      updateListedPosition(queryClient, fileId, playback);
+      // Picked up the next time the list is shown, not on every save
+      queryClient.invalidateQueries({ queryKey: CONTINUE_WATCHING_QUERY_KEY, refetchType: "none" });
+    })
+    .catch(() => undefined);
+};
+
+/**
+ * Remembers how far the signed-in user got in a file and carries on from there
+ * the next time it is played. Spread `mediaEvents` onto the <video> or <audio>
+ * element; `resumedAt` is set while playback picked up from a saved position.
+ */
+export function usePlaybackResume(fileId: string | undefined) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const mediaRef = useRef<HTMLMediaElement | null>(null);
+  // Nothing is saved until the saved position has been applied, so it can't be overwritten with 0:00
+  const resumedRef = useRef(false);
+  const lastSavedRef = useRef(0);
+  const [resumedAt, setResumedAt] = useState<number | null>(null);
+
+  const { data: saved, isFetched } = useQuery({
+    queryKey: playbackQueryKey(fileId),
+    queryFn: () => fetchPlaybackPosition(fileId!),
+    enabled: !!user && !!fileId,
+  });
+
+  useEffect(() => {
+    resumedRef.current = false;
+    lastSavedRef.current = 0;
+    setResumedAt(null);
+    if (!fileId) return;
+
+    const saveNow = (keepalive: boolean) => {
+      if (mediaRef.current && resumedRef.current) storePosition(queryClient, fileId, mediaRef.current, keepalive);
+    };
+    const onPageHide = () => saveNow(true);
+    window.addEventListener("pagehide", onPageHide);
+    return () => {
+      window.removeEventListener("pagehide", onPageHide);
+      // Switching files or closing the player doesn't pause the old element
+      saveNow(true);
+      mediaRef.current = null;
+    };
+  }, [fileId, queryClient]);
+
+  const resume = () => {
+    const media = mediaRef.current;
+    if (resumedRef.current || !media || !isFetched || media.readyState < HTMLMediaElement.HAVE_METADATA) return;
+    resumedRef.current = true;
+    if (saved && saved.position < media.duration) {
+      media.currentTime = saved.position;
+      lastSavedRef.current = saved.position;
+      setResumedAt(saved.position);
+    }
+  };
+
+  // The saved position can arrive before or after the media is ready
+  useEffect(resume);
+
+  const startOver = () => {
+    if (!fileId) return;
+    if (mediaRef.current) mediaRef.current.currentTime = 0;
+    lastSavedRef.current = 0;
+    setResumedAt(null);
+    clearPlaybackPosition(fileId)
+      .then(() => {
+        queryClient.setQueryData(playbackQueryKey(fileId), null);
+        updateListedPosition(queryClient, fileId, null);
+        queryClient.invalidateQueries({ queryKey: CONTINUE_WATCHING_QUERY_KEY, refetchType: "none" });
+      })
+      .catch(() => undefined);
+  };
+
+  const save = (media: HTMLMediaElement) => {
+    if (!fileId || !resumedRef.current) return;
+    lastSavedRef.current = media.currentTime;
+    storePosition(queryClient, fileId, media);
+  };
+
+  const mediaEvents = {
+    onLoadedMetadata: (event: SyntheticEvent<HTMLMediaElement>) => {
+      mediaRef.current = event.currentTarget;
+      resume();
+    },
+    onTimeUpdate: (event: SyntheticEvent<HTMLMediaElement>) => {
+      if (Math.abs(event.currentTarget.currentTime - lastSavedRef.current) >= SAVE_INTERVAL_SECONDS) {
+        save(event.currentTarget);
+      }
+    },
+    onPause: (event: SyntheticEvent<HTMLMediaElement>) => save(event.currentTarget),
+    // Saving at the very end forgets the position
+    onEnded: (event: SyntheticEvent<HTMLMediaElement>) => save(event.currentTarget),
+  };
+
+  return { resumedAt, startOver, mediaEvents };
+}
@@ -0,0 +1,23 @@
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/contexts/AuthContext";
+import { fetchPlaylist, fetchPlaylists, playlistQueryKey, PLAYLISTS_QUERY_KEY } from "@/lib/playlists";
+
+export function usePlaylists() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: PLAYLISTS_QUERY_KEY,
+    queryFn: fetchPlaylists,
+    enabled: !!user,
+  });
+}
+
+export function usePlaylist(id: string | undefined) {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: playlistQueryKey(id),
+    queryFn: () => fetchPlaylist(id!),
+    enabled: !!user && !!id,
+  });
+}
@@ -0,0 +1,13 @@
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/contexts/AuthContext";
+import { fetchStorageUsage, USAGE_QUERY_KEY } from "@/lib/account";
+
+export function useStorageUsage() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: USAGE_QUERY_KEY,
+    queryFn: fetchStorageUsage,
+    enabled: !!user,
+  });
+}
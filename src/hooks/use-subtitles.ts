@@ -0,0 +1,14 @@
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/contexts/AuthContext";
+import { fetchSubtitles, subtitlesQueryKey } from "@/lib/subtitles";
+
+// Pass undefined for files that can't have subtitles, such as audio
+export function useSubtitles(fileId: string | undefined) {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: subtitlesQueryKey(fileId),
+    queryFn: () => fetchSubtitles(fileId!),
+    enabled: !!user && !!fileId,
+  });
+}
@@ -0,0 +1,13 @@
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/contexts/AuthContext";
+import { fetchTrash, TRASH_QUERY_KEY } from "@/lib/trash";
+
+export function useTrash() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: TRASH_QUERY_KEY,
+    queryFn: fetchTrash,
+    enabled: !!user,
+  });
+}
@@ -0,0 +1,102 @@
+import { apiRequest } from '@/lib/api';
+import { toCloudFile, type CloudFileResponse } from '@/lib/files';
+import type { Folder } from '@/lib/folders';
+import type { CloudFile } from '@/contexts/FileContext';
+
+// Each role can do everything the ones before it can
+export const ACCESS_ROLES = ['viewer', 'commenter', 'editor', 'owner'] as const;
+
+export type AccessRole = (typeof ACCESS_ROLES)[number];
+
+export const ROLE_DESCRIPTIONS: Record<AccessRole, string> = {
+  viewer: 'Viewers can open, play and download',
+  commenter: 'Commenters can also leave comments',
+  editor: 'Editors can also tag, rename, add folders, upload and restore older versions',
+  owner: 'Owners can also move, delete and decide who has access',
+};
+
+export const hasRole = (role: AccessRole | undefined, required: AccessRole) =>
+  role !== undefined && ACCESS_ROLES.indexOf(role) >= ACCESS_ROLES.indexOf(required);
+
+export const getInitials = (name: string) =>
+  name.split(/\s+/).filter(Boolean).slice(0, 2).map(part => part[0].toUpperCase()).join('');
+
+export interface AccessGrant {
+  id: string;
+  kind: 'file' | 'folder';
+  targetId: string;
+  role: AccessRole;
+  user: { id: string; name: string; email: string };
+  createdAt: string;
+}
+
+export type AccessTarget = { fileId: string } | { folderId: string };
+
+export const ACCESS_QUERY_KEY = ['access'] as const;
+
+// Without a target, every grant on the signed-in user's own library
+export const fetchAccessGrants = async (target?: AccessTarget) => {
+  const query = !target ? '' : 'fileId' in target ? `?fileId=${target.fileId}` : `?folderId=${target.folderId}`;
+  const { grants } = await apiRequest<{ grants: AccessGrant[] }>(`/api/access${query}`);
+  return grants;
+};
+
+// Giving someone who already has access a new role replaces their old one
+export const grantAccess = async (target: AccessTarget, email: string, role: AccessRole) => {
+  const { grant } = await apiRequest<{ grant: AccessGrant }>('/api/access', {
+    method: 'POST',
+    json: { ...target, email, role },
+  });
+  return grant;
+};
+
+export const updateAccess = async (id: string, role: AccessRole) => {
+  const { grant } = await apiRequest<{ grant: AccessGrant }>(`/api/access/${id}`, { method: 'PATCH', json: { role } });
+  return grant;
+};
+
+export const revokeAccess = (id: string) => apiRequest(`/api/access/${id}`, { method: 'DELETE' });
+
+// Items in other people's libraries
+
+export interface SharedOwner {
+  id: string;
+  name: string;
+}
+
+interface SharedDetails {
+  role: AccessRole;
+  owner: SharedOwner;
+  // The grant that gave the user access, for leaving the share
+  grantId: string;
+}
+
+export type SharedFolder = Folder & SharedDetails;
+
+export const SHARED_QUERY_KEY = ['shared'] as const;
+
+export const fetchSharedWithMe = async () => {
+  const { files, folders } = await apiRequest<{
+    files: (CloudFileResponse & SharedDetails)[];
+    folders: SharedFolder[];
+  }>('/api/shared');
+  return {
+    files: files.map(({ role, owner, grantId, ...file }) => ({ ...toCloudFile(file), role, owner, grantId })),
+    folders,
+  };
+};
+
+export interface SharedFolderContents {
+  folder: Folder & Omit<SharedDetails, 'grantId'>;
+  // From the folder that was shared down to this one
+  path: { id: string; name: string }[];
+  folders: Folder[];
+  files: CloudFile[];
+}
+
+export const fetchSharedFolder = async (id: string): Promise<SharedFolderContents> => {
+  const contents = await apiRequest<Omit<SharedFolderContents, 'files'> & { files: CloudFileResponse[] }>(
+    `/api/shared/folders/${id}`,
+  );
+  return { ...contents, files: contents.files.map(toCloudFile) };
+};
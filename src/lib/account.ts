@@ -0,0 +1,52 @@
+import type { CaptionStyle } from '@shared/captionStyle';
+import { apiRequest } from '@/lib/api';
+
+// All sizes are in bytes
+export interface StorageUsage {
+  used: number;
+  quota: number;
+  maxFileSize: number;
+}
+
+export const USAGE_QUERY_KEY = ['account', 'usage'] as const;
+
+export const fetchStorageUsage = async () => {
+  const { usage } = await apiRequest<{ usage: StorageUsage }>('/api/account/usage');
+  return usage;
+};
+
+// Usage of each top-level folder including everything nested in it; id is null for unfiled files
+export interface FolderUsage {
+  id: string | null;
+  name: string;
+  size: number;
+  fileCount: number;
+}
+
+// Nested under USAGE_QUERY_KEY so invalidating overall usage refreshes this too
+export const FOLDER_USAGE_QUERY_KEY = [...USAGE_QUERY_KEY, 'folders'] as const;
+
+export const fetchFolderUsage = async () => {
+  const { folders } = await apiRequest<{ folders: FolderUsage[] }>('/api/account/usage/folders');
+  return folders;
+};
+
+export interface Preferences {
+  captionStyle: CaptionStyle;
+}
+
+export const PREFERENCES_QUERY_KEY = ['account', 'preferences'] as const;
+
+export const fetchPreferences = async () => {
+  const { preferences } = await apiRequest<{ preferences: Preferences }>('/api/account/preferences');
+  return preferences;
+};
+
+// Only the settings given are changed
+export const updatePreferences = async (changes: { captionStyle?: Partial<CaptionStyle> }) => {
+  const { preferences } = await apiRequest<{ preferences: Preferences }>('/api/account/preferences', {
+    method: 'PATCH',
+    json: changes,
+  });
+  return preferences;
+};
@@ -0,0 +1,60 @@
+const API_BASE_URL = import.meta.env.VITE_API_URL ?? '';
+
+export class ApiError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+  }
+}
+
+interface ApiRequestOptions extends Omit<RequestInit, 'body'> {
+  json?: unknown;
+  body?: BodyInit;
+}
+
+// Resolves to true when the session could be recovered and the request is worth retrying
+type UnauthorizedHandler = () => Promise<boolean>;
+
+let unauthorizedHandler: UnauthorizedHandler | null = null;
+
+// These report their own 401s instead of triggering a session refresh
+const NO_REFRESH_PATHS = ['/api/auth/login', '/api/auth/signup', '/api/auth/refresh', '/api/auth/session', '/api/auth/logout'];
+
+export const setUnauthorizedHandler = (handler: UnauthorizedHandler | null) => {
+  unauthorizedHandler = handler;
+};
+
+// Absolute URLs, such as presigned storage links, are passed through untouched
+export const apiUrl = (path: string) => /^https?:\/\//.test(path) ? path : `${API_BASE_URL}${path}`;
+
+export const apiRequest = async <T = void>(path: string, options: ApiRequestOptions = {}): Promise<T> => {
+  const { json, headers, ...init } = options;
+
+  const send = () => fetch(apiUrl(path), {
+    credentials: 'include',
+    ...init,
+    headers: json !== undefined ? { 'Content-Type': 'application/json', ...headers } : headers,
+    body: json !== undefined ? JSON.stringify(json) : init.body,
+  });
+
+  let response = await send();
+
+  // An expired access token is renewed once, then the request is retried
+  if (response.status === 401 && !NO_REFRESH_PATHS.includes(path) && unauthorizedHandler && await unauthorizedHandler()) {
+    response = await send();
+  }
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => null);
+    throw new ApiError(response.status, data?.error ?? response.statusText);
+  }
+
+  if (response.status === 204) {
+    return undefined as T;
+  }
+
+  return response.json();
+};
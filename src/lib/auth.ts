@@ -0,0 +1,43 @@
+import { apiRequest } from '@/lib/api';
+
+export interface User {
+  id: string;
+  email: string;
+  name: string;
+  role: 'user' | 'admin';
+}
+
+export interface AuthSession {
+  user: User;
+  // Missing when the session was confirmed without issuing a new access token
+  accessTokenExpiresAt?: string;
+}
+
+let pendingRefresh: Promise<AuthSession | null> | null = null;
+
+const requestRefresh = async (): Promise<AuthSession | null> => {
+  try {
+    return await apiRequest<AuthSession>('/api/auth/refresh', { method: 'POST' });
+  } catch {
+    // Another tab may have rotated the refresh token a moment ago and set fresh cookies
+    return apiRequest<AuthSession>('/api/auth/session').catch(() => null);
+  }
+};
+
+// Concurrent callers share one request, since each refresh rotates the token
+export const refreshSession = () => {
+  pendingRefresh ??= requestRefresh().finally(() => {
+    pendingRefresh = null;
+  });
+  return pendingRefresh;
+};
+
+export const login = (email: string, password: string) =>
+  apiRequest<AuthSession>('/api/auth/login', { method: 'POST', json: { email, password } });
+
+export const signup = (email: string, password: string, name: string) =>
+  apiRequest<AuthSession>('/api/auth/signup', { method: 'POST', json: { email, password, name } });
+
+export const logout = () => apiRequest('/api/auth/logout', { method: 'POST' });
+
+export const logoutEverywhere = () => apiRequest('/api/auth/logout-all', { method: 'POST' });
@@ -0,0 +1,33 @@
+import { apiRequest } from '@/lib/api';
+import { FILES_QUERY_KEY } from '@/lib/files';
+
+// Matches the server's limit
+export const MAX_COMMENT_LENGTH = 2000;
+
+export interface FileComment {
+  id: string;
+  fileId: string;
+  authorId: string;
+  authorName: string;
+  body: string;
+  createdAt: string;
+}
+
+// Under the file list's key like version histories, so refetching files refreshes them too
+export const commentsQueryKey = (fileId: string) => [...FILES_QUERY_KEY, fileId, 'comments'] as const;
+
+export const fetchComments = async (fileId: string) => {
+  const { comments } = await apiRequest<{ comments: FileComment[] }>(`/api/files/${fileId}/comments`);
+  return comments;
+};
+
+export const addComment = async (fileId: string, body: string) => {
+  const { comment } = await apiRequest<{ comment: FileComment }>(`/api/files/${fileId}/comments`, {
+    method: 'POST',
+    json: { body },
+  });
+  return comment;
+};
+
+export const deleteComment = (fileId: string, commentId: string) =>
+  apiRequest(`/api/files/${fileId}/comments/${commentId}`, { method: 'DELETE' });
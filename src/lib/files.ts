@@ -0,0 +1,45 @@
+import { apiRequest, apiUrl } from '@/lib/api';
+import type { CloudFile } from '@/contexts/FileContext';
+
+export const FILES_QUERY_KEY = ['files'] as const;
+
+export type CloudFileResponse = Omit<CloudFile, 'uploadDate' | 'trashedAt'> & { uploadDate: string; trashedAt?: string };
+
+export const toCloudFile = (file: CloudFileResponse): CloudFile => ({
+  ...file,
+  url: apiUrl(file.url),
+  downloadUrl: apiUrl(file.downloadUrl),
+  thumbnail: file.thumbnail && apiUrl(file.thumbnail),
+  hlsUrl: file.hlsUrl && apiUrl(file.hlsUrl),
+  uploadDate: new Date(file.uploadDate),
+  trashedAt: file.trashedAt ? new Date(file.trashedAt) : undefined,
+});
+
+export const fetchFiles = async () => {
+  const { files } = await apiRequest<{ files: CloudFileResponse[] }>('/api/files');
+  return files.map(toCloudFile);
+};
+
+// A PDF page whose text matches a search, with the matching words marked in `snippet`
+export interface DocumentMatch {
+  fileId: string;
+  page: number;
+  snippet: string;
+  highlights: { start: number; end: number }[];
+}
+
+export const searchDocuments = async (query: string) => {
+  const { results } = await apiRequest<{ results: DocumentMatch[] }>(`/api/files/search?q=${encodeURIComponent(query)}`);
+  return results;
+};
+
+export const updateFile = async (id: string, changes: { tags?: string[]; parentId?: string | null }) => {
+  const { file } = await apiRequest<{ file: CloudFileResponse }>(`/api/files/${id}`, {
+    method: 'PATCH',
+    json: changes,
+  });
+  return toCloudFile(file);
+};
+
+// Moves the file to the trash
+export const deleteFile = (id: string) => apiRequest(`/api/files/${id}`, { method: 'DELETE' });
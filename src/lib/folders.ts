@@ -0,0 +1,82 @@
+import { apiRequest } from '@/lib/api';
+
+export interface Folder {
+  id: string;
+  name: string;
+  // Null for folders at the top level
+  parentId: string | null;
+  // Only set on folders listed in the trash
+  trashedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export const FOLDERS_QUERY_KEY = ['folders'] as const;
+
+export const fetchFolders = async () => {
+  const { folders } = await apiRequest<{ folders: Folder[] }>('/api/folders');
+  return folders;
+};
+
+export const createFolder = async (name: string, parentId: string | null) => {
+  const { folder } = await apiRequest<{ folder: Folder }>('/api/folders', {
+    method: 'POST',
+    json: { name, parentId },
+  });
+  return folder;
+};
+
+export const updateFolder = async (id: string, changes: { name?: string; parentId?: string | null }) => {
+  const { folder } = await apiRequest<{ folder: Folder }>(`/api/folders/${id}`, {
+    method: 'PATCH',
+    json: changes,
+  });
+  return folder;
+};
+
+// Moves the folder and everything in it to the trash
+export const deleteFolder = (id: string) => apiRequest(`/api/folders/${id}`, { method: 'DELETE' });
+
+// From the top level down to and including the folder itself
+export const getFolderPath = (folders: Folder[], id: string | null) => {
+  const byId = new Map(folders.map(folder => [folder.id, folder]));
+  const path: Folder[] = [];
+  for (let folder = id ? byId.get(id) : undefined; folder; folder = folder.parentId ? byId.get(folder.parentId) : undefined) {
+    path.unshift(folder);
+    // A cycle would mean corrupt data; stop rather than loop forever
+    if (path.length > folders.length) break;
+  }
+  return path;
+};
+
+// The folder and every folder beneath it
+export const getSubtreeIds = (folders: Folder[], id: string) => {
+  const ids = new Set([id]);
+  let added = true;
+  while (added) {
+    added = false;
+    for (const folder of folders) {
+      if (folder.parentId && ids.has(folder.parentId) && !ids.has(folder.id)) {
+        ids.add(folder.id);
+        added = true;
+      }
+    }
+  }
+  return ids;
+};
+
+// Depth-first with each folder's nesting depth, for indented pickers
+export const flattenFolderTree = (folders: Folder[]) => {
+  const childrenOf = (parentId: string | null) =>
+    folders.filter(folder => folder.parentId === parentId).sort((a, b) => a.name.localeCompare(b.name));
+
+  const result: { folder: Folder; depth: number }[] = [];
+  const visit = (parentId: string | null, depth: number) => {
+    for (const folder of childrenOf(parentId)) {
+      result.push({ folder, depth });
+      visit(folder.id, depth + 1);
+    }
+  };
+  visit(null, 0);
+  return result;
+};
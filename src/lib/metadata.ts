@@ -0,0 +1,68 @@
+import type { MediaMetadata } from '@shared/mediaMetadata';
+
+const CODEC_LABELS: Record<string, string> = {
+  h264: 'H.264',
+  hevc: 'HEVC',
+  vp8: 'VP8',
+  vp9: 'VP9',
+  av1: 'AV1',
+  mpeg4: 'MPEG-4',
+  aac: 'AAC',
+  mp3: 'MP3',
+  opus: 'Opus',
+  vorbis: 'Vorbis',
+  flac: 'FLAC',
+  ac3: 'AC-3',
+  eac3: 'E-AC-3',
+};
+
+const codecLabel = (codec: string) => CODEC_LABELS[codec] ?? codec.toUpperCase();
+
+export const formatDuration = (seconds: number) => {
+  const total = Math.round(seconds);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = String(total % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+};
+
+const formatBitrate = (bitsPerSecond: number) =>
+  bitsPerSecond >= 1_000_000
+    ? `${(bitsPerSecond / 1_000_000).toFixed(1)} Mbps`
+    : `${Math.round(bitsPerSecond / 1000)} kbps`;
+
+// "Artist — Title" for tagged audio, so tracks aren't only known by their file names
+export const describeTrack = (metadata: MediaMetadata | undefined) => {
+  if (metadata?.kind !== 'audio' || !metadata.title) return null;
+  return metadata.artist ? `${metadata.artist} — ${metadata.title}` : metadata.title;
+};
+
+// Short technical facts, in the order they are most useful when scanning a list
+export const describeMetadata = (metadata: MediaMetadata | undefined): string[] => {
+  if (!metadata) return [];
+
+  switch (metadata.kind) {
+    case 'video':
+      return [
+        metadata.duration && formatDuration(metadata.duration),
+        `${metadata.width}×${metadata.height}`,
+        metadata.frameRate && `${metadata.frameRate} fps`,
+        [metadata.videoCodec, metadata.audioCodec].filter(Boolean).map(codecLabel).join(' / '),
+      ].filter(Boolean);
+
+    case 'audio':
+      return [
+        metadata.duration && formatDuration(metadata.duration),
+        metadata.album && (metadata.trackNumber ? `${metadata.album} · #${metadata.trackNumber}` : metadata.album),
+        metadata.codec && codecLabel(metadata.codec),
+        metadata.bitrate && formatBitrate(metadata.bitrate),
+      ].filter(Boolean);
+
+    case 'pdf':
+      return [
+        metadata.pageCount && `${metadata.pageCount} ${metadata.pageCount === 1 ? 'page' : 'pages'}`,
+        metadata.title,
+        metadata.author && `by ${metadata.author}`,
+      ].filter(Boolean);
+  }
+};
@@ -0,0 +1,57 @@
+import { apiRequest } from '@/lib/api';
+import { toCloudFile, type CloudFileResponse } from '@/lib/files';
+
+// Where a user stopped in a video or audio file, in seconds
+export interface PlaybackPosition {
+  fileId: string;
+  position: number;
+  duration: number;
+  updatedAt: string;
+}
+
+export const CONTINUE_WATCHING_QUERY_KEY = ['continue-watching'] as const;
+
+export const playbackQueryKey = (fileId: string | undefined) => ['playback', fileId] as const;
+
+export const PLAYBACK_POSITIONS_QUERY_KEY = ['playback-positions'] as const;
+
+// The server looks up this many files per request
+const POSITIONS_BATCH_SIZE = 100;
+
+// Files the user stopped partway through, most recently played first
+export const fetchContinueWatching = async () => {
+  const { files } = await apiRequest<{ files: (CloudFileResponse & { playback: PlaybackPosition })[] }>('/api/playback');
+  return files.map(({ playback, ...file }) => ({ ...toCloudFile(file), playback }));
+};
+
+export const fetchPlaybackPosition = async (fileId: string) => {
+  const { playback } = await apiRequest<{ playback: PlaybackPosition | null }>(`/api/playback/${fileId}`);
+  return playback;
+};
+
+// Saved positions in whichever of the files the user stopped partway through
+export const fetchPlaybackPositions = async (fileIds: string[]) => {
+  const batches: string[][] = [];
+  for (let start = 0; start < fileIds.length; start += POSITIONS_BATCH_SIZE) {
+    batches.push(fileIds.slice(start, start + POSITIONS_BATCH_SIZE));
+  }
+  const results = await Promise.all(
+    batches.map(batch =>
+      apiRequest<{ positions: PlaybackPosition[] }>(`/api/playback/positions?fileIds=${batch.join(',')}`),
+    ),
+  );
+  return results.flatMap(({ positions }) => positions);
+};
+
+// Resolves to null when the position was too close to either end to keep
+export const savePlaybackPosition = async (fileId: string, position: number, duration: number, keepalive = false) => {
+  const { playback } = await apiRequest<{ playback: PlaybackPosition | null }>(`/api/playback/${fileId}`, {
+    method: 'PUT',
+    json: { position, duration },
+    // Lets the last position be saved while the page is closing
+    keepalive,
+  });
+  return playback;
+};
+
+export const clearPlaybackPosition = (fileId: string) => apiRequest(`/api/playback/${fileId}`, { method: 'DELETE' });
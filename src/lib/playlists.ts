@@ -0,0 +1,85 @@
+import { apiRequest, apiUrl } from '@/lib/api';
+import { toCloudFile, type CloudFileResponse } from '@/lib/files';
+
+export interface Playlist {
+  id: string;
+  name: string;
+  // In play order
+  fileIds: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type PlaylistFormat = 'm3u' | 'm3u8';
+
+export const PLAYLISTS_QUERY_KEY = ['playlists'] as const;
+
+export const playlistQueryKey = (id: string | undefined) => [...PLAYLISTS_QUERY_KEY, id] as const;
+
+interface PlaylistResponse {
+  playlist: Playlist;
+  files: CloudFileResponse[];
+}
+
+// The files come back in order, leaving out any the user can no longer play
+const toPlaylistContents = ({ playlist, files }: PlaylistResponse) => ({ playlist, files: files.map(toCloudFile) });
+
+export type PlaylistContents = ReturnType<typeof toPlaylistContents>;
+
+export const fetchPlaylists = async () => {
+  const { playlists } = await apiRequest<{ playlists: Playlist[] }>('/api/playlists');
+  return playlists;
+};
+
+export const fetchPlaylist = async (id: string) =>
+  toPlaylistContents(await apiRequest<PlaylistResponse>(`/api/playlists/${id}`));
+
+export const createPlaylist = async (name: string, fileIds: string[] = []) => {
+  const { playlist } = await apiRequest<{ playlist: Playlist }>('/api/playlists', {
+    method: 'POST',
+    json: { name, fileIds },
+  });
+  return playlist;
+};
+
+export const renamePlaylist = async (id: string, name: string) =>
+  toPlaylistContents(await apiRequest<PlaylistResponse>(`/api/playlists/${id}`, { method: 'PATCH', json: { name } }));
+
+export const addToPlaylist = async (id: string, fileId: string) => {
+  const { playlist } = await apiRequest<{ playlist: Playlist }>(`/api/playlists/${id}/files`, {
+    method: 'POST',
+    json: { fileId },
+  });
+  return playlist;
+};
+
+// Moves a file in front of another one, or to the end when `beforeId` is null
+export const moveInPlaylist = async (id: string, fileId: string, beforeId: string | null) =>
+  toPlaylistContents(
+    await apiRequest<PlaylistResponse>(`/api/playlists/${id}/files/${fileId}`, { method: 'PATCH', json: { beforeId } }),
+  );
+
+export const removeFromPlaylist = async (id: string, fileId: string) =>
+  toPlaylistContents(await apiRequest<PlaylistResponse>(`/api/playlists/${id}/files/${fileId}`, { method: 'DELETE' }));
+
+export const deletePlaylist = (id: string) => apiRequest(`/api/playlists/${id}`, { method: 'DELETE' });
+
+// Entries are matched to the user's files by name; `unmatched` lists the ones that weren't found
+export const importPlaylist = (name: string, content: string) =>
+  apiRequest<{ playlist: Playlist; unmatched: string[] }>('/api/playlists/import', {
+    method: 'POST',
+    json: { name, content },
+  });
+
+// Older M3U files are usually Latin-1 rather than UTF-8
+export const readPlaylistFile = async (file: File) => {
+  const bytes = await file.arrayBuffer();
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    return new TextDecoder('windows-1252').decode(bytes);
+  }
+};
+
+export const getPlaylistExportUrl = (id: string, format: PlaylistFormat) =>
+  apiUrl(`/api/playlists/${id}/export?format=${format}`);
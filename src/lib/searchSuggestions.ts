@@ -0,0 +1,54 @@
+import { QUERY_FIELDS } from '@shared/searchQuery';
+
+export interface QuerySuggestion {
+  label: string;
+  description?: string;
+  // Replaces input[start, end) when the suggestion is accepted
+  replacement: string;
+  start: number;
+  end: number;
+}
+
+const MAX_SUGGESTIONS = 8;
+
+const quoteIfNeeded = (value: string) => (/\s/.test(value) ? `"${value}"` : value);
+
+/**
+ * Suggests field names, or values for the field being typed, based on the word
+ * under the cursor. Tags come from the user's own files.
+ */
+export const getQuerySuggestions = (input: string, cursor: number, tags: string[]): QuerySuggestion[] => {
+  const before = input.slice(0, cursor);
+  const tokenStart = before.search(/\S*$/);
+  const negation = input[tokenStart] === '-' ? 1 : 0;
+  const start = tokenStart + negation;
+  const word = input.slice(start, cursor);
+
+  const separator = word.indexOf(':');
+  if (separator === -1) {
+    if (word.startsWith('"')) return [];
+    return QUERY_FIELDS
+      .filter(({ field }) => field.startsWith(word.toLowerCase()) && field !== word.toLowerCase())
+      .map(({ field, description }) => ({
+        label: `${field}:`,
+        description,
+        replacement: `${field}:`,
+        start,
+        end: cursor,
+      }));
+  }
+
+  const field = word.slice(0, separator).toLowerCase();
+  const prefix = word.slice(separator + 1).replace(/^"/, '').toLowerCase();
+  const values = field === 'tag' ? tags : QUERY_FIELDS.find(entry => entry.field === field)?.examples ?? [];
+
+  return values
+    .filter(value => value.toLowerCase().startsWith(prefix) && value.toLowerCase() !== prefix)
+    .slice(0, MAX_SUGGESTIONS)
+    .map(value => ({
+      label: `${field}:${value}`,
+      replacement: `${field}:${quoteIfNeeded(value)}`,
+      start,
+      end: cursor,
+    }));
+};
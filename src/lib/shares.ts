@@ -0,0 +1,98 @@
+import type { MediaMetadata } from '@shared/mediaMetadata';
+import { apiRequest, apiUrl } from '@/lib/api';
+import type { SubtitleTrack } from '@/lib/subtitles';
+import type { CloudFile } from '@/contexts/FileContext';
+
+export interface ShareLink {
+  id: string;
+  token: string;
+  kind: 'file' | 'folder';
+  targetId: string;
+  targetName: string;
+  hasPassword: boolean;
+  // Null for links that never expire
+  expiresAt: string | null;
+  // Null for unlimited downloads
+  maxDownloads: number | null;
+  downloadCount: number;
+  previewOnly: boolean;
+  createdAt: string;
+}
+
+export interface NewShareLink {
+  fileId?: string;
+  folderId?: string;
+  expiresAt?: string | null;
+  password?: string;
+  maxDownloads?: number | null;
+  previewOnly: boolean;
+}
+
+export const SHARE_LINKS_QUERY_KEY = ['shareLinks'] as const;
+
+export const getShareUrl = (token: string) => `${window.location.origin}/s/${token}`;
+
+export const fetchShareLinks = async (target?: { fileId?: string; folderId?: string }) => {
+  const query = target?.fileId ? `?fileId=${target.fileId}` : target?.folderId ? `?folderId=${target.folderId}` : '';
+  const { shares } = await apiRequest<{ shares: ShareLink[] }>(`/api/shares${query}`);
+  return shares;
+};
+
+export const createShareLink = async (link: NewShareLink) => {
+  const { share } = await apiRequest<{ share: ShareLink }>('/api/shares', { method: 'POST', json: link });
+  return share;
+};
+
+export const revokeShareLink = (id: string) => apiRequest(`/api/shares/${id}`, { method: 'DELETE' });
+
+// What the public /s/:token page gets to see
+
+export interface SharedFile {
+  id: string;
+  name: string;
+  // Folder path inside a shared folder; empty at its top level
+  path: string;
+  type: CloudFile['type'];
+  mimeType: string;
+  size: number;
+  metadata?: MediaMetadata;
+  url: string;
+  // Missing when the link only allows viewing
+  downloadUrl?: string;
+  thumbnail?: string;
+  // Served through the link, so visitors see a video's captions too
+  subtitles: SubtitleTrack[];
+}
+
+export type SharedItem =
+  | { share: { locked: true }; files?: undefined }
+  | {
+      share: {
+        locked: false;
+        kind: 'file' | 'folder';
+        name: string;
+        previewOnly: boolean;
+        expiresAt: string | null;
+        downloadsRemaining: number | null;
+      };
+      files: SharedFile[];
+    };
+
+export const fetchSharedItem = async (token: string) => {
+  const item = await apiRequest<SharedItem>(`/api/public/shares/${encodeURIComponent(token)}`);
+  return item.files
+    ? {
+        ...item,
+        files: item.files.map(file => ({
+          ...file,
+          url: apiUrl(file.url),
+          downloadUrl: file.downloadUrl && apiUrl(file.downloadUrl),
+          thumbnail: file.thumbnail && apiUrl(file.thumbnail),
+          subtitles: file.subtitles.map(track => ({ ...track, url: apiUrl(track.url) })),
+        })),
+      }
+    : item;
+};
+
+export const unlockSharedItem = (token: string, password: string) =>
+  apiRequest(`/api/public/shares/${encodeURIComponent(token)}/unlock`, { method: 'POST', json: { password } });
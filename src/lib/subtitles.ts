@@ -0,0 +1,35 @@
+import { apiRequest, apiUrl } from '@/lib/api';
+import { FILES_QUERY_KEY } from '@/lib/files';
+
+// A caption track on a video, always served as WebVTT
+export interface SubtitleTrack {
+  id: string;
+  fileId: string;
+  // BCP 47, e.g. "en" or "pt-BR"
+  language: string;
+  label: string;
+  url: string;
+  createdAt: string;
+}
+
+// Under the file list's key like version histories, so refetching files refreshes them too
+export const subtitlesQueryKey = (fileId: string | undefined) => [...FILES_QUERY_KEY, fileId, 'subtitles'] as const;
+
+export const fetchSubtitles = async (fileId: string) => {
+  const { subtitles } = await apiRequest<{ subtitles: SubtitleTrack[] }>(`/api/files/${fileId}/subtitles`);
+  return subtitles.map(track => ({ ...track, url: apiUrl(track.url) }));
+};
+
+// SubRip files are converted to WebVTT by the server; a language the video already has is replaced
+export const attachSubtitles = async (fileId: string, file: File, language: string, label?: string) => {
+  const query = new URLSearchParams({ language, ...(label && { label }) });
+  const { subtitle } = await apiRequest<{ subtitle: SubtitleTrack }>(`/api/files/${fileId}/subtitles?${query}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'text/plain; charset=utf-8' },
+    body: file,
+  });
+  return { ...subtitle, url: apiUrl(subtitle.url) };
+};
+
+export const removeSubtitles = (fileId: string, trackId: string) =>
+  apiRequest(`/api/files/${fileId}/subtitles/${trackId}`, { method: 'DELETE' });
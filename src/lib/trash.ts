@@ -0,0 +1,39 @@
+import { apiRequest } from '@/lib/api';
+import { toCloudFile, type CloudFileResponse } from '@/lib/files';
+import type { Folder } from '@/lib/folders';
+import type { CloudFile } from '@/contexts/FileContext';
+
+export const TRASH_QUERY_KEY = ['trash'] as const;
+
+export interface TrashContents {
+  files: CloudFile[];
+  // Each trashed folder stands for everything that was inside it
+  folders: Folder[];
+  // Items are purged this many days after they were trashed
+  retentionDays: number;
+}
+
+export const fetchTrash = async (): Promise<TrashContents> => {
+  const { files, ...rest } = await apiRequest<Omit<TrashContents, 'files'> & { files: CloudFileResponse[] }>('/api/trash');
+  return { files: files.map(toCloudFile), ...rest };
+};
+
+export const restoreFile = async (id: string) => {
+  const { file } = await apiRequest<{ file: CloudFileResponse }>(`/api/trash/files/${id}/restore`, { method: 'POST' });
+  return toCloudFile(file);
+};
+
+export const restoreFolder = async (id: string) => {
+  const { folder } = await apiRequest<{ folder: Folder }>(`/api/trash/folders/${id}/restore`, { method: 'POST' });
+  return folder;
+};
+
+export const deleteFileForever = (id: string) => apiRequest(`/api/trash/files/${id}`, { method: 'DELETE' });
+
+export const deleteFolderForever = (id: string) => apiRequest(`/api/trash/folders/${id}`, { method: 'DELETE' });
+
+export const emptyTrash = () => apiRequest('/api/trash', { method: 'DELETE' });
+
+// When a trashed item will be purged for good
+export const getPurgeDate = (trashedAt: Date | string, retentionDays: number) =>
+  new Date(new Date(trashedAt).getTime() + retentionDays * 24 * 60 * 60 * 1000);
@@ -0,0 +1,147 @@
+import { apiRequest, ApiError } from '@/lib/api';
+import { toCloudFile, type CloudFileResponse } from '@/lib/files';
+import type { CloudFile } from '@/contexts/FileContext';
+import { guessMimeType } from '@shared/fileSignatures';
+
+export interface UploadSession {
+  id: string;
+  name: string;
+  type: CloudFile['type'];
+  mimeType: string;
+  size: number;
+  fingerprint: string;
+  chunkSize: number;
+  totalChunks: number;
+  receivedChunks: number[];
+  status: 'uploading' | 'assembling';
+  parentId: string | null;
+  createdAt: string;
+}
+
+interface ChunkedUploadOptions {
+  signal: AbortSignal;
+  // Folder the finished file goes into; the library root when null
+  parentId?: string | null;
+  onSession?: (upload: UploadSession) => void;
+  onProgress: (uploadedBytes: number) => void;
+  onVerifying: () => void;
+}
+
+const MAX_CHUNK_ATTEMPTS = 5;
+
+// Hashing reads the whole file into memory, so very large files let the server hash them instead
+const MAX_CLIENT_HASH_BYTES = 512 * 1024 * 1024;
+
+// Stable across page reloads, so picking the same file again resumes its upload
+export const getFileFingerprint = (file: File) => `${file.name}:${file.size}:${file.lastModified}`;
+
+/**
+ * SHA-256 of the file contents, which lets the server skip uploads of anything
+ * it already stores. Resolves to undefined when hashing isn't possible here.
+ */
+const hashFile = async (file: File) => {
+  if (!crypto.subtle || file.size > MAX_CLIENT_HASH_BYTES) return undefined;
+
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export const fetchPendingUploads = async () => {
+  const { uploads } = await apiRequest<{ uploads: UploadSession[] }>('/api/uploads');
+  return uploads;
+};
+
+export const cancelUpload = (uploadId: string) => apiRequest(`/api/uploads/${uploadId}`, { method: 'DELETE' });
+
+const isRetryable = (error: unknown) =>
+  error instanceof TypeError || (error instanceof ApiError && error.status >= 500);
+
+const sleep = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+
+const waitUntilOnline = (signal: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (navigator.onLine) return resolve();
+    const onOnline = () => resolve();
+    window.addEventListener('online', onOnline, { once: true });
+    signal.addEventListener('abort', () => {
+      window.removeEventListener('online', onOnline);
+      reject(signal.reason);
+    }, { once: true });
+  });
+
+const sendChunk = async (file: File, upload: UploadSession, index: number, signal: AbortSignal) => {
+  const start = index * upload.chunkSize;
+  const body = file.slice(start, Math.min(start + upload.chunkSize, file.size));
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      await apiRequest(`/api/uploads/${upload.id}/chunks/${index}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/octet-stream' },
+        body,
+        signal,
+      });
+      return body.size;
+    } catch (error) {
+      if (signal.aborted || !isRetryable(error) || attempt >= MAX_CHUNK_ATTEMPTS) throw error;
+      await waitUntilOnline(signal);
+      await sleep(1000 * 2 ** (attempt - 1), signal);
+    }
+  }
+};
+
+/**
+ * Uploads a file in chunks, skipping any the server already has, then asks the
+ * server to assemble them. Files whose contents are already in the user's library
+ * finish at once. Aborting the signal pauses the upload; calling this again with
+ * the same file picks up where it left off.
+ */
+export const uploadFileInChunks = async (
+  file: File,
+  { signal, parentId = null, onSession, onProgress, onVerifying }: ChunkedUploadOptions,
+) => {
+  const sha256 = await hashFile(file);
+  signal.throwIfAborted();
+
+  const started = await apiRequest<{ upload?: UploadSession; file?: CloudFileResponse }>('/api/uploads', {
+    method: 'POST',
+    json: { name: file.name, mimeType: guessMimeType(file.name, file.type), size: file.size, fingerprint: getFileFingerprint(file), sha256, parentId },
+    signal,
+  });
+
+  // The server already had these contents, so nothing needs to be sent
+  if (started.file) {
+    onProgress(file.size);
+    return toCloudFile(started.file);
+  }
+
+  const { upload } = started;
+  onSession?.(upload);
+
+  const received = new Set(upload.receivedChunks);
+  let uploadedBytes = upload.receivedChunks.reduce(
+    (total, index) => total + Math.min(upload.chunkSize, file.size - index * upload.chunkSize),
+    0,
+  );
+  onProgress(uploadedBytes);
+
+  for (let index = 0; index < upload.totalChunks; index++) {
+    if (received.has(index)) continue;
+    uploadedBytes += await sendChunk(file, upload, index, signal);
+    onProgress(uploadedBytes);
+  }
+
+  onVerifying();
+  const { file: cloudFile } = await apiRequest<{ file: CloudFileResponse }>(
+    `/api/uploads/${upload.id}/complete`,
+    { method: 'POST', signal },
+  );
+  return toCloudFile(cloudFile);
+};
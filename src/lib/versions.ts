@@ -0,0 +1,42 @@
+import type { MediaMetadata } from '@shared/mediaMetadata';
+import { apiRequest, apiUrl } from '@/lib/api';
+import { FILES_QUERY_KEY, toCloudFile, type CloudFileResponse } from '@/lib/files';
+import type { CloudFile } from '@/contexts/FileContext';
+
+export interface FileVersion {
+  id: string;
+  number: number;
+  type: CloudFile['type'];
+  mimeType: string;
+  size: number;
+  url: string;
+  downloadUrl: string;
+  thumbnail?: string;
+  metadata?: MediaMetadata;
+  uploadDate: Date;
+  // The version the file currently has; the rest are kept as history
+  current: boolean;
+}
+
+type FileVersionResponse = Omit<FileVersion, 'uploadDate'> & { uploadDate: string };
+
+// Under the file list's key, so anything that refetches files refreshes open histories too
+export const versionsQueryKey = (fileId: string) => [...FILES_QUERY_KEY, fileId, 'versions'] as const;
+
+export const fetchVersions = async (fileId: string) => {
+  const { versions } = await apiRequest<{ versions: FileVersionResponse[] }>(`/api/files/${fileId}/versions`);
+  return versions.map((version): FileVersion => ({
+    ...version,
+    url: apiUrl(version.url),
+    downloadUrl: apiUrl(version.downloadUrl),
+    thumbnail: version.thumbnail && apiUrl(version.thumbnail),
+    uploadDate: new Date(version.uploadDate),
+  }));
+};
+
+export const promoteVersion = async (fileId: string, versionId: string) => {
+  const { file } = await apiRequest<{ file: CloudFileResponse }>(`/api/files/${fileId}/versions/${versionId}/promote`, {
+    method: 'POST',
+  });
+  return toCloudFile(file);
+};
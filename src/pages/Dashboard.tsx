@@ -1,11 +1,16 @@
 import React from 'react';
 import { motion } from 'framer-motion';
-import { Upload, FolderOpen, Play, BarChart3, Clock } from 'lucide-react';
+import { Upload, FolderOpen, Play, BarChart3, Clock, FileAudio } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { useAuth } from '@/contexts/AuthContext';
 import { useFiles } from '@/contexts/FileContext';
+import { usePlayer } from '@/contexts/PlayerContext';
+import { useContinueWatching } from '@/hooks/use-continue-watching';
+import { useStorageUsage } from '@/hooks/use-storage-usage';
+import { useFolderUsage } from '@/hooks/use-folder-usage';
 import { useNavigate } from 'react-router-dom';
+import { formatDuration } from '@/lib/metadata';
 
 const Dashboard: React.FC = () => {
   const { user } = useAuth();
@@ -16,12 +21,20 @@ const Dashboard: React.FC = () => {
     const videoFiles = files.filter(f => f.type === 'video').length;
     const audioFiles = files.filter(f => f.type === 'audio').length;
     const pdfFiles = files.filter(f => f.type === 'pdf').length;
-    const totalSize = files.reduce((acc, f) => acc + f.size, 0);
+    // Identical uploads are stored once, so each distinct content hash is counted once
+    const blobSizes = new Map(files.map(f => [f.contentHash, f.size]));
+    const totalSize = Array.from(blobSizes.values()).reduce((acc, size) => acc + size, 0);
     
     return { videoFiles, audioFiles, pdfFiles, totalSize };
   };
 
   const { videoFiles, audioFiles, pdfFiles, totalSize } = getFileStats();
+  const { data: usage } = useStorageUsage();
+  const storageUsed = usage?.used ?? totalSize;
+  const usedPercent = usage?.quota ? Math.min((storageUsed / usage.quota) * 100, 100) : 0;
+  const { data: folderUsage = [] } = useFolderUsage();
+  const { data: continueWatching = [] } = useContinueWatching();
+  const { play } = usePlayer();
 
   const formatBytes = (bytes: number) => {
     if (bytes === 0) return '0 B';
@@ -72,6 +85,53 @@ const Dashboard: React.FC = () => {
           </p>
         </motion.div>
 
+        {/* Continue Watching */}
+        {continueWatching.length > 0 && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.05 }}
+            className="mb-8"
+          >
+            <h2 className="text-2xl font-semibold mb-6">Continue Watching</h2>
+            <div className="flex gap-4 overflow-x-auto pb-2">
+              {continueWatching.map(file => (
+                <button
+                  key={file.id}
+                  type="button"
+                  className="group w-56 flex-shrink-0 text-left rounded-lg overflow-hidden card-glass hover:bg-glass-surface transition-colors"
+                  onClick={() => play(file)}
+                >
+                  <div className="relative h-32 bg-gradient-secondary flex items-center justify-center">
+                    {file.thumbnail ? (
+                      <img src={file.thumbnail} alt="" loading="lazy" className="w-full h-full object-cover" />
+                    ) : file.type === 'audio' ? (
+                      <FileAudio className="h-10 w-10 text-primary-foreground" />
+                    ) : (
+                      <Play className="h-10 w-10 text-primary-foreground" />
+                    )}
+                    <div className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center">
+                      <Play className="h-8 w-8 text-white" />
+                    </div>
+                    <div className="absolute inset-x-0 bottom-0 h-1 bg-black/40">
+                      <div
+                        className="h-1 bg-primary"
+                        style={{ width: `${Math.min((file.playback.position / file.playback.duration) * 100, 100)}%` }}
+                      />
+                    </div>
+                  </div>
+                  <div className="p-3">
+                    <p className="font-medium truncate">{file.name}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {formatDuration(Math.max(file.playback.duration - file.playback.position, 0))} left
+                    </p>
+                  </div>
+                </button>
+              ))}
+            </div>
+          </motion.div>
+        )}
+
         {/* Stats Grid */}
         <motion.div 
           initial={{ opacity: 0, y: 20 }}
@@ -115,7 +175,7 @@ const Dashboard: React.FC = () => {
                 <span>Storage Usage</span>
               </CardTitle>
               <CardDescription>
-                Total storage used: {formatBytes(totalSize)}
+                Total storage used: {formatBytes(storageUsed)}
               </CardDescription>
             </CardHeader>
             <CardContent>
@@ -123,13 +183,46 @@ const Dashboard: React.FC = () => {
                 <motion.div 
                   className="bg-gradient-primary h-3 rounded-full"
                   initial={{ width: 0 }}
-                  animate={{ width: `${Math.min((totalSize / (1024 * 1024 * 100)) * 100, 100)}%` }}
+                  animate={{ width: `${usedPercent}%` }}
                   transition={{ delay: 0.5, duration: 1, ease: "easeOut" }}
                 />
               </div>
               <p className="text-xs text-muted-foreground mt-2">
-                {Math.min((totalSize / (1024 * 1024 * 100)) * 100, 100).toFixed(1)}% of 100MB used
+                {usage
+                  ? `${usedPercent.toFixed(1)}% of ${formatBytes(usage.quota)} used`
+                  : 'Loading storage allowance...'}
               </p>
+
+              {/* Only worth showing once there is more than the root to compare */}
+              {folderUsage.length > 1 && (
+                <div className="mt-6 space-y-3">
+                  <h3 className="text-sm font-medium">By folder</h3>
+                  {folderUsage.map(folder => (
+                    <button
+                      key={folder.id ?? 'root'}
+                      type="button"
+                      className="block w-full text-left space-y-1 rounded-md p-1 -m-1 hover:bg-glass-surface transition-colors"
+                      onClick={() => navigate(folder.id ? `/files/${folder.id}` : '/files')}
+                    >
+                      <div className="flex items-center justify-between text-sm">
+                        <span className="flex items-center space-x-2 truncate">
+                          <FolderOpen className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                          <span className="truncate">{folder.name}</span>
+                        </span>
+                        <span className="text-muted-foreground flex-shrink-0 ml-2">
+                          {formatBytes(folder.size)} • {folder.fileCount} {folder.fileCount === 1 ? 'file' : 'files'}
+                        </span>
+                      </div>
+                      <div className="w-full bg-muted rounded-full h-1.5">
+                        <div
+                          className="bg-primary h-1.5 rounded-full"
+                          style={{ width: `${storageUsed ? Math.min((folder.size / storageUsed) * 100, 100) : 0}%` }}
+                        />
+                      </div>
+                    </button>
+                  ))}
+                </div>
+              )}
             </CardContent>
           </Card>
         </motion.div>
@@ -193,10 +286,16 @@ const Dashboard: React.FC = () => {
                       className="flex items-center justify-between p-3 rounded-lg hover:bg-glass-surface transition-colors"
                     >
                       <div className="flex items-center space-x-3">
-                        <div className="w-8 h-8 bg-gradient-secondary rounded-lg flex items-center justify-center">
-                          {file.type === 'video' && <Play className="h-4 w-4 text-primary-foreground" />}
-                          {file.type === 'audio' && <BarChart3 className="h-4 w-4 text-primary-foreground" />}
-                          {file.type === 'pdf' && <Clock className="h-4 w-4 text-primary-foreground" />}
+                        <div className="w-8 h-8 bg-gradient-secondary rounded-lg flex items-center justify-center overflow-hidden">
+                          {file.thumbnail ? (
+                            <img src={file.thumbnail} alt="" loading="lazy" className="w-full h-full object-cover" />
+                          ) : (
+                            <>
+                              {file.type === 'video' && <Play className="h-4 w-4 text-primary-foreground" />}
+                              {file.type === 'audio' && <BarChart3 className="h-4 w-4 text-primary-foreground" />}
+                              {file.type === 'pdf' && <Clock className="h-4 w-4 text-primary-foreground" />}
+                            </>
+                          )}
                         </div>
                         <div>
                           <p className="font-medium">{file.name}</p>
@@ -1,5 +1,7 @@
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
+import { useQuery } from '@tanstack/react-query';
+import { useNavigate, useParams } from 'react-router-dom';
 import { 
   Play, 
   Download, 
@@ -10,38 +12,212 @@ import {
   FileVideo,
   FileAudio,
   FileText,
-  Pause,
-  Volume2,
-  VolumeX,
-  Eye,
   Trash2,
-  X
+  X,
+  FolderPlus,
+  FolderInput,
+  Share2,
+  Upload,
+  Users,
+  ListPlus
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import FilePreview from '@/components/files/FilePreview';
+import ProcessingIndicator from '@/components/files/ProcessingIndicator';
+import HighlightedSnippet from '@/components/files/HighlightedSnippet';
+import SearchQueryInput from '@/components/files/SearchQueryInput';
+import TagEditor from '@/components/files/TagEditor';
+import VersionHistory from '@/components/files/VersionHistory';
+import SubtitlesManager from '@/components/files/SubtitlesManager';
+import CommentsPanel from '@/components/files/CommentsPanel';
+import FolderBreadcrumbs from '@/components/files/FolderBreadcrumbs';
+import FolderCard from '@/components/files/FolderCard';
+import FolderNameDialog from '@/components/files/FolderNameDialog';
+import MoveDialog from '@/components/files/MoveDialog';
+import ShareDialog, { type ShareTarget } from '@/components/files/ShareDialog';
+import AccessDialog from '@/components/files/AccessDialog';
+import AccessSummary from '@/components/files/AccessSummary';
+import AddToPlaylistMenu from '@/components/playlists/AddToPlaylistMenu';
+import {
+  getQueryText,
+  matchesSearchQuery,
+  parseSearchQuery,
+  SearchQueryError,
+  type SearchQuery,
+} from '@shared/searchQuery';
+import { describeMetadata, describeTrack } from '@/lib/metadata';
+import { FILES_QUERY_KEY, searchDocuments } from '@/lib/files';
+import { getFolderPath, getSubtreeIds, type Folder } from '@/lib/folders';
+import { useAccessGrants } from '@/hooks/use-access-grants';
+import { usePlaybackPositions } from '@/hooks/use-playback-positions';
+import { useDebouncedValue } from '@/hooks/use-debounced-value';
 import { useFiles, CloudFile } from '@/contexts/FileContext';
+import { usePlayer } from '@/contexts/PlayerContext';
 import { useToast } from '@/hooks/use-toast';
+import { ToastAction } from '@/components/ui/toast';
 
 type ViewMode = 'grid' | 'list';
 type FilterType = 'all' | 'video' | 'audio' | 'pdf';
 
+type FolderDialog = { mode: 'create' } | { mode: 'rename'; folder: Folder };
+type MoveTarget = { kind: 'file'; file: CloudFile } | { kind: 'folder'; folder: Folder };
+
 const FilesPage: React.FC = () => {
-  const { files, removeFile } = useFiles();
+  const {
+    files,
+    folders,
+    isLoading,
+    removeFile,
+    restoreFile,
+    getFile,
+    moveFile,
+    createFolder,
+    renameFolder,
+    moveFolder,
+    deleteFolder,
+    restoreFolder,
+  } = useFiles();
+  const { play, addToQueue, current: nowPlaying, setExpanded } = usePlayer();
+  const { folderId } = useParams();
+  const navigate = useNavigate();
   const { toast } = useToast();
+  const currentFolderId = folderId ?? null;
   const [searchTerm, setSearchTerm] = useState('');
   const [filterType, setFilterType] = useState<FilterType>('all');
   const [viewMode, setViewMode] = useState<ViewMode>('grid');
   const [selectedFile, setSelectedFile] = useState<CloudFile | null>(null);
-  const [isPlaying, setIsPlaying] = useState<{ [key: string]: boolean }>({});
-  const [isMuted, setIsMuted] = useState<{ [key: string]: boolean }>({});
+  const [selectedPage, setSelectedPage] = useState(1);
+  const [folderDialog, setFolderDialog] = useState<FolderDialog | null>(null);
+  const [moveTarget, setMoveTarget] = useState<MoveTarget | null>(null);
+  const [shareTarget, setShareTarget] = useState<ShareTarget | null>(null);
+  const [accessTarget, setAccessTarget] = useState<ShareTarget | null>(null);
+  const { data: grantsByItem } = useAccessGrants();
+
+  const folderPath = getFolderPath(folders, currentFolderId);
+  const currentFolder = folderPath[folderPath.length - 1];
+
+  // A folder that was deleted or never existed falls back to the top level
+  useEffect(() => {
+    if (currentFolderId && !isLoading && !folders.some(folder => folder.id === currentFolderId)) {
+      navigate('/files', { replace: true });
+    }
+  }, [currentFolderId, folders, isLoading, navigate]);
+
+  // A query that doesn't parse filters nothing, while its error is shown under the search box
+  const { query, queryError } = useMemo((): { query: SearchQuery; queryError: SearchQueryError | null } => {
+    try {
+      return { query: parseSearchQuery(searchTerm), queryError: null };
+    } catch (error) {
+      if (error instanceof SearchQueryError) return { query: { terms: [] }, queryError: error };
+      throw error;
+    }
+  }, [searchTerm]);
+
+  const allTags = useMemo(() => [...new Set(files.flatMap(file => file.tags))].sort(), [files]);
+
+  const matchesFilter = (file: CloudFile) => filterType === 'all' || file.type === filterType;
+  // Browsing shows one folder; a search looks through every folder
+  const isSearching = query.terms.length > 0;
+  const filteredFiles = files.filter(file =>
+    matchesFilter(file) && matchesSearchQuery(file, query) && (isSearching || file.parentId === currentFolderId),
+  );
+  // Video cards show how far the user got
+  const { data: playbackByFile } = usePlaybackPositions(
+    filteredFiles.filter(file => file.type === 'video').map(file => file.id),
+  );
+  const subfolders = isSearching
+    ? []
+    : folders.filter(folder => folder.parentId === currentFolderId).sort((a, b) => a.name.localeCompare(b.name));
+
+  const countItems = (folder: Folder) =>
+    files.filter(file => file.parentId === folder.id).length +
+    folders.filter(child => child.parentId === folder.id).length;
+
+  const reportError = (title: string, error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : 'Please try again',
+      variant: "destructive",
+    });
+  };
+
+  const submitFolderName = async (name: string) => {
+    try {
+      if (folderDialog?.mode === 'rename') {
+        await renameFolder(folderDialog.folder.id, name);
+      } else {
+        await createFolder(name, currentFolderId);
+      }
+    } catch (error) {
+      reportError(folderDialog?.mode === 'rename' ? 'Rename Failed' : 'Could Not Create Folder', error);
+      throw error;
+    }
+  };
+
+  const moveItem = async (parentId: string | null) => {
+    if (!moveTarget) return;
+    try {
+      if (moveTarget.kind === 'file') {
+        await moveFile(moveTarget.file.id, parentId);
+      } else {
+        await moveFolder(moveTarget.folder.id, parentId);
+      }
+      toast({
+        title: "Moved",
+        description: `${moveTarget.kind === 'file' ? moveTarget.file.name : moveTarget.folder.name} was moved`,
+      });
+    } catch (error) {
+      reportError('Move Failed', error);
+      throw error;
+    }
+  };
+
+  // Deleting only moves things to the trash, so an Undo in the toast stands in for a confirmation
+  const trashItem = async (name: string, trash: () => Promise<void>, restore: () => Promise<void>) => {
+    try {
+      await trash();
+    } catch (error) {
+      reportError('Delete Failed', error);
+      return;
+    }
+
+    const undo = async () => {
+      try {
+        await restore();
+        toast({ title: "Restored", description: `${name} has been restored` });
+      } catch (error) {
+        reportError('Restore Failed', error);
+      }
+    };
+
+    toast({
+      title: "Moved to Trash",
+      description: `${name} can be restored from the trash`,
+      action: <ToastAction altText="Undo" onClick={undo}>Undo</ToastAction>,
+    });
+  };
 
-  const filteredFiles = files.filter(file => {
-    const matchesSearch = file.name.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesFilter = filterType === 'all' || file.type === filterType;
-    return matchesSearch && matchesFilter;
+  const deleteFolderItem = (folder: Folder) =>
+    trashItem(folder.name, () => deleteFolder(folder.id), () => restoreFolder(folder.id));
+
+  // File names are matched above; the server searches inside PDFs for the query's free text
+  const documentQuery = useDebouncedValue(getQueryText(query), 300);
+  const fieldTerms: SearchQuery = { terms: query.terms.filter(term => term.field !== 'text') };
+  const { data: documentMatches = [] } = useQuery({
+    queryKey: [...FILES_QUERY_KEY, 'search', documentQuery],
+    queryFn: () => searchDocuments(documentQuery),
+    enabled: documentQuery.length > 1 && (filterType === 'all' || filterType === 'pdf'),
   });
+  const visibleMatches = documentMatches
+    .map(match => ({ match, file: getFile(match.fileId) }))
+    .filter(({ file }) => file && matchesFilter(file) && matchesSearchQuery(file, fieldTerms));
+
+  const openPdf = (file: CloudFile, page = 1) => {
+    setSelectedPage(page);
+    setSelectedFile(file);
+  };
 
   const formatBytes = (bytes: number) => {
     if (bytes === 0) return '0 B';
@@ -63,7 +239,7 @@ const FilesPage: React.FC = () => {
 
   const downloadFile = (file: CloudFile) => {
     const link = document.createElement('a');
-    link.href = file.url;
+    link.href = file.downloadUrl;
     link.download = file.name;
     document.body.appendChild(link);
     link.click();
@@ -75,22 +251,23 @@ const FilesPage: React.FC = () => {
     });
   };
 
-  const deleteFile = (file: CloudFile) => {
-    removeFile(file.id);
-    URL.revokeObjectURL(file.url); // Clean up blob URL
-    toast({
-      title: "File Deleted",
-      description: `${file.name} has been removed`,
-    });
+  // Playing from here queues up everything playable that is on screen, in the same order
+  const playFile = (file: CloudFile) => {
+    play(file, filteredFiles.filter(entry => entry.type !== 'pdf'));
+    // The docked player is too small for a video's controls and captions
+    if (file.type === 'video') setExpanded(true);
   };
 
-  const togglePlay = (fileId: string) => {
-    setIsPlaying(prev => ({ ...prev, [fileId]: !prev[fileId] }));
+  const queueFile = (file: CloudFile) => {
+    addToQueue(file);
+    toast({
+      title: "Added to Queue",
+      description: `${file.name} will play after what's already queued`,
+    });
   };
 
-  const toggleMute = (fileId: string) => {
-    setIsMuted(prev => ({ ...prev, [fileId]: !prev[fileId] }));
-  };
+  const deleteFile = (file: CloudFile) =>
+    trashItem(file.name, () => removeFile(file.id), () => restoreFile(file.id));
 
   const getFileIcon = (type: CloudFile['type']) => {
     switch (type) {
@@ -108,87 +285,6 @@ const FilesPage: React.FC = () => {
     }
   };
 
-  const FilePreview: React.FC<{ file: CloudFile }> = ({ file }) => {
-    const [isLoading, setIsLoading] = useState(true);
-
-    switch (file.type) {
-      case 'video':
-        return (
-          <div className="relative group">
-            <video
-              src={file.url}
-              className="w-full h-48 object-cover rounded-lg"
-              controls={viewMode === 'grid'}
-              muted={isMuted[file.id]}
-              onLoadedData={() => setIsLoading(false)}
-              onPlay={() => setIsPlaying(prev => ({ ...prev, [file.id]: true }))}
-              onPause={() => setIsPlaying(prev => ({ ...prev, [file.id]: false }))}
-            />
-            {isLoading && (
-              <div className="absolute inset-0 bg-muted animate-pulse rounded-lg flex items-center justify-center">
-                <FileVideo className="w-12 h-12 text-muted-foreground" />
-              </div>
-            )}
-            {viewMode === 'list' && (
-              <div className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center space-x-2">
-                <Button
-                  size="sm"
-                  variant="glass"
-                  onClick={() => togglePlay(file.id)}
-                >
-                  {isPlaying[file.id] ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
-                </Button>
-                <Button
-                  size="sm"
-                  variant="glass"
-                  onClick={() => toggleMute(file.id)}
-                >
-                  {isMuted[file.id] ? <VolumeX className="w-4 h-4" /> : <Volume2 className="w-4 h-4" />}
-                </Button>
-              </div>
-            )}
-          </div>
-        );
-        
-      case 'audio':
-        return (
-          <div className="w-full h-48 bg-gradient-secondary rounded-lg flex flex-col items-center justify-center p-6">
-            <FileAudio className="w-16 h-16 text-primary-foreground mb-4" />
-            <audio
-              src={file.url}
-              controls
-              className="w-full"
-              onPlay={() => setIsPlaying(prev => ({ ...prev, [file.id]: true }))}
-              onPause={() => setIsPlaying(prev => ({ ...prev, [file.id]: false }))}
-            />
-          </div>
-        );
-        
-      case 'pdf':
-        return (
-          <div className="relative w-full h-48 bg-muted rounded-lg">
-            <iframe
-              src={`${file.url}#toolbar=0`}
-              className="w-full h-full rounded-lg"
-              title={file.name}
-            />
-            <div className="absolute inset-0 bg-gradient-to-t from-black/60 to-transparent opacity-0 hover:opacity-100 transition-opacity flex items-center justify-center">
-              <Button
-                variant="glass"
-                onClick={() => setSelectedFile(file)}
-              >
-                <Eye className="mr-2 w-4 h-4" />
-                View Full
-              </Button>
-            </div>
-          </div>
-        );
-        
-      default:
-        return null;
-    }
-  };
-
   return (
     <div className="min-h-screen bg-background">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
@@ -198,16 +294,30 @@ const FilesPage: React.FC = () => {
           animate={{ opacity: 1, y: 0 }}
           className="mb-8"
         >
-          <div className="flex items-center justify-between">
-            <div>
-              <h1 className="text-4xl font-bold bg-gradient-hero bg-clip-text text-transparent">
-                My Files
+          <FolderBreadcrumbs path={folderPath} />
+          <div className="flex items-center justify-between mt-4">
+            <div className="min-w-0">
+              <h1 className="text-4xl font-bold bg-gradient-hero bg-clip-text text-transparent truncate">
+                {currentFolder?.name ?? 'My Files'}
               </h1>
               <p className="text-muted-foreground mt-2 text-lg">
-                {filteredFiles.length} of {files.length} files
+                {isSearching
+                  ? `${filteredFiles.length} of ${files.length} files match, across all folders`
+                  : `${subfolders.length} ${subfolders.length === 1 ? 'folder' : 'folders'}, ${filteredFiles.length} files`}
               </p>
             </div>
             <div className="flex items-center space-x-2">
+              <Button variant="glass" onClick={() => setFolderDialog({ mode: 'create' })}>
+                <FolderPlus className="w-4 h-4 mr-2" />
+                New Folder
+              </Button>
+              <Button
+                variant="glass"
+                onClick={() => navigate(currentFolderId ? `/upload?folder=${currentFolderId}` : '/upload')}
+              >
+                <Upload className="w-4 h-4 mr-2" />
+                Upload here
+              </Button>
               <Button
                 variant={viewMode === 'grid' ? 'default' : 'ghost'}
                 size="icon"
@@ -236,16 +346,13 @@ const FilesPage: React.FC = () => {
           <Card className="card-glass">
             <CardContent className="p-6">
               <div className="flex flex-col sm:flex-row gap-4">
-                <div className="relative flex-1">
-                  <Search className="absolute left-3 top-3 w-4 h-4 text-muted-foreground" />
-                  <Input
-                    placeholder="Search files..."
-                    value={searchTerm}
-                    onChange={(e) => setSearchTerm(e.target.value)}
-                    className="pl-10"
-                  />
-                </div>
-                <div className="flex items-center space-x-2">
+                <SearchQueryInput
+                  value={searchTerm}
+                  onChange={setSearchTerm}
+                  error={queryError}
+                  tags={allTags}
+                />
+                <div className="flex items-center space-x-2 self-start">
                   <Filter className="w-4 h-4 text-muted-foreground" />
                   {(['all', 'video', 'audio', 'pdf'] as FilterType[]).map((type) => (
                     <Button
@@ -264,8 +371,60 @@ const FilesPage: React.FC = () => {
           </Card>
         </motion.div>
 
+        {/* Matches inside documents */}
+        {visibleMatches.length > 0 && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="mb-8"
+          >
+            <h2 className="text-lg font-semibold mb-4">Found inside documents</h2>
+            <div className="space-y-2">
+              {visibleMatches.map(({ match, file }) => (
+                <Card
+                  key={`${match.fileId}-${match.page}`}
+                  className="card-glass cursor-pointer hover:bg-glass-surface transition-colors"
+                  onClick={() => openPdf(file, match.page)}
+                >
+                  <CardContent className="flex items-start p-4">
+                    <FileText className="w-5 h-5 text-purple-500 mr-3 mt-0.5 shrink-0" />
+                    <div className="min-w-0 flex-1">
+                      <div className="flex items-center justify-between mb-1">
+                        <h3 className="font-medium truncate mr-2">{file.name}</h3>
+                        <Badge variant="outline">Page {match.page}</Badge>
+                      </div>
+                      <HighlightedSnippet match={match} />
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          </motion.div>
+        )}
+
+        {/* Folders */}
+        {subfolders.length > 0 && (
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4 mb-8">
+            <AnimatePresence>
+              {subfolders.map(folder => (
+                <FolderCard
+                  key={folder.id}
+                  folder={folder}
+                  itemCount={countItems(folder)}
+                  onRename={folder => setFolderDialog({ mode: 'rename', folder })}
+                  onMove={folder => setMoveTarget({ kind: 'folder', folder })}
+                  grants={grantsByItem?.get(folder.id)}
+                  onShare={folder => setShareTarget({ kind: 'folder', id: folder.id, name: folder.name })}
+                  onManageAccess={folder => setAccessTarget({ kind: 'folder', id: folder.id, name: folder.name })}
+                  onDelete={deleteFolderItem}
+                />
+              ))}
+            </AnimatePresence>
+          </div>
+        )}
+
         {/* Files Grid/List */}
-        {filteredFiles.length === 0 ? (
+        {filteredFiles.length === 0 && visibleMatches.length === 0 && subfolders.length === 0 ? (
           <motion.div 
             initial={{ opacity: 0 }}
             animate={{ opacity: 1 }}
@@ -275,11 +434,11 @@ const FilesPage: React.FC = () => {
             <div className="w-24 h-24 bg-muted rounded-full flex items-center justify-center mx-auto mb-4">
               <Search className="w-12 h-12 text-muted-foreground" />
             </div>
-            <h3 className="text-xl font-semibold mb-2">No files found</h3>
+            <h3 className="text-xl font-semibold mb-2">{currentFolder && !isSearching ? 'This folder is empty' : 'No files found'}</h3>
             <p className="text-muted-foreground">
               {searchTerm || filterType !== 'all' 
                 ? 'Try adjusting your search or filter criteria' 
-                : 'Upload your first file to get started'
+                : currentFolder ? 'Upload files here or move existing ones in' : 'Upload your first file to get started'
               }
             </p>
           </motion.div>
@@ -307,7 +466,13 @@ const FilesPage: React.FC = () => {
                       <CardContent className="p-0">
                         {viewMode === 'grid' ? (
                           <div>
-                            <FilePreview file={file} />
+                            <FilePreview
+                              file={file}
+                              isPlaying={nowPlaying?.id === file.id}
+                              playback={playbackByFile?.get(file.id)}
+                              onPlay={playFile}
+                              onOpenPdf={openPdf}
+                            />
                             <div className="p-4">
                               <div className="flex items-start justify-between mb-2">
                                 <h3 className="font-semibold text-sm truncate flex-1 mr-2">
@@ -317,10 +482,34 @@ const FilesPage: React.FC = () => {
                                   {file.type}
                                 </Badge>
                               </div>
+                              {describeTrack(file.metadata) && (
+                                <p className="text-sm text-foreground/80 truncate mb-2">{describeTrack(file.metadata)}</p>
+                              )}
                               <div className="text-xs text-muted-foreground mb-3 space-y-1">
                                 <p>{formatBytes(file.size)}</p>
-                                <p>{formatDate(file.uploadDate)}</p>
+                                <p>
+                                  {formatDate(file.uploadDate)}
+                                  {file.version > 1 && ` • version ${file.version}`}
+                                </p>
+                                {describeMetadata(file.metadata).length > 0 && (
+                                  <p className="truncate">{describeMetadata(file.metadata).join(' • ')}</p>
+                                )}
                               </div>
+                              {file.tags.length > 0 && (
+                                <div className="flex flex-wrap gap-1 mb-3">
+                                  {file.tags.map(tag => (
+                                    <Badge key={tag} variant="secondary" className="cursor-pointer" onClick={() => setSearchTerm(`tag:${tag}`)}>
+                                      {tag}
+                                    </Badge>
+                                  ))}
+                                </div>
+                              )}
+                              <AccessSummary
+                                grants={grantsByItem?.get(file.id)}
+                                onClick={() => setAccessTarget({ kind: 'file', id: file.id, name: file.name })}
+                                className="mb-3"
+                              />
+                              <ProcessingIndicator file={file} className="mb-3" />
                               <div className="flex space-x-2">
                                 <Button
                                   size="sm"
@@ -331,6 +520,45 @@ const FilesPage: React.FC = () => {
                                   <Download className="w-3 h-3 mr-1" />
                                   Download
                                 </Button>
+                                {file.type !== 'pdf' && (
+                                  <Button
+                                    size="sm"
+                                    variant="ghost"
+                                    title="Add to queue"
+                                    onClick={() => queueFile(file)}
+                                  >
+                                    <ListPlus className="w-3 h-3" />
+                                  </Button>
+                                )}
+                                {file.type !== 'pdf' && <AddToPlaylistMenu file={file} />}
+                                {file.type === 'video' && <SubtitlesManager file={file} />}
+                                <TagEditor file={file} />
+                                <CommentsPanel file={file} role="owner" />
+                                <VersionHistory file={file} />
+                                <Button
+                                  size="sm"
+                                  variant="ghost"
+                                  title="Move"
+                                  onClick={() => setMoveTarget({ kind: 'file', file })}
+                                >
+                                  <FolderInput className="w-3 h-3" />
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  variant="ghost"
+                                  title="Share"
+                                  onClick={() => setShareTarget({ kind: 'file', id: file.id, name: file.name })}
+                                >
+                                  <Share2 className="w-3 h-3" />
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  variant="ghost"
+                                  title="Manage access"
+                                  onClick={() => setAccessTarget({ kind: 'file', id: file.id, name: file.name })}
+                                >
+                                  <Users className="w-3 h-3" />
+                                </Button>
                                 <Button
                                   size="sm"
                                   variant="ghost"
@@ -343,8 +571,17 @@ const FilesPage: React.FC = () => {
                           </div>
                         ) : (
                           <div className="flex items-center p-4">
-                            <div className="w-16 h-16 bg-gradient-secondary rounded-lg flex items-center justify-center mr-4">
-                              <FileIcon className="w-8 h-8 text-primary-foreground" />
+                            <div className="w-16 h-16 bg-gradient-secondary rounded-lg flex items-center justify-center mr-4 overflow-hidden shrink-0">
+                              {file.thumbnail ? (
+                                <img
+                                  src={file.thumbnail}
+                                  alt=""
+                                  loading="lazy"
+                                  className="w-full h-full object-cover"
+                                />
+                              ) : (
+                                <FileIcon className="w-8 h-8 text-primary-foreground" />
+                              )}
                             </div>
                             <div className="flex-1 min-w-0">
                               <div className="flex items-center justify-between mb-1">
@@ -353,9 +590,32 @@ const FilesPage: React.FC = () => {
                                   {file.type}
                                 </Badge>
                               </div>
-                              <div className="text-sm text-muted-foreground">
-                                {formatBytes(file.size)} • {formatDate(file.uploadDate)}
+                              {describeTrack(file.metadata) && (
+                                <p className="text-sm text-foreground/80 truncate">{describeTrack(file.metadata)}</p>
+                              )}
+                              <div className="text-sm text-muted-foreground truncate">
+                                {[
+                                  formatBytes(file.size),
+                                  formatDate(file.uploadDate),
+                                  ...(file.version > 1 ? [`version ${file.version}`] : []),
+                                  ...describeMetadata(file.metadata),
+                                ].join(' • ')}
                               </div>
+                              {file.tags.length > 0 && (
+                                <div className="flex flex-wrap gap-1 mt-1">
+                                  {file.tags.map(tag => (
+                                    <Badge key={tag} variant="secondary" className="cursor-pointer" onClick={() => setSearchTerm(`tag:${tag}`)}>
+                                      {tag}
+                                    </Badge>
+                                  ))}
+                                </div>
+                              )}
+                              <AccessSummary
+                                grants={grantsByItem?.get(file.id)}
+                                onClick={() => setAccessTarget({ kind: 'file', id: file.id, name: file.name })}
+                                className="mt-1"
+                              />
+                              <ProcessingIndicator file={file} className="mt-2 max-w-xs" />
                             </div>
                             <div className="flex items-center space-x-2 ml-4">
                               <Button
@@ -365,6 +625,55 @@ const FilesPage: React.FC = () => {
                               >
                                 <Download className="w-4 h-4" />
                               </Button>
+                              {file.type !== 'pdf' && (
+                                <>
+                                  <Button
+                                    size="sm"
+                                    variant="ghost"
+                                    title="Play"
+                                    onClick={() => playFile(file)}
+                                  >
+                                    <Play className="w-4 h-4" />
+                                  </Button>
+                                  <Button
+                                    size="sm"
+                                    variant="ghost"
+                                    title="Add to queue"
+                                    onClick={() => queueFile(file)}
+                                  >
+                                    <ListPlus className="w-4 h-4" />
+                                  </Button>
+                                  <AddToPlaylistMenu file={file} iconClassName="w-4 h-4" />
+                                </>
+                              )}
+                              {file.type === 'video' && <SubtitlesManager file={file} iconClassName="w-4 h-4" />}
+                              <TagEditor file={file} />
+                              <CommentsPanel file={file} role="owner" iconClassName="w-4 h-4" />
+                              <VersionHistory file={file} />
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                title="Move"
+                                onClick={() => setMoveTarget({ kind: 'file', file })}
+                              >
+                                <FolderInput className="w-4 h-4" />
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                title="Share"
+                                onClick={() => setShareTarget({ kind: 'file', id: file.id, name: file.name })}
+                              >
+                                <Share2 className="w-4 h-4" />
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                title="Manage access"
+                                onClick={() => setAccessTarget({ kind: 'file', id: file.id, name: file.name })}
+                              >
+                                <Users className="w-4 h-4" />
+                              </Button>
                               <Button
                                 size="sm"
                                 variant="ghost"
@@ -384,6 +693,28 @@ const FilesPage: React.FC = () => {
           </motion.div>
         )}
 
+        <FolderNameDialog
+          open={folderDialog !== null}
+          onOpenChange={open => !open && setFolderDialog(null)}
+          title={folderDialog?.mode === 'rename' ? 'Rename folder' : 'New folder'}
+          submitLabel={folderDialog?.mode === 'rename' ? 'Rename' : 'Create'}
+          initialName={folderDialog?.mode === 'rename' ? folderDialog.folder.name : ''}
+          onSubmit={submitFolderName}
+        />
+
+        <MoveDialog
+          open={moveTarget !== null}
+          onOpenChange={open => !open && setMoveTarget(null)}
+          itemName={moveTarget?.kind === 'file' ? moveTarget.file.name : moveTarget?.folder.name ?? ''}
+          currentParentId={moveTarget?.kind === 'file' ? moveTarget.file.parentId : moveTarget?.folder.parentId ?? null}
+          excludeIds={moveTarget?.kind === 'folder' ? getSubtreeIds(folders, moveTarget.folder.id) : undefined}
+          onMove={moveItem}
+        />
+
+        <ShareDialog target={shareTarget} onClose={() => setShareTarget(null)} />
+
+        <AccessDialog target={accessTarget} onClose={() => setAccessTarget(null)} />
+
         {/* PDF Modal */}
         <AnimatePresence>
           {selectedFile?.type === 'pdf' && (
@@ -402,13 +733,18 @@ const FilesPage: React.FC = () => {
                 className="w-full max-w-4xl h-[80vh] bg-background rounded-lg overflow-hidden"
               >
                 <div className="flex items-center justify-between p-4 border-b border-border">
-                  <h3 className="font-semibold">{selectedFile.name}</h3>
+                  <h3 className="font-semibold">
+                    {selectedFile.name}
+                    {selectedPage > 1 && <span className="ml-2 text-sm font-normal text-muted-foreground">Page {selectedPage}</span>}
+                  </h3>
                   <Button variant="ghost" size="icon" onClick={() => setSelectedFile(null)}>
                     <X className="w-4 h-4" />
                   </Button>
                 </div>
                 <iframe
-                  src={selectedFile.url}
+                  // Keyed on the page so choosing another match reloads the viewer there
+                  key={selectedPage}
+                  src={`${selectedFile.url}#page=${selectedPage}`}
                   className="w-full h-full"
                   title={selectedFile.name}
                 />
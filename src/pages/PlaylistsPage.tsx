@@ -0,0 +1,158 @@
+import React, { useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { useQueryClient } from '@tanstack/react-query';
+import { NavLink, useNavigate, useParams } from 'react-router-dom';
+import { FileUp, ListVideo, Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import FolderNameDialog from '@/components/files/FolderNameDialog';
+import PlaylistDetail from '@/components/playlists/PlaylistDetail';
+import { usePlaylists } from '@/hooks/use-playlists';
+import { useToast } from '@/hooks/use-toast';
+import { createPlaylist, importPlaylist, PLAYLISTS_QUERY_KEY, readPlaylistFile } from '@/lib/playlists';
+
+const PlaylistsPage: React.FC = () => {
+  const { playlistId } = useParams();
+  const { data: playlists = [], isLoading } = usePlaylists();
+  const queryClient = useQueryClient();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [isCreating, setIsCreating] = useState(false);
+
+  const reportError = (title: string, error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : 'Please try again',
+      variant: "destructive",
+    });
+  };
+
+  const handleCreate = async (name: string) => {
+    try {
+      const playlist = await createPlaylist(name);
+      queryClient.invalidateQueries({ queryKey: PLAYLISTS_QUERY_KEY, exact: true });
+      navigate(`/playlists/${playlist.id}`);
+    } catch (error) {
+      reportError("Couldn't Create Playlist", error);
+      throw error;
+    }
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Lets the same file be picked again after fixing it
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const name = file.name.replace(/\.m3u8?$/i, '') || 'Imported playlist';
+      const { playlist, unmatched } = await importPlaylist(name, await readPlaylistFile(file));
+      queryClient.invalidateQueries({ queryKey: PLAYLISTS_QUERY_KEY, exact: true });
+      toast({
+        title: "Playlist Imported",
+        description: unmatched.length === 0
+          ? `${playlist.name} was imported with ${playlist.fileIds.length} items`
+          : `${playlist.fileIds.length} items were found in your library; ${unmatched.length} weren't: ${unmatched.slice(0, 3).join(', ')}${unmatched.length > 3 ? '…' : ''}`,
+      });
+      navigate(`/playlists/${playlist.id}`);
+    } catch (error) {
+      reportError('Import Failed', error);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="flex flex-wrap items-center justify-between gap-4 mb-8"
+        >
+          <div>
+            <h1 className="text-4xl font-bold bg-gradient-hero bg-clip-text text-transparent">
+              Playlists
+            </h1>
+            <p className="text-muted-foreground mt-2 text-lg">
+              Group audio and video into lists that play through in order
+            </p>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Button variant="glass" onClick={() => importInputRef.current?.click()}>
+              <FileUp className="w-4 h-4 mr-2" />
+              Import M3U
+            </Button>
+            <Button variant="hero" onClick={() => setIsCreating(true)}>
+              <Plus className="w-4 h-4 mr-2" />
+              New playlist
+            </Button>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept=".m3u,.m3u8,audio/x-mpegurl,application/vnd.apple.mpegurl"
+              className="hidden"
+              onChange={handleImport}
+            />
+          </div>
+        </motion.div>
+
+        {!isLoading && playlists.length === 0 ? (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            transition={{ delay: 0.2 }}
+            className="text-center py-16"
+          >
+            <div className="w-24 h-24 bg-muted rounded-full flex items-center justify-center mx-auto mb-4">
+              <ListVideo className="w-12 h-12 text-muted-foreground" />
+            </div>
+            <h3 className="text-xl font-semibold mb-2">No playlists yet</h3>
+            <p className="text-muted-foreground">Create one here, or use Add to playlist on a file</p>
+          </motion.div>
+        ) : (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.1 }}
+            className="grid grid-cols-1 md:grid-cols-[16rem_1fr] gap-6"
+          >
+            <nav className="space-y-1">
+              {playlists.map(playlist => (
+                <NavLink
+                  key={playlist.id}
+                  to={`/playlists/${playlist.id}`}
+                  className={({ isActive }) =>
+                    `block px-3 py-2 rounded-lg transition-colors ${
+                      isActive ? 'bg-primary/10 text-foreground' : 'text-muted-foreground hover:bg-glass-surface hover:text-foreground'
+                    }`
+                  }
+                >
+                  <p className="font-medium truncate">{playlist.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {playlist.fileIds.length} {playlist.fileIds.length === 1 ? 'item' : 'items'}
+                  </p>
+                </NavLink>
+              ))}
+            </nav>
+
+            {playlistId ? (
+              <PlaylistDetail key={playlistId} playlistId={playlistId} />
+            ) : (
+              <p className="text-muted-foreground text-center py-16">Pick a playlist to see what's in it</p>
+            )}
+          </motion.div>
+        )}
+      </div>
+
+      <FolderNameDialog
+        open={isCreating}
+        onOpenChange={setIsCreating}
+        title="New playlist"
+        submitLabel="Create"
+        placeholder="Playlist name"
+        onSubmit={handleCreate}
+      />
+    </div>
+  );
+};
+
+export default PlaylistsPage;
@@ -0,0 +1,60 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { useQuery } from '@tanstack/react-query';
+import { Link2 } from 'lucide-react';
+import ShareLinkRow from '@/components/files/ShareLinkRow';
+import { fetchShareLinks, SHARE_LINKS_QUERY_KEY } from '@/lib/shares';
+
+const ShareLinksPage: React.FC = () => {
+  const { data: links = [], isLoading } = useQuery({
+    queryKey: SHARE_LINKS_QUERY_KEY,
+    queryFn: () => fetchShareLinks(),
+  });
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="mb-8"
+        >
+          <h1 className="text-4xl font-bold bg-gradient-hero bg-clip-text text-transparent">
+            Shared Links
+          </h1>
+          <p className="text-muted-foreground mt-2 text-lg">
+            Public links to your files and folders. Revoke one to stop it working immediately.
+          </p>
+        </motion.div>
+
+        {!isLoading && links.length === 0 ? (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            transition={{ delay: 0.2 }}
+            className="text-center py-16"
+          >
+            <div className="w-24 h-24 bg-muted rounded-full flex items-center justify-center mx-auto mb-4">
+              <Link2 className="w-12 h-12 text-muted-foreground" />
+            </div>
+            <h3 className="text-xl font-semibold mb-2">No active links</h3>
+            <p className="text-muted-foreground">Use Share on a file or folder to create one</p>
+          </motion.div>
+        ) : (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.1 }}
+            className="space-y-3"
+          >
+            {links.map(link => (
+              <ShareLinkRow key={link.id} link={link} showTarget />
+            ))}
+          </motion.div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ShareLinksPage;
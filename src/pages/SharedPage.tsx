@@ -0,0 +1,201 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { useParams } from 'react-router-dom';
+import { Download, FileAudio, FileText, FileVideo, Lock, Play } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import MediaPreview from '@/components/media/MediaPreview';
+import { describeMetadata } from '@/lib/metadata';
+import { fetchSharedItem, unlockSharedItem, type SharedFile } from '@/lib/shares';
+
+const formatBytes = (bytes: number) => {
+  if (bytes === 0) return '0 B';
+  const k = 1024;
+  const sizes = ['B', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+};
+
+const getFileIcon = (type: SharedFile['type']) => {
+  switch (type) {
+    case 'video': return FileVideo;
+    case 'audio': return FileAudio;
+    case 'pdf': return FileText;
+  }
+};
+
+/**
+ * The public page behind a share link. It works without signing in, so it
+ * stays outside the app's navigation and only shows what the link grants.
+ */
+const SharedPage: React.FC = () => {
+  const { token = '' } = useParams();
+  const [password, setPassword] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const { data, error, isLoading, refetch } = useQuery({
+    queryKey: ['sharedItem', token],
+    queryFn: () => fetchSharedItem(token),
+    retry: false,
+  });
+
+  const unlockMutation = useMutation({
+    mutationFn: () => unlockSharedItem(token, password),
+    onSuccess: () => {
+      setPassword('');
+      refetch();
+    },
+  });
+
+  const renderContent = () => {
+    if (isLoading) {
+      return <p className="text-center text-muted-foreground py-16">Loading shared content...</p>;
+    }
+
+    if (error || !data) {
+      return (
+        <Card className="card-glass max-w-md mx-auto">
+          <CardHeader>
+            <CardTitle>Link unavailable</CardTitle>
+            <CardDescription>{error instanceof Error ? error.message : 'This link can\'t be opened'}</CardDescription>
+          </CardHeader>
+        </Card>
+      );
+    }
+
+    const { share, files } = data;
+    if (share.locked === true) {
+      return (
+        <Card className="card-glass max-w-md mx-auto">
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <Lock className="w-5 h-5" />
+              <span>Password required</span>
+            </CardTitle>
+            <CardDescription>Enter the password you were given to open this link.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form
+              className="space-y-3"
+              onSubmit={e => {
+                e.preventDefault();
+                if (password) unlockMutation.mutate();
+              }}
+            >
+              <Input
+                type="password"
+                autoFocus
+                placeholder="Password"
+                value={password}
+                onChange={e => setPassword(e.target.value)}
+              />
+              {unlockMutation.error && (
+                <p className="text-sm text-destructive">{unlockMutation.error.message}</p>
+              )}
+              <Button type="submit" variant="hero" className="w-full" disabled={unlockMutation.isPending}>
+                Unlock
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      );
+    }
+
+    const selected = files.find(file => file.id === selectedId) ?? files[0];
+    const canDownload = !share.previewOnly && share.downloadsRemaining !== 0;
+
+    return (
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold bg-gradient-hero bg-clip-text text-transparent truncate">{share.name}</h1>
+          <p className="text-muted-foreground mt-1">
+            {[
+              share.kind === 'folder' && `${files.length} ${files.length === 1 ? 'file' : 'files'}`,
+              share.expiresAt && `Available until ${new Date(share.expiresAt).toLocaleString()}`,
+              share.previewOnly
+                ? 'View only'
+                : share.downloadsRemaining !== null && `${share.downloadsRemaining} ${share.downloadsRemaining === 1 ? 'download' : 'downloads'} left`,
+            ].filter(Boolean).join(' • ')}
+          </p>
+        </div>
+
+        <div className={share.kind === 'folder' ? 'grid gap-6 lg:grid-cols-[280px_1fr]' : ''}>
+          {share.kind === 'folder' && (
+            <Card className="card-glass h-fit">
+              <CardContent className="p-2 space-y-1">
+                {files.length === 0 && <p className="text-sm text-muted-foreground p-2">This folder is empty</p>}
+                {files.map(file => {
+                  const FileIcon = getFileIcon(file.type);
+                  return (
+                    <button
+                      key={file.id}
+                      type="button"
+                      onClick={() => setSelectedId(file.id)}
+                      className={`w-full flex items-center space-x-2 rounded-md p-2 text-left transition-colors ${
+                        file.id === selected?.id ? 'bg-primary text-primary-foreground' : 'hover:bg-glass-surface'
+                      }`}
+                    >
+                      <FileIcon className="w-4 h-4 shrink-0" />
+                      <span className="min-w-0">
+                        <span className="block text-sm truncate">{file.name}</span>
+                        {file.path && <span className="block text-xs opacity-70 truncate">{file.path}</span>}
+                      </span>
+                    </button>
+                  );
+                })}
+              </CardContent>
+            </Card>
+          )}
+
+          {selected && (
+            <Card className="card-glass">
+              <CardContent className="p-4 space-y-4">
+                <MediaPreview file={selected} allowDownload={Boolean(selected.downloadUrl)} subtitles={selected.subtitles} />
+                <div className="flex items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">{selected.name}</p>
+                    <p className="text-sm text-muted-foreground truncate">
+                      {[formatBytes(selected.size), ...describeMetadata(selected.metadata)].join(' • ')}
+                    </p>
+                  </div>
+                  {canDownload && selected.downloadUrl && (
+                    <Button variant="glass" asChild>
+                      <a href={selected.downloadUrl} download={selected.name}>
+                        <Download className="w-4 h-4 mr-2" />
+                        Download
+                      </a>
+                    </Button>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-glass-border bg-glass-surface backdrop-blur-md">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 h-16 flex items-center space-x-2">
+          <div className="w-8 h-8 bg-gradient-primary rounded-lg flex items-center justify-center">
+            <Play className="w-5 h-5 text-primary-foreground" />
+          </div>
+          <span className="text-xl font-bold bg-gradient-hero bg-clip-text text-transparent">CloudStream</span>
+        </div>
+      </header>
+      <motion.main
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8"
+      >
+        {renderContent()}
+      </motion.main>
+    </div>
+  );
+};
+
+export default SharedPage;
@@ -0,0 +1,398 @@
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import {
+  Download,
+  Eye,
+  FileAudio,
+  FileText,
+  FileVideo,
+  Folder as FolderIcon,
+  FolderPlus,
+  LogOut,
+  Pencil,
+  Upload,
+  Users,
+} from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from '@/components/ui/breadcrumb';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import AccessDialog from '@/components/files/AccessDialog';
+import FolderNameDialog from '@/components/files/FolderNameDialog';
+import TagEditor from '@/components/files/TagEditor';
+import CommentsPanel from '@/components/files/CommentsPanel';
+import VersionHistory from '@/components/files/VersionHistory';
+import type { ShareTarget } from '@/components/files/ShareDialog';
+import MediaPreview from '@/components/media/MediaPreview';
+import type { CloudFile } from '@/contexts/FileContext';
+import { useSubtitles } from '@/hooks/use-subtitles';
+import { useToast } from '@/hooks/use-toast';
+import {
+  fetchSharedFolder,
+  fetchSharedWithMe,
+  hasRole,
+  revokeAccess,
+  SHARED_QUERY_KEY,
+  type AccessRole,
+  type SharedOwner,
+} from '@/lib/access';
+import { createFolder, updateFolder, type Folder } from '@/lib/folders';
+import { describeMetadata } from '@/lib/metadata';
+
+type FolderDialog = { mode: 'create' } | { mode: 'rename'; folder: Folder };
+
+// Top-level items come from their own grant; everything inside a shared folder shares its access
+interface SharedDetails {
+  role: AccessRole;
+  owner: SharedOwner;
+  grantId?: string;
+}
+
+const formatBytes = (bytes: number) => {
+  if (bytes === 0) return '0 B';
+  const k = 1024;
+  const sizes = ['B', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+};
+
+const getFileIcon = (type: CloudFile['type']) => {
+  switch (type) {
+    case 'video': return FileVideo;
+    case 'audio': return FileAudio;
+    case 'pdf': return FileText;
+  }
+};
+
+const SharedWithMePage: React.FC = () => {
+  const { folderId } = useParams();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [previewFile, setPreviewFile] = useState<CloudFile | null>(null);
+  const [accessTarget, setAccessTarget] = useState<ShareTarget | null>(null);
+  const [folderDialog, setFolderDialog] = useState<FolderDialog | null>(null);
+  const { data: previewSubtitles } = useSubtitles(previewFile?.type === 'video' ? previewFile.id : undefined);
+
+  const { data: sharedWithMe, isLoading: isLoadingShared } = useQuery({
+    queryKey: SHARED_QUERY_KEY,
+    queryFn: fetchSharedWithMe,
+    enabled: !folderId,
+  });
+
+  const { data: contents, isLoading: isLoadingFolder, error: folderError } = useQuery({
+    queryKey: [...SHARED_QUERY_KEY, 'folders', folderId],
+    queryFn: () => fetchSharedFolder(folderId!),
+    enabled: Boolean(folderId),
+    retry: false,
+  });
+
+  const isLoading = folderId ? isLoadingFolder : isLoadingShared;
+  const folderDetails = contents && { role: contents.folder.role, owner: contents.folder.owner };
+  const folders: (Folder & SharedDetails)[] = folderId
+    ? (contents?.folders ?? []).map(folder => ({ ...folder, ...folderDetails! }))
+    : sharedWithMe?.folders ?? [];
+  const files: (CloudFile & SharedDetails)[] = folderId
+    ? (contents?.files ?? []).map(file => ({ ...file, ...folderDetails! }))
+    : sharedWithMe?.files ?? [];
+
+  const reportError = (title: string, error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : 'Please try again',
+      variant: "destructive",
+    });
+  };
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: SHARED_QUERY_KEY });
+
+  const leave = async (name: string, grantId: string) => {
+    try {
+      await revokeAccess(grantId);
+      refresh();
+      toast({ title: "Removed", description: `${name} is no longer shared with you` });
+    } catch (error) {
+      reportError('Remove Failed', error);
+    }
+  };
+
+  const submitFolderName = async (name: string) => {
+    try {
+      if (folderDialog?.mode === 'rename') {
+        await updateFolder(folderDialog.folder.id, { name });
+      } else {
+        await createFolder(name, folderId!);
+      }
+      refresh();
+    } catch (error) {
+      reportError(folderDialog?.mode === 'rename' ? 'Rename Failed' : 'Could Not Create Folder', error);
+      throw error;
+    }
+  };
+
+  const describeAccess = ({ owner, role }: SharedDetails) => `${owner.name} • ${role}`;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="mb-8"
+        >
+          <Breadcrumb>
+            <BreadcrumbList>
+              <BreadcrumbItem>
+                {folderId ? (
+                  <BreadcrumbLink asChild>
+                    <Link to="/shared">Shared with me</Link>
+                  </BreadcrumbLink>
+                ) : (
+                  <BreadcrumbPage>Shared with me</BreadcrumbPage>
+                )}
+              </BreadcrumbItem>
+              {contents?.path.map((folder, index) => (
+                <React.Fragment key={folder.id}>
+                  <BreadcrumbSeparator />
+                  <BreadcrumbItem>
+                    {index === contents.path.length - 1 ? (
+                      <BreadcrumbPage>{folder.name}</BreadcrumbPage>
+                    ) : (
+                      <BreadcrumbLink asChild>
+                        <Link to={`/shared/${folder.id}`}>{folder.name}</Link>
+                      </BreadcrumbLink>
+                    )}
+                  </BreadcrumbItem>
+                </React.Fragment>
+              ))}
+            </BreadcrumbList>
+          </Breadcrumb>
+          <div className="flex items-center justify-between mt-4">
+            <div className="min-w-0">
+              <h1 className="text-4xl font-bold bg-gradient-hero bg-clip-text text-transparent truncate">
+                {contents?.folder.name ?? 'Shared with me'}
+              </h1>
+              <p className="text-muted-foreground mt-2 text-lg">
+                {contents
+                  ? `${contents.folder.owner.name}'s folder • ${contents.folder.role} access`
+                  : 'Files and folders other people have given you access to'}
+              </p>
+            </div>
+            {contents && (
+              <div className="flex items-center space-x-2">
+                {hasRole(contents.folder.role, 'editor') && (
+                  <Button variant="glass" onClick={() => setFolderDialog({ mode: 'create' })}>
+                    <FolderPlus className="w-4 h-4 mr-2" />
+                    New Folder
+                  </Button>
+                )}
+                {hasRole(contents.folder.role, 'editor') && (
+                  <Button variant="glass" onClick={() => navigate(`/upload?folder=${contents.folder.id}`)}>
+                    <Upload className="w-4 h-4 mr-2" />
+                    Upload here
+                  </Button>
+                )}
+                {hasRole(contents.folder.role, 'owner') && (
+                  <Button
+                    variant="glass"
+                    onClick={() => setAccessTarget({ kind: 'folder', id: contents.folder.id, name: contents.folder.name })}
+                  >
+                    <Users className="w-4 h-4 mr-2" />
+                    Manage access
+                  </Button>
+                )}
+              </div>
+            )}
+          </div>
+        </motion.div>
+
+        {folderError ? (
+          <div className="text-center py-16">
+            <h3 className="text-xl font-semibold mb-2">This folder isn't available</h3>
+            <p className="text-muted-foreground">{folderError instanceof Error ? folderError.message : ''}</p>
+          </div>
+        ) : !isLoading && folders.length === 0 && files.length === 0 ? (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            transition={{ delay: 0.2 }}
+            className="text-center py-16"
+          >
+            <div className="w-24 h-24 bg-muted rounded-full flex items-center justify-center mx-auto mb-4">
+              <Users className="w-12 h-12 text-muted-foreground" />
+            </div>
+            <h3 className="text-xl font-semibold mb-2">{folderId ? 'This folder is empty' : 'Nothing shared yet'}</h3>
+            <p className="text-muted-foreground">
+              {folderId ? 'Files added here will show up for you too' : 'Files and folders shared with you will appear here'}
+            </p>
+          </motion.div>
+        ) : (
+          <>
+            {folders.length > 0 && (
+              <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4 mb-8">
+                <AnimatePresence>
+                  {folders.map(folder => (
+                    <motion.div
+                      key={folder.id}
+                      initial={{ opacity: 0, scale: 0.95 }}
+                      animate={{ opacity: 1, scale: 1 }}
+                      exit={{ opacity: 0, scale: 0.95 }}
+                      whileHover={{ y: -3 }}
+                    >
+                      <Card
+                        className="card-glass cursor-pointer hover:bg-glass-surface transition-colors"
+                        onClick={() => navigate(`/shared/${folder.id}`)}
+                      >
+                        <CardContent className="flex items-center p-4">
+                          <div className="w-10 h-10 bg-gradient-secondary rounded-lg flex items-center justify-center mr-3 shrink-0">
+                            <FolderIcon className="w-5 h-5 text-primary-foreground" />
+                          </div>
+                          <div className="flex-1 min-w-0">
+                            <h3 className="font-semibold truncate">{folder.name}</h3>
+                            <p className="text-xs text-muted-foreground truncate">{describeAccess(folder)}</p>
+                          </div>
+                          <div className="flex items-center shrink-0" onClick={e => e.stopPropagation()}>
+                            {hasRole(folder.role, 'editor') && folderId && (
+                              <Button size="sm" variant="ghost" title="Rename" onClick={() => setFolderDialog({ mode: 'rename', folder })}>
+                                <Pencil className="w-4 h-4" />
+                              </Button>
+                            )}
+                            {folder.grantId && (
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                title="Remove from Shared with me"
+                                onClick={() => leave(folder.name, folder.grantId!)}
+                              >
+                                <LogOut className="w-4 h-4" />
+                              </Button>
+                            )}
+                          </div>
+                        </CardContent>
+                      </Card>
+                    </motion.div>
+                  ))}
+                </AnimatePresence>
+              </div>
+            )}
+
+            <div className="space-y-4">
+              <AnimatePresence>
+                {files.map((file, index) => {
+                  const FileIcon = getFileIcon(file.type);
+
+                  return (
+                    <motion.div
+                      key={file.id}
+                      initial={{ opacity: 0, scale: 0.9 }}
+                      animate={{ opacity: 1, scale: 1 }}
+                      exit={{ opacity: 0, scale: 0.9 }}
+                      transition={{ delay: index * 0.05 }}
+                    >
+                      <Card className="card-premium overflow-hidden">
+                        <CardContent className="flex items-center p-4">
+                          <button
+                            type="button"
+                            className="w-16 h-16 bg-gradient-secondary rounded-lg flex items-center justify-center mr-4 overflow-hidden shrink-0"
+                            onClick={() => setPreviewFile(file)}
+                          >
+                            {file.thumbnail ? (
+                              <img src={file.thumbnail} alt="" loading="lazy" className="w-full h-full object-cover" />
+                            ) : (
+                              <FileIcon className="w-8 h-8 text-primary-foreground" />
+                            )}
+                          </button>
+                          <div className="flex-1 min-w-0">
+                            <div className="flex items-center mb-1">
+                              <h3 className="font-semibold truncate mr-2">{file.name}</h3>
+                              <Badge variant="outline" className="capitalize">{file.role}</Badge>
+                            </div>
+                            <div className="text-sm text-muted-foreground truncate">
+                              {[file.owner.name, formatBytes(file.size), ...describeMetadata(file.metadata)].join(' • ')}
+                            </div>
+                            {file.tags.length > 0 && (
+                              <div className="flex flex-wrap gap-1 mt-1">
+                                {file.tags.map(tag => (
+                                  <Badge key={tag} variant="secondary">{tag}</Badge>
+                                ))}
+                              </div>
+                            )}
+                          </div>
+                          <div className="flex items-center space-x-2 ml-4">
+                            <Button size="sm" variant="glass" title="Open" onClick={() => setPreviewFile(file)}>
+                              <Eye className="w-4 h-4" />
+                            </Button>
+                            <Button size="sm" variant="ghost" title="Download" asChild>
+                              <a href={file.downloadUrl} download={file.name}>
+                                <Download className="w-4 h-4" />
+                              </a>
+                            </Button>
+                            {hasRole(file.role, 'editor') && <TagEditor file={file} />}
+                            <CommentsPanel file={file} role={file.role} iconClassName="w-4 h-4" />
+                            <VersionHistory file={file} readOnly={!hasRole(file.role, 'editor')} />
+                            {hasRole(file.role, 'owner') && (
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                title="Manage access"
+                                onClick={() => setAccessTarget({ kind: 'file', id: file.id, name: file.name })}
+                              >
+                                <Users className="w-4 h-4" />
+                              </Button>
+                            )}
+                            {file.grantId && (
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                title="Remove from Shared with me"
+                                onClick={() => leave(file.name, file.grantId!)}
+                              >
+                                <LogOut className="w-4 h-4" />
+                              </Button>
+                            )}
+                          </div>
+                        </CardContent>
+                      </Card>
+                    </motion.div>
+                  );
+                })}
+              </AnimatePresence>
+            </div>
+          </>
+        )}
+
+        <Dialog open={previewFile !== null} onOpenChange={open => !open && setPreviewFile(null)}>
+          <DialogContent className="sm:max-w-4xl">
+            <DialogHeader>
+              <DialogTitle className="truncate">{previewFile?.name}</DialogTitle>
+            </DialogHeader>
+            {previewFile && <MediaPreview file={previewFile} rememberPosition subtitles={previewSubtitles} />}
+          </DialogContent>
+        </Dialog>
+
+        <FolderNameDialog
+          open={folderDialog !== null}
+          onOpenChange={open => !open && setFolderDialog(null)}
+          title={folderDialog?.mode === 'rename' ? 'Rename folder' : 'New folder'}
+          submitLabel={folderDialog?.mode === 'rename' ? 'Rename' : 'Create'}
+          initialName={folderDialog?.mode === 'rename' ? folderDialog.folder.name : ''}
+          onSubmit={submitFolderName}
+        />
+
+        <AccessDialog target={accessTarget} onClose={() => setAccessTarget(null)} />
+      </div>
+    </div>
+  );
+};
+
+export default SharedWithMePage;
@@ -0,0 +1,257 @@
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { FileAudio, FileText, FileVideo, Folder as FolderIcon, RotateCcw, Trash2, XCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useFiles, CloudFile } from '@/contexts/FileContext';
+import { useTrash } from '@/hooks/use-trash';
+import { useToast } from '@/hooks/use-toast';
+import { USAGE_QUERY_KEY } from '@/lib/account';
+import type { Folder } from '@/lib/folders';
+import { deleteFileForever, deleteFolderForever, emptyTrash, getPurgeDate, TRASH_QUERY_KEY } from '@/lib/trash';
+
+type TrashItem =
+  | { kind: 'file'; id: string; name: string; trashedAt: Date; file: CloudFile }
+  | { kind: 'folder'; id: string; name: string; trashedAt: Date; folder: Folder };
+
+// Deleting forever always asks first; there is no way back from it
+type PendingDeletion = { kind: 'item'; item: TrashItem } | { kind: 'all' };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const TrashPage: React.FC = () => {
+  const { data: trash, isLoading } = useTrash();
+  const { restoreFile, restoreFolder } = useFiles();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [pendingDeletion, setPendingDeletion] = useState<PendingDeletion | null>(null);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  const items: TrashItem[] = [
+    ...(trash?.folders ?? []).map(folder => ({
+      kind: 'folder' as const,
+      id: folder.id,
+      name: folder.name,
+      trashedAt: new Date(folder.trashedAt!),
+      folder,
+    })),
+    ...(trash?.files ?? []).map(file => ({
+      kind: 'file' as const,
+      id: file.id,
+      name: file.name,
+      trashedAt: file.trashedAt!,
+      file,
+    })),
+  ].sort((a, b) => b.trashedAt.getTime() - a.trashedAt.getTime());
+
+  const reportError = (title: string, error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : 'Please try again',
+      variant: "destructive",
+    });
+  };
+
+  const deleteMutation = useMutation({
+    mutationFn: (deletion: PendingDeletion) => {
+      if (deletion.kind === 'all') return emptyTrash();
+      return deletion.item.kind === 'file'
+        ? deleteFileForever(deletion.item.id)
+        : deleteFolderForever(deletion.item.id);
+    },
+    onSuccess: (_data, deletion) => {
+      queryClient.invalidateQueries({ queryKey: TRASH_QUERY_KEY });
+      queryClient.invalidateQueries({ queryKey: USAGE_QUERY_KEY });
+      toast({
+        title: deletion.kind === 'all' ? "Trash Emptied" : "Deleted Forever",
+        description: deletion.kind === 'all'
+          ? 'Everything in the trash has been permanently deleted'
+          : `${deletion.item.name} has been permanently deleted`,
+      });
+    },
+    onError: error => reportError('Delete Failed', error),
+  });
+
+  const restoreItem = async (item: TrashItem) => {
+    setRestoringId(item.id);
+    try {
+      await (item.kind === 'file' ? restoreFile(item.id) : restoreFolder(item.id));
+      toast({
+        title: "Restored",
+        description: `${item.name} has been restored`,
+      });
+    } catch (error) {
+      reportError('Restore Failed', error);
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const describePurge = (trashedAt: Date) => {
+    if (!trash) return '';
+    const daysLeft = Math.ceil((getPurgeDate(trashedAt, trash.retentionDays).getTime() - Date.now()) / DAY_MS);
+    return daysLeft <= 1 ? 'Deleted forever within a day' : `Deleted forever in ${daysLeft} days`;
+  };
+
+  const formatBytes = (bytes: number) => {
+    if (bytes === 0) return '0 B';
+    const k = 1024;
+    const sizes = ['B', 'KB', 'MB', 'GB'];
+    const i = Math.floor(Math.log(bytes) / Math.log(k));
+    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+  };
+
+  const getItemIcon = (item: TrashItem) => {
+    if (item.kind === 'folder') return FolderIcon;
+    switch (item.file.type) {
+      case 'video': return FileVideo;
+      case 'audio': return FileAudio;
+      case 'pdf': return FileText;
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="flex items-center justify-between mb-8"
+        >
+          <div>
+            <h1 className="text-4xl font-bold bg-gradient-hero bg-clip-text text-transparent">
+              Trash
+            </h1>
+            <p className="text-muted-foreground mt-2 text-lg">
+              {trash
+                ? `Items are deleted forever ${trash.retentionDays} days after they're moved here, and count towards your storage until then`
+                : 'Deleted files and folders can be restored from here'}
+            </p>
+          </div>
+          <Button
+            variant="destructive"
+            disabled={items.length === 0 || deleteMutation.isPending}
+            onClick={() => setPendingDeletion({ kind: 'all' })}
+          >
+            <XCircle className="w-4 h-4 mr-2" />
+            Empty Trash
+          </Button>
+        </motion.div>
+
+        {!isLoading && items.length === 0 ? (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            transition={{ delay: 0.2 }}
+            className="text-center py-16"
+          >
+            <div className="w-24 h-24 bg-muted rounded-full flex items-center justify-center mx-auto mb-4">
+              <Trash2 className="w-12 h-12 text-muted-foreground" />
+            </div>
+            <h3 className="text-xl font-semibold mb-2">Trash is empty</h3>
+            <p className="text-muted-foreground">Files and folders you delete will show up here</p>
+          </motion.div>
+        ) : (
+          <div className="space-y-4">
+            <AnimatePresence>
+              {items.map(item => {
+                const ItemIcon = getItemIcon(item);
+
+                return (
+                  <motion.div
+                    key={item.id}
+                    layout
+                    initial={{ opacity: 0, y: 20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    exit={{ opacity: 0, scale: 0.95 }}
+                  >
+                    <Card className="card-glass">
+                      <CardContent className="flex items-center p-4">
+                        <div className="w-12 h-12 bg-gradient-secondary rounded-lg flex items-center justify-center mr-4 overflow-hidden shrink-0">
+                          {item.kind === 'file' && item.file.thumbnail ? (
+                            <img src={item.file.thumbnail} alt="" loading="lazy" className="w-full h-full object-cover" />
+                          ) : (
+                            <ItemIcon className="w-6 h-6 text-primary-foreground" />
+                          )}
+                        </div>
+                        <div className="flex-1 min-w-0">
+                          <h3 className="font-semibold truncate">{item.name}</h3>
+                          <p className="text-sm text-muted-foreground truncate">
+                            {[
+                              item.kind === 'file' ? formatBytes(item.file.size) : 'Folder and its contents',
+                              `Moved to trash ${item.trashedAt.toLocaleDateString()}`,
+                              describePurge(item.trashedAt),
+                            ].join(' • ')}
+                          </p>
+                        </div>
+                        <div className="flex items-center space-x-2 ml-4">
+                          <Button
+                            size="sm"
+                            variant="glass"
+                            disabled={restoringId === item.id}
+                            onClick={() => restoreItem(item)}
+                          >
+                            <RotateCcw className="w-4 h-4 mr-2" />
+                            Restore
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            title="Delete forever"
+                            disabled={deleteMutation.isPending}
+                            onClick={() => setPendingDeletion({ kind: 'item', item })}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      </CardContent>
+                    </Card>
+                  </motion.div>
+                );
+              })}
+            </AnimatePresence>
+          </div>
+        )}
+
+        <AlertDialog open={pendingDeletion !== null} onOpenChange={open => !open && setPendingDeletion(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>
+                {pendingDeletion?.kind === 'item' ? `Delete "${pendingDeletion.item.name}" forever?` : 'Empty the trash?'}
+              </AlertDialogTitle>
+              <AlertDialogDescription>
+                {pendingDeletion?.kind === 'item' && pendingDeletion.item.kind === 'folder'
+                  ? 'The folder and everything that was in it will be permanently deleted. This can\'t be undone.'
+                  : pendingDeletion?.kind === 'item'
+                    ? 'The file will be permanently deleted. This can\'t be undone.'
+                    : `All ${items.length} items in the trash will be permanently deleted. This can't be undone.`}
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                onClick={() => pendingDeletion && deleteMutation.mutate(pendingDeletion)}
+              >
+                Delete Forever
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+    </div>
+  );
+};
+
+export default TrashPage;
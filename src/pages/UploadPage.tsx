@@ -1,37 +1,80 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { motion } from 'framer-motion';
-import { Upload, FileVideo, FileAudio, FileText, X, Check } from 'lucide-react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useSearchParams } from 'react-router-dom';
+import { Upload, FileVideo, FileAudio, FileText, X, Check, Pause, Play, RotateCcw } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import { useFiles, CloudFile } from '@/contexts/FileContext';
+import { cancelUpload, fetchPendingUploads, getFileFingerprint, uploadFileInChunks } from '@/lib/uploads';
+import { attachSubtitles } from '@/lib/subtitles';
+import { fetchSharedFolder, SHARED_QUERY_KEY } from '@/lib/access';
+import { getFolderPath } from '@/lib/folders';
+import { useStorageUsage } from '@/hooks/use-storage-usage';
 import { useToast } from '@/hooks/use-toast';
+import { getMediaType, guessMimeType, SIGNATURE_LENGTH, validateSignature } from '@shared/fileSignatures';
+import { guessSubtitleLanguage, isSubtitleFile, MAX_SUBTITLE_SIZE, SUBTITLE_EXTENSIONS } from '@shared/subtitles';
+
+type UploadStatus = 'queued' | 'uploading' | 'paused' | 'verifying' | 'done' | 'error';
 
 interface UploadingFile {
-  file: File;
-  progress: number;
-  status: 'uploading' | 'completed' | 'error';
   id: string;
+  // Missing for uploads restored from the server until the file is picked again
+  file?: File;
+  name: string;
+  size: number;
+  type: CloudFile['type'] | null;
+  fingerprint: string;
+  uploadedBytes: number;
+  status: UploadStatus;
+  uploadId?: string;
+  parentId: string | null;
+  // Caption files dropped alongside a video, attached once it has uploaded
+  subtitles?: File[];
 }
 
+const MAX_CONCURRENT_UPLOADS = 2;
+
+// "Movie.en.srt" and "movie.mp4" both come down to "movie"
+const getBaseName = (fileName: string) => {
+  const name = fileName.replace(/\.[^.]+$/, '');
+  const language = isSubtitleFile(fileName) ? guessSubtitleLanguage(fileName) : null;
+  return (language ? name.slice(0, -language.length - 1) : name).toLowerCase();
+};
+
 const UploadPage: React.FC = () => {
   const [uploadingFiles, setUploadingFiles] = useState<UploadingFile[]>([]);
   const [isDragOver, setIsDragOver] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const { addFile } = useFiles();
+  const controllers = useRef(new Map<string, AbortController>());
+  const [searchParams] = useSearchParams();
+  const { addFile, folders } = useFiles();
+  const queryClient = useQueryClient();
+  const { data: usage } = useStorageUsage();
   const { toast } = useToast();
 
+  // "Upload here" on the Files page links to /upload?folder=<id>
+  const targetFolderId = searchParams.get('folder');
+  const targetPath = targetFolderId ? getFolderPath(folders, targetFolderId) : [];
+
+  // Or on a folder someone else shared, which uploads go into and count against their owner
+  const { data: sharedTarget } = useQuery({
+    queryKey: [...SHARED_QUERY_KEY, 'folders', targetFolderId],
+    queryFn: () => fetchSharedFolder(targetFolderId!),
+    enabled: Boolean(targetFolderId) && targetPath.length === 0,
+    retry: false,
+  });
+
   const acceptedTypes = {
     'video/*': ['.mp4', '.avi', '.mov', '.mkv', '.webm'],
     'audio/*': ['.mp3', '.wav', '.flac', '.aac', '.ogg'],
     'application/pdf': ['.pdf'],
+    'text/vtt': SUBTITLE_EXTENSIONS,
   };
 
   const getFileType = (file: File): 'video' | 'audio' | 'pdf' | null => {
-    if (file.type.startsWith('video/')) return 'video';
-    if (file.type.startsWith('audio/')) return 'audio';
-    if (file.type === 'application/pdf') return 'pdf';
-    return null;
+    return getMediaType(guessMimeType(file.name, file.type));
   };
 
   const getFileIcon = (type: 'video' | 'audio' | 'pdf') => {
@@ -42,81 +85,220 @@ const UploadPage: React.FC = () => {
     }
   };
 
-  const simulateUpload = (uploadingFile: UploadingFile) => {
-    const interval = setInterval(() => {
-      setUploadingFiles(prev => prev.map(uf => {
-        if (uf.id === uploadingFile.id) {
-          const newProgress = Math.min(uf.progress + Math.random() * 15, 100);
-          
-          if (newProgress >= 100) {
-            clearInterval(interval);
-            
-            // Create file URL (in production, this would be from your backend)
-            const fileUrl = URL.createObjectURL(uf.file);
-            const fileType = getFileType(uf.file);
-            
-            if (fileType) {
-              const cloudFile: CloudFile = {
-                id: uf.id,
-                name: uf.file.name,
-                type: fileType,
-                size: uf.file.size,
-                url: fileUrl,
-                uploadDate: new Date(),
-              };
-              
-              addFile(cloudFile);
-              
-              toast({
-                title: "Upload Complete",
-                description: `${uf.file.name} has been uploaded successfully.`,
-              });
-            }
-            
-            return { ...uf, progress: 100, status: 'completed' as const };
-          }
-          
-          return { ...uf, progress: newProgress };
-        }
-        return uf;
-      }));
-    }, 200 + Math.random() * 300);
+  const updateUpload = (id: string, changes: Partial<UploadingFile>) => {
+    setUploadingFiles(prev => prev.map(uf => uf.id === id ? { ...uf, ...changes } : uf));
   };
 
-  const handleFiles = (files: FileList | File[]) => {
-    const fileArray = Array.from(files);
-    const validFiles = fileArray.filter(file => {
-      const type = getFileType(file);
-      if (!type) {
+  // Uploads left unfinished by a reload or another device show up as paused
+  useEffect(() => {
+    fetchPendingUploads()
+      .then(uploads => {
+        const restored: UploadingFile[] = uploads
+          .filter(upload => upload.status === 'uploading')
+          .map(upload => ({
+            id: upload.id,
+            name: upload.name,
+            size: upload.size,
+            type: upload.type,
+            fingerprint: upload.fingerprint,
+            uploadedBytes: upload.receivedChunks.reduce(
+              (total, index) => total + Math.min(upload.chunkSize, upload.size - index * upload.chunkSize),
+              0,
+            ),
+            status: 'paused',
+            uploadId: upload.id,
+            parentId: upload.parentId,
+          }));
+
+        setUploadingFiles(prev => [
+          ...prev,
+          ...restored.filter(r => !prev.some(uf => uf.fingerprint === r.fingerprint)),
+        ]);
+      })
+      .catch(() => undefined);
+  }, []);
+
+  const startUpload = useCallback(async (uploadingFile: UploadingFile) => {
+    const controller = new AbortController();
+    controllers.current.set(uploadingFile.id, controller);
+    updateUpload(uploadingFile.id, { status: 'uploading' });
+
+    try {
+      const cloudFile = await uploadFileInChunks(uploadingFile.file!, {
+        signal: controller.signal,
+        parentId: uploadingFile.parentId,
+        onSession: upload => updateUpload(uploadingFile.id, { uploadId: upload.id }),
+        onProgress: uploadedBytes => updateUpload(uploadingFile.id, { uploadedBytes }),
+        onVerifying: () => updateUpload(uploadingFile.id, { status: 'verifying' }),
+      });
+      const { parentId } = uploadingFile;
+      if (parentId === null || folders.some(folder => folder.id === parentId)) {
+        addFile(cloudFile);
+      } else {
+        queryClient.invalidateQueries({ queryKey: SHARED_QUERY_KEY });
+      }
+      updateUpload(uploadingFile.id, { uploadedBytes: uploadingFile.size, status: 'done' });
+
+      const subtitles = uploadingFile.subtitles ?? [];
+      const results = await Promise.allSettled(
+        subtitles.map(subtitle => attachSubtitles(cloudFile.id, subtitle, guessSubtitleLanguage(subtitle.name) ?? 'und')),
+      );
+      results.forEach((result, index) => {
+        if (result.status === 'fulfilled') return;
         toast({
-          title: "Unsupported File Type",
-          description: `${file.name} is not supported. Please upload video, audio, or PDF files.`,
+          title: "Subtitles Not Added",
+          description: result.reason instanceof Error
+            ? `${subtitles[index].name}: ${result.reason.message}`
+            : `${subtitles[index].name} could not be added to ${uploadingFile.name}.`,
           variant: "destructive",
         });
-        return false;
-      }
-      if (file.size > 50 * 1024 * 1024) { // 50MB limit
+      });
+
+      toast({
+        title: "Upload Complete",
+        description: cloudFile.version > 1
+          ? `${uploadingFile.name} has been saved as version ${cloudFile.version}.`
+          : `${uploadingFile.name} has been uploaded successfully.`,
+      });
+    } catch (error) {
+      // Pausing or removing an upload aborts it; that is not a failure
+      if (controller.signal.aborted) return;
+
+      updateUpload(uploadingFile.id, { status: 'error' });
+      toast({
+        title: "Upload Failed",
+        description: error instanceof Error ? error.message : `${uploadingFile.name} could not be uploaded.`,
+        variant: "destructive",
+      });
+    } finally {
+      controllers.current.delete(uploadingFile.id);
+    }
+  }, [addFile, folders, queryClient, toast]);
+
+  // Starts queued uploads while keeping only a few transfers running at once
+  useEffect(() => {
+    const active = uploadingFiles.filter(uf => uf.status === 'uploading' || uf.status === 'verifying').length;
+    uploadingFiles
+      .filter(uf => uf.status === 'queued' && uf.file)
+      .slice(0, Math.max(MAX_CONCURRENT_UPLOADS - active, 0))
+      .forEach(startUpload);
+  }, [uploadingFiles, startUpload]);
+
+  // Aborting in-flight requests when leaving the page leaves them resumable
+  useEffect(() => {
+    const active = controllers.current;
+    return () => active.forEach(controller => controller.abort());
+  }, []);
+
+  const validateFile = async (file: File) => {
+    const type = getFileType(file);
+    if (!type) {
+      toast({
+        title: "Unsupported File Type",
+        description: `${file.name} is not supported. Please upload video, audio, or PDF files.`,
+        variant: "destructive",
+      });
+      return false;
+    }
+    // The server enforces both limits; checking here just fails faster
+    if (usage && file.size > usage.maxFileSize) {
+      toast({
+        title: "File Too Large",
+        description: `${file.name} is too large. Maximum file size is ${formatBytes(usage.maxFileSize)}.`,
+        variant: "destructive",
+      });
+      return false;
+    }
+    if (usage && usage.used + file.size > usage.quota) {
+      toast({
+        title: "Storage Full",
+        description: `${file.name} would exceed your ${formatBytes(usage.quota)} storage quota.`,
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    // Catch renamed or mislabelled files before any bytes are sent; the server checks again
+    const signature = new Uint8Array(await file.slice(0, SIGNATURE_LENGTH).arrayBuffer());
+    const signatureError = validateSignature(signature, guessMimeType(file.name, file.type), file.name);
+    if (signatureError) {
+      toast({
+        title: "File Rejected",
+        description: signatureError,
+        variant: "destructive",
+      });
+      return false;
+    }
+    return true;
+  };
+
+  // Subtitles aren't uploaded as files of their own; each goes with the video it's named after
+  const pairSubtitles = (subtitleFiles: File[], videos: File[]) => {
+    const pairs = new Map<File, File[]>();
+    subtitleFiles.forEach(subtitle => {
+      if (subtitle.size > MAX_SUBTITLE_SIZE) {
         toast({
           title: "File Too Large",
-          description: `${file.name} is too large. Maximum file size is 50MB.`,
+          description: `${subtitle.name} is too large. Subtitle files can be up to ${formatBytes(MAX_SUBTITLE_SIZE)}.`,
           variant: "destructive",
         });
-        return false;
+        return;
       }
-      return true;
+      const video = videos.find(file => getBaseName(file.name) === getBaseName(subtitle.name));
+      if (!video) {
+        toast({
+          title: "No Matching Video",
+          description: `Upload ${subtitle.name} together with the video it belongs to, or add it from the video's Subtitles button in My Files.`,
+          variant: "destructive",
+        });
+        return;
+      }
+      pairs.set(video, [...(pairs.get(video) ?? []), subtitle]);
     });
+    return pairs;
+  };
+
+  const handleFiles = async (files: FileList | File[]) => {
+    const [subtitleFiles, fileArray] = Array.from(files).reduce<[File[], File[]]>(
+      ([subtitles, media], file) => isSubtitleFile(file.name) ? [[...subtitles, file], media] : [subtitles, [...media, file]],
+      [[], []],
+    );
+    const checks = await Promise.all(fileArray.map(validateFile));
+    const validFiles = fileArray.filter((_, index) => checks[index]);
+    const subtitlesByVideo = pairSubtitles(
+      subtitleFiles,
+      validFiles.filter(file => getFileType(file) === 'video'),
+    );
 
-    const newUploadingFiles: UploadingFile[] = validFiles.map(file => ({
-      file,
-      progress: 0,
-      status: 'uploading',
-      id: Math.random().toString(36).substr(2, 9),
-    }));
-
-    setUploadingFiles(prev => [...prev, ...newUploadingFiles]);
-    
-    // Start upload simulation for each file
-    newUploadingFiles.forEach(simulateUpload);
+    setUploadingFiles(prev => {
+      const next = [...prev];
+      validFiles.forEach(file => {
+        const fingerprint = getFileFingerprint(file);
+        const existing = next.findIndex(uf => uf.fingerprint === fingerprint && uf.status !== 'done');
+
+        if (existing >= 0) {
+          // Picking the same file again resumes its paused or failed upload
+          if (!['uploading', 'verifying'].includes(next[existing].status)) {
+            next[existing] = { ...next[existing], file, status: 'queued', subtitles: subtitlesByVideo.get(file) };
+          }
+          return;
+        }
+
+        next.push({
+          id: Math.random().toString(36).substr(2, 9),
+          file,
+          name: file.name,
+          size: file.size,
+          type: getFileType(file),
+          fingerprint,
+          uploadedBytes: 0,
+          status: 'queued',
+          parentId: targetPath.length > 0 || sharedTarget ? targetFolderId : null,
+          subtitles: subtitlesByVideo.get(file),
+        });
+      });
+      return next;
+    });
   };
 
   const handleDrop = (e: React.DragEvent) => {
@@ -131,10 +313,29 @@ const UploadPage: React.FC = () => {
     if (files) {
       handleFiles(files);
     }
+    e.target.value = '';
   };
 
-  const removeFile = (id: string) => {
-    setUploadingFiles(prev => prev.filter(uf => uf.id !== id));
+  const pauseUpload = (id: string) => {
+    controllers.current.get(id)?.abort();
+    updateUpload(id, { status: 'paused' });
+  };
+
+  const resumeUpload = (uploadingFile: UploadingFile) => {
+    if (uploadingFile.file) {
+      updateUpload(uploadingFile.id, { status: 'queued' });
+    } else {
+      // The browser can't reopen a file by itself after a reload
+      fileInputRef.current?.click();
+    }
+  };
+
+  const removeFile = (uploadingFile: UploadingFile) => {
+    controllers.current.get(uploadingFile.id)?.abort();
+    if (uploadingFile.uploadId && uploadingFile.status !== 'done') {
+      cancelUpload(uploadingFile.uploadId).catch(() => undefined);
+    }
+    setUploadingFiles(prev => prev.filter(uf => uf.id !== uploadingFile.id));
   };
 
   const formatBytes = (bytes: number) => {
@@ -157,7 +358,11 @@ const UploadPage: React.FC = () => {
             Upload Files
           </h1>
           <p className="text-muted-foreground mt-2 text-lg">
-            Upload your videos, audio files, and PDFs to the cloud
+            {targetPath.length > 0
+              ? `Uploading into ${targetPath.map(folder => folder.name).join(' / ')}`
+              : sharedTarget
+                ? `Uploading into ${sharedTarget.folder.owner.name}'s ${sharedTarget.path.map(folder => folder.name).join(' / ')}`
+                : 'Upload your videos, audio files, and PDFs to the cloud'}
           </p>
         </motion.div>
 
@@ -186,7 +391,8 @@ const UploadPage: React.FC = () => {
                 <Upload className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
                 <h3 className="text-xl font-semibold mb-2">Drop files here or click to browse</h3>
                 <p className="text-muted-foreground mb-4">
-                  Support for videos, audio files, and PDFs up to 50MB each
+                  Support for videos, audio files, and PDFs
+                  {usage && ` up to ${formatBytes(usage.maxFileSize)} each`}
                 </p>
                 <Button variant="premium" size="lg" onClick={() => fileInputRef.current?.click()}>
                   <Upload className="mr-2 h-4 w-4" />
@@ -196,7 +402,7 @@ const UploadPage: React.FC = () => {
                   ref={fileInputRef}
                   type="file"
                   multiple
-                  accept="video/*,audio/*,application/pdf"
+                  accept={Object.entries(acceptedTypes).flat(2).join(',')}
                   onChange={handleFileInput}
                   className="hidden"
                 />
@@ -223,6 +429,9 @@ const UploadPage: React.FC = () => {
                   <FileVideo className="w-8 h-8 text-green-500 mx-auto mb-2" />
                   <h4 className="font-semibold">Video Files</h4>
                   <p className="text-sm text-muted-foreground">MP4, AVI, MOV, MKV, WebM</p>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Drop .vtt or .srt files named after a video to add its subtitles
+                  </p>
                 </div>
                 <div className="text-center">
                   <FileAudio className="w-8 h-8 text-blue-500 mx-auto mb-2" />
@@ -250,14 +459,16 @@ const UploadPage: React.FC = () => {
               <CardHeader>
                 <CardTitle>Upload Progress</CardTitle>
                 <CardDescription>
-                  {uploadingFiles.filter(f => f.status === 'completed').length} of {uploadingFiles.length} files completed
+                  {uploadingFiles.filter(f => f.status === 'done').length} of {uploadingFiles.length} files completed
                 </CardDescription>
               </CardHeader>
               <CardContent>
                 <div className="space-y-4">
                   {uploadingFiles.map((uploadingFile) => {
-                    const fileType = getFileType(uploadingFile.file);
-                    const FileIcon = fileType ? getFileIcon(fileType) : FileText;
+                    const FileIcon = uploadingFile.type ? getFileIcon(uploadingFile.type) : FileText;
+                    const progress = uploadingFile.size > 0
+                      ? (uploadingFile.uploadedBytes / uploadingFile.size) * 100
+                      : uploadingFile.status === 'done' ? 100 : 0;
                     
                     return (
                       <motion.div
@@ -269,29 +480,62 @@ const UploadPage: React.FC = () => {
                         <FileIcon className="w-8 h-8 text-primary" />
                         <div className="flex-1">
                           <div className="flex items-center justify-between mb-2">
-                            <span className="font-medium">{uploadingFile.file.name}</span>
+                            <span className="font-medium">{uploadingFile.name}</span>
                             <div className="flex items-center space-x-2">
-                              {uploadingFile.status === 'completed' ? (
+                              {uploadingFile.status === 'done' && (
                                 <Check className="w-4 h-4 text-green-500" />
-                              ) : (
+                              )}
+                              {uploadingFile.status === 'queued' && (
+                                <span className="text-sm text-muted-foreground">Queued</span>
+                              )}
+                              {uploadingFile.status === 'verifying' && (
+                                <span className="text-sm text-muted-foreground">Verifying…</span>
+                              )}
+                              {uploadingFile.status === 'error' && (
+                                <span className="text-sm text-destructive">Failed</span>
+                              )}
+                              {(uploadingFile.status === 'uploading' || uploadingFile.status === 'paused') && (
                                 <span className="text-sm text-muted-foreground">
-                                  {Math.round(uploadingFile.progress)}%
+                                  {uploadingFile.status === 'paused' && 'Paused · '}
+                                  {Math.round(progress)}%
                                 </span>
                               )}
+                              {uploadingFile.status === 'uploading' && (
+                                <button
+                                  onClick={() => pauseUpload(uploadingFile.id)}
+                                  className="text-muted-foreground hover:text-foreground transition-colors"
+                                >
+                                  <Pause className="w-4 h-4" />
+                                </button>
+                              )}
+                              {(uploadingFile.status === 'paused' || uploadingFile.status === 'error') && (
+                                <button
+                                  onClick={() => resumeUpload(uploadingFile)}
+                                  className="text-muted-foreground hover:text-foreground transition-colors"
+                                >
+                                  {uploadingFile.status === 'error' ? <RotateCcw className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                                </button>
+                              )}
                               <button
-                                onClick={() => removeFile(uploadingFile.id)}
-                                className="text-muted-foreground hover:text-destructive transition-colors"
+                                onClick={() => removeFile(uploadingFile)}
+                                disabled={uploadingFile.status === 'verifying'}
+                                className="text-muted-foreground hover:text-destructive transition-colors disabled:opacity-50"
                               >
                                 <X className="w-4 h-4" />
                               </button>
                             </div>
                           </div>
                           <div className="flex items-center space-x-4">
-                            <Progress value={uploadingFile.progress} className="flex-1" />
+                            <Progress value={progress} className="flex-1" />
                             <span className="text-xs text-muted-foreground">
-                              {formatBytes(uploadingFile.file.size)}
+                              {formatBytes(uploadingFile.uploadedBytes)} / {formatBytes(uploadingFile.size)}
                             </span>
                           </div>
+                          {uploadingFile.status === 'paused' && !uploadingFile.file && (
+                            <p className="text-xs text-muted-foreground mt-2">
+                              Select this file again to resume the upload
+                            </p>
+                          )}
                         </div>
                       </motion.div>
                     );